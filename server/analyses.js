@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { receiptRecord } from './receipts.js';
+
+// Maps detector output onto `analyses` / `analysis_results` rows.
+
+function resultRow(analysisId, model) {
+  const hasScore = typeof model.score === 'number';
+  const isAiGenerated = hasScore ? model.score >= 0.5 : false;
+  const confidence = typeof model.confidenceScore === 'number'
+    ? model.confidenceScore
+    : hasScore
+      ? (isAiGenerated ? model.score : 1 - model.score) * 100
+      : 0;
+
+  return {
+    analysis_id: analysisId,
+    model_name: model.name,
+    model_version: model.version ?? 'v1',
+    is_ai_generated: isAiGenerated,
+    confidence_score: confidence,
+    detection_type: model.detectionType ?? (!hasScore ? 'uncertain' : isAiGenerated ? 'ai_generated' : 'authentic'),
+    metadata: {
+      ...model.metadata,
+      provider: model.provider,
+      providerStatus: model.status,
+      score: model.score,
+      ...(model.regions ? { regions: model.regions } : {}),
+      ...(model.calibrated ? { rawScore: model.rawScore, calibrated: true } : {}),
+    },
+  };
+}
+
+export function fileSha256(buffer) {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+// `hashes` are the perceptual hashes the browser computed (see
+// shared/perceptualHash.js); the server cannot decode media to make its own.
+// `userId` is the signed-in uploader, or null for an unowned analysis.
+export async function createAnalysis(store, file, fileType, hashes = {}, userId = null) {
+  return store.insert('analyses', {
+    user_id: userId,
+    file_name: file.originalname,
+    file_type: fileType,
+    // Uploads are never kept on disk, so there is no URL to point at
+    file_url: '',
+    file_size: file.size,
+    file_sha256: fileSha256(file.buffer),
+    image_phash: fileType === 'image' ? hashes.phash ?? null : null,
+    image_dhash: fileType === 'image' ? hashes.dhash ?? null : null,
+    audio_fingerprint: fileType === 'audio' ? hashes.audioFingerprint ?? null : null,
+    status: 'pending',
+  });
+}
+
+export async function startAnalysis(store, analysisId) {
+  await store.update('analyses', analysisId, { status: 'processing' });
+}
+
+export async function recordProvenance(store, analysisId, provenance) {
+  await store.update('analyses', analysisId, { provenance });
+}
+
+export async function recordModelResult(store, analysisId, model) {
+  return store.insert('analysis_results', resultRow(analysisId, model));
+}
+
+// With a `signer` (see receipts.js) the completed row also gets a signed receipt
+export async function completeAnalysis(store, analysisId, detection, signer) {
+  const fields = {
+    status: 'completed',
+    completed_at: new Date().toISOString(),
+    request_id: detection.requestId ?? null,
+    verdict: detection.verdict ?? null,
+  };
+  if (signer) {
+    const results = store.select('analysis_results', {
+      filters: [{ column: 'analysis_id', op: 'eq', value: analysisId }],
+      order: [{ column: 'created_at', ascending: true }],
+    });
+    fields.receipt = signer.sign(receiptRecord({ ...store.get('analyses', analysisId), ...fields }, results));
+  }
+  await store.update('analyses', analysisId, fields);
+}
+
+export async function failAnalysis(store, analysisId) {
+  await store.update('analyses', analysisId, { status: 'failed', completed_at: new Date().toISOString() });
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { runDetectors } from './providers/index.js';
+
+const run = promisify(execFile);
+
+export const AUDIO_SEGMENT_SCOPES = ['local', 'all', 'off'];
+
+// Splits audio uploads into consecutive segments for per-segment scoring.
+// Shells out to ffmpeg/ffprobe like the video frame sampler (video.js).
+// Segments are `segmentSeconds` long, stretched so there are never more than
+// `maxSegments`, and written as 16 kHz mono WAV. Every segment is one more
+// call to each provider, so `scope` limits segment scoring to `local`
+// providers (no API quota), `all` of them, or turns it `off`.
+export function createAudioSegmenter({
+  ffmpegPath = 'ffmpeg',
+  ffprobePath = 'ffprobe',
+  segmentSeconds = 5,
+  maxSegments = 24,
+  scope = 'local',
+} = {}) {
+  async function probeDuration(filePath) {
+    const { stdout } = await run(ffprobePath, [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      filePath,
+    ]);
+    const duration = Number.parseFloat(stdout.trim());
+    if (!Number.isFinite(duration) || duration <= 0) throw new Error('Could not read audio duration');
+    return duration;
+  }
+
+  async function cut(filePath, start, length, outPath) {
+    await run(ffmpegPath, [
+      '-v', 'error',
+      '-ss', start.toFixed(3),
+      '-t', length.toFixed(3),
+      '-i', filePath,
+      '-ac', '1',
+      '-ar', '16000',
+      '-y', outPath,
+    ]);
+    return fs.promises.readFile(outPath);
+  }
+
+  return {
+    scope,
+
+    // Resolves to `{ duration, segments: [{ index, start, end, buffer }] }`
+    async split(buffer, fileName) {
+      const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'segments-'));
+      const input = path.join(dir, `input${path.extname(fileName) || '.mp3'}`);
+
+      try {
+        await fs.promises.writeFile(input, buffer);
+        const duration = await probeDuration(input);
+        const length = Math.max(segmentSeconds, duration / maxSegments);
+        const count = Math.max(1, Math.ceil(duration / length - 0.01));
+
+        const segments = [];
+        for (let index = 0; index < count; index++) {
+          const start = index * length;
+          const end = Math.min(duration, start + length);
+          const segment = await cut(input, start, end - start, path.join(dir, `segment-${index}.wav`));
+          segments.push({ index, start, end, buffer: segment });
+        }
+        return { duration, segments };
+      } catch (err) {
+        if (err.code === 'ENOENT' && err.syscall?.startsWith('spawn')) {
+          throw new Error('Audio segment scores need ffmpeg and ffprobe. Install them or set FFMPEG_PATH / FFPROBE_PATH.');
+        }
+        throw err;
+      } finally {
+        fs.promises.rm(dir, { recursive: true, force: true }).catch(() => {});
+      }
+    },
+  };
+}
+
+// Scores the whole file as usual, then every segment on its own with the
+// providers the segmenter's scope allows, so the UI can show where in the
+// recording the detectors react. The whole-file result stays authoritative;
+// segments only add `duration` and `segments` to it. The metadata forensics
+// never scores segments, which are re-encoded without the file's tags.
+// Without ffmpeg the segments are skipped and reported in `segmentsError`,
+// not `errors`, so the whole-file result can still be cached.
+export async function detectAudio(providers, segmenter, upload, { verdictConfig, calibration } = {}) {
+  const detection = await runDetectors(providers, upload, { verdictConfig, calibration });
+  const onSegment = upload.onSegment ?? (() => {});
+  const segmentProviders = segmenter.scope === 'off'
+    ? []
+    : providers.filter((p) => !p.readsFileMetadata && (segmenter.scope === 'all' || p.local));
+  if (segmentProviders.length === 0) return detection;
+
+  try {
+    const { duration, segments: clips } = await segmenter.split(upload.buffer, upload.fileName);
+    const segments = [];
+    for (const clip of clips) {
+      const result = await runDetectors(segmentProviders, {
+        buffer: clip.buffer,
+        fileName: `segment-${clip.index}.wav`,
+        mimeType: 'audio/wav',
+        fileType: 'audio',
+      }, { verdictConfig, calibration });
+
+      const segment = {
+        index: clip.index,
+        start: clip.start,
+        end: clip.end,
+        score: result.score,
+        models: result.models.map((m) => ({ name: m.name, provider: m.provider, score: m.score })),
+      };
+      segments.push(segment);
+      onSegment(segment);
+    }
+    return { ...detection, duration, segments };
+  } catch (err) {
+    return { ...detection, segmentsError: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// Local email/password accounts. Passwords are stored as scrypt hashes with
+// a per-user salt. Signing in creates a session and returns a random bearer
+// token; only its SHA-256 is stored, so a leaked data file cannot be used to
+// sign in. Requests send `Authorization: Bearer <token>`.
+//
+// Analyses belong to whoever was signed in when they were uploaded (see
+// ownerFilter); uploads without a session stay unowned.
+
+const scrypt = promisify(crypto.scrypt);
+
+const SCRYPT = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class AuthError extends Error {
+  constructor(message, status = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// `scrypt$N$r$p$salt$hash`, salt and hash base64
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH, SCRYPT);
+  return ['scrypt', SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password, stored) {
+  const [scheme, N, r, p, salt, hash] = String(stored).split('$');
+  if (scheme !== 'scrypt') return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+const tokenId = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// The parts of a `users` row that are safe to send to the client
+const publicUser = (user) => ({ id: user.id, email: user.email, created_at: user.created_at });
+
+export function createAuth(store, { sessionTtlMs }) {
+  // Checked against a throwaway hash when the email is unknown, so a wrong
+  // email takes as long as a wrong password
+  const dummyHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+  async function createSession(user) {
+    const now = Date.now();
+    for (const expired of store.select('sessions', { filters: [{ column: 'expires_at', op: 'lt', value: new Date(now).toISOString() }] })) {
+      await store.remove('sessions', expired.id);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const session = await store.insert('sessions', {
+      id: tokenId(token),
+      user_id: user.id,
+      expires_at: new Date(now + sessionTtlMs).toISOString(),
+    });
+    return { token, expiresAt: session.expires_at, user: publicUser(user) };
+  }
+
+  function findByEmail(email) {
+    return store.select('users', { filters: [{ column: 'email', op: 'eq', value: email }] })[0] ?? null;
+  }
+
+  // The signed-in user for a bearer token, or null when it is unknown or expired
+  function authenticate(token) {
+    const session = store.get('sessions', tokenId(token));
+    if (!session || Date.parse(session.expires_at) <= Date.now()) return null;
+    const user = store.get('users', session.user_id);
+    return user ? publicUser(user) : null;
+  }
+
+  return {
+    async register(email, password) {
+      const normalized = String(email ?? '').trim().toLowerCase();
+      if (!EMAIL.test(normalized)) throw new AuthError('A valid email is required', 400);
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+      }
+      if (findByEmail(normalized)) throw new AuthError('An account with this email already exists', 409);
+
+      const user = await store.insert('users', { email: normalized, password_hash: await hashPassword(password) });
+      return createSession(user);
+    },
+
+    async login(email, password) {
+      const user = findByEmail(String(email ?? '').trim().toLowerCase());
+      const valid = await verifyPassword(String(password ?? ''), user ? user.password_hash : await dummyHash);
+      if (!user || !valid) throw new AuthError('Incorrect email or password');
+      return createSession(user);
+    },
+
+    async logout(token) {
+      await store.remove('sessions', tokenId(token));
+    },
+
+    authenticate,
+
+    // Sets `req.user` (null without a session) and `req.token`. A token that
+    // is sent but no longer valid is a 401, so clients notice they were
+    // signed out instead of silently seeing anonymous data.
+    middleware() {
+      return (req, res, next) => {
+        const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+        req.token = match ? match[1] : null;
+        req.user = req.token ? authenticate(req.token) : null;
+        if (req.token && !req.user) return res.status(401).json({ error: 'Session expired, sign in again' });
+        next();
+      };
+    },
+  };
+}
+
+// Store filter for the analyses a request may see: the signed-in user's own,
+// or the unowned ones when signed out. Mirrors the RLS policies in
+// supabase/migrations.
+export function ownerFilter(user) {
+  return user
+    ? { column: 'user_id', op: 'eq', value: user.id }
+    : { column: 'user_id', op: 'is', value: 'null' };
+}
+
+export function canView(user, analysis) {
+  return (analysis.user_id ?? null) === (user?.id ?? null);
+}
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStore } from './store.js';
+import { AuthError, canView, createAuth, hashPassword, ownerFilter, verifyPassword } from './auth.js';
+
+function tempStore() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-'));
+  return createStore(path.join(dir, 'db.json'));
+}
+
+const HOUR = 60 * 60 * 1000;
+
+test('passwords hash with a fresh salt and verify', async () => {
+  const first = await hashPassword('correct horse');
+  const second = await hashPassword('correct horse');
+  assert.match(first, /^scrypt\$16384\$8\$1\$/);
+  assert.notEqual(first, second);
+  assert.equal(await verifyPassword('correct horse', first), true);
+  assert.equal(await verifyPassword('wrong horse', first), false);
+  assert.equal(await verifyPassword('correct horse', 'plain$text'), false);
+});
+
+test('register and login issue sessions that authenticate', async () => {
+  const store = tempStore();
+  const auth = createAuth(store, { sessionTtlMs: HOUR });
+
+  const registered = await auth.register('  Ana@Example.com ', 'long enough');
+  assert.equal(registered.user.email, 'ana@example.com');
+  assert.equal('password_hash' in registered.user, false);
+  assert.deepEqual(auth.authenticate(registered.token), registered.user);
+  // Only a hash of the token is stored
+  assert.equal(store.get('sessions', registered.token), null);
+
+  const session = await auth.login('ANA@example.com', 'long enough');
+  assert.notEqual(session.token, registered.token);
+  assert.equal(auth.authenticate(session.token).id, registered.user.id);
+
+  await auth.logout(session.token);
+  assert.equal(auth.authenticate(session.token), null);
+  assert.equal(auth.authenticate('made-up'), null);
+});
+
+test('register and login reject bad input with AuthError statuses', async () => {
+  const auth = createAuth(tempStore(), { sessionTtlMs: HOUR });
+  await assert.rejects(auth.register('not-an-email', 'long enough'), { name: 'AuthError', status: 400 });
+  await assert.rejects(auth.register('a@example.com', 'short'), { status: 400, message: /at least 8 characters/ });
+
+  await auth.register('a@example.com', 'long enough');
+  await assert.rejects(auth.register('A@example.com', 'long enough'), { status: 409 });
+  await assert.rejects(auth.login('a@example.com', 'wrong password'), { status: 401, message: 'Incorrect email or password' });
+  await assert.rejects(auth.login('nobody@example.com', 'long enough'), { status: 401, message: 'Incorrect email or password' });
+  assert.ok(new AuthError('x') instanceof Error);
+});
+
+test('expired sessions stop authenticating and are cleared on the next sign-in', async () => {
+  const store = tempStore();
+  const expired = createAuth(store, { sessionTtlMs: -1 });
+  const { token } = await expired.register('a@example.com', 'long enough');
+  assert.equal(expired.authenticate(token), null);
+  assert.equal(store.select('sessions').length, 1);
+
+  await createAuth(store, { sessionTtlMs: HOUR }).login('a@example.com', 'long enough');
+  assert.equal(store.select('sessions').length, 1);
+});
+
+test('middleware sets req.user and answers 401 for a stale token', async () => {
+  const auth = createAuth(tempStore(), { sessionTtlMs: HOUR });
+  const { token, user } = await auth.register('a@example.com', 'long enough');
+  const run = (authorization) => {
+    const req = { headers: authorization ? { authorization } : {} };
+    const res = { status(code) { this.statusCode = code; return this; }, json(body) { this.body = body; } };
+    let nextCalled = false;
+    auth.middleware()(req, res, () => { nextCalled = true; });
+    return { req, res, nextCalled };
+  };
+
+  const signedIn = run(`Bearer ${token}`);
+  assert.equal(signedIn.nextCalled, true);
+  assert.deepEqual(signedIn.req.user, user);
+
+  const anonymous = run();
+  assert.equal(anonymous.nextCalled, true);
+  assert.equal(anonymous.req.user, null);
+
+  const stale = run('Bearer expired-token');
+  assert.equal(stale.nextCalled, false);
+  assert.equal(stale.res.statusCode, 401);
+});
+
+test('ownerFilter and canView keep users to their own analyses', async () => {
+  const store = tempStore();
+  const ana = await store.insert('users', { email: 'ana@example.com', password_hash: 'x' });
+  const ben = await store.insert('users', { email: 'ben@example.com', password_hash: 'x' });
+  const owned = await store.insert('analyses', { file_name: 'a.jpg', file_type: 'image', file_url: 'x', user_id: ana.id });
+  const unowned = await store.insert('analyses', { file_name: 'b.jpg', file_type: 'image', file_url: 'x' });
+
+  assert.deepEqual(store.select('analyses', { filters: [ownerFilter(ana)] }).map((r) => r.id), [owned.id]);
+  assert.deepEqual(store.select('analyses', { filters: [ownerFilter(ben)] }), []);
+  assert.deepEqual(store.select('analyses', { filters: [ownerFilter(null)] }).map((r) => r.id), [unowned.id]);
+
+  assert.equal(canView(ana, owned), true);
+  assert.equal(canView(ben, owned), false);
+  assert.equal(canView(null, owned), false);
+  assert.equal(canView(null, unowned), true);
+  assert.equal(canView(ana, unowned), false);
+});
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+
+// Groups detection jobs submitted together. Batches only live in memory; the
+// analyses they point at are persisted as usual. A batch belongs to the user
+// who created it (null when signed out), like its analyses, and `has` and
+// `get` only find it for that user.
+export function createBatchRegistry(jobs) {
+  const batches = new Map();
+
+  const find = (id, userId) => {
+    const batch = batches.get(id);
+    return batch && batch.user_id === userId ? batch : null;
+  };
+
+  return {
+    create(userId = null) {
+      const batch = { id: crypto.randomUUID(), user_id: userId, created_at: new Date().toISOString(), jobIds: [] };
+      batches.set(batch.id, batch);
+      return { id: batch.id, created_at: batch.created_at };
+    },
+
+    has(id, userId = null) {
+      return find(id, userId) !== null;
+    },
+
+    add(id, jobId) {
+      batches.get(id).jobIds.push(jobId);
+    },
+
+    get(id, userId = null) {
+      const batch = find(id, userId);
+      if (!batch) return null;
+
+      const items = batch.jobIds.map((jobId) => {
+        const job = jobs.get(jobId);
+        const verdict = job?.detection?.verdict ?? job?.analysis.verdict ?? null;
+        return {
+          jobId,
+          fileName: job?.analysis.file_name ?? null,
+          fileType: job?.analysis.file_type ?? null,
+          status: job?.status ?? 'failed',
+          score: verdict?.score ?? null,
+          label: verdict && verdict.score !== null ? verdict.label : null,
+          errors: job?.errors ?? [],
+        };
+      });
+
+      const scored = items.filter((i) => i.score !== null);
+      const count = (predicate) => items.filter(predicate).length;
+
+      return {
+        id: batch.id,
+        created_at: batch.created_at,
+        items,
+        summary: {
+          total: items.length,
+          completed: count((i) => i.status === 'completed'),
+          failed: count((i) => i.status === 'failed'),
+          inProgress: count((i) => i.status === 'pending' || i.status === 'processing'),
+          likelyAi: count((i) => i.label === 'Likely AI'),
+          unclear: count((i) => i.label === 'Unclear'),
+          likelyReal: count((i) => i.label === 'Likely Real'),
+          averageScore: scored.length > 0 ? scored.reduce((sum, i) => sum + i.score, 0) / scored.length : null,
+        },
+      };
+    },
+  };
+}
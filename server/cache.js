@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// Detection results keyed by the upload's SHA-256, so a file analyzed
+// recently is answered from its stored analysis instead of calling the
+// detectors again. Entries expire after `ttlMs` and remember which detector
+// setup produced them (see cacheConfigKey); either mismatch is a miss. The
+// entries are saved to `filePath` so they survive restarts:
+//
+//   { [sha256]: { analysisId, cachedAt, configKey, detection } }
+
+// Changing providers, verdict settings or calibration invalidates the cache
+export function cacheConfigKey({ providers, verdictConfig, calibration }) {
+  const setup = JSON.stringify({
+    providers: providers.map((p) => p.name),
+    verdictConfig,
+    calibration: calibration ? calibration.fittedAt : null,
+  });
+  return crypto.createHash('sha256').update(setup).digest('hex').slice(0, 16);
+}
+
+export function createResultCache({ filePath, ttlMs, configKey }) {
+  let entries = {};
+  if (fs.existsSync(filePath)) entries = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  const fresh = (entry, now) => entry.configKey === configKey && now - Date.parse(entry.cachedAt) <= ttlMs;
+
+  // Same single write chain and atomic rename as the store
+  let pending = Promise.resolve();
+  function persist() {
+    const snapshot = JSON.stringify(entries);
+    pending = pending.then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmp, snapshot);
+      await fs.promises.rename(tmp, filePath);
+    }).catch((err) => console.error('Result cache write failed:', err));
+    return pending;
+  }
+
+  return {
+    // A TTL of 0 turns caching off
+    enabled: ttlMs > 0,
+    ttlMs,
+
+    get(sha256, now = Date.now()) {
+      const entry = entries[sha256];
+      return entry && fresh(entry, now) ? entry : null;
+    },
+
+    async set(sha256, analysisId, detection, now = Date.now()) {
+      if (ttlMs <= 0) return;
+      // Drop expired entries on the way so the file does not grow forever
+      entries = Object.fromEntries(Object.entries(entries).filter(([, e]) => fresh(e, now)));
+      entries[sha256] = { analysisId, cachedAt: new Date(now).toISOString(), configKey, detection };
+      await persist();
+    },
+  };
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+
+// Per-model score calibration. Raw detector scores rank media sensibly but
+// are not probabilities, so `npm run calibrate` fits a mapping per model from
+// a labeled reference set (server/scripts/calibrate.js) and the server
+// applies it to every later detection. The saved file looks like:
+//
+//   { method, fittedAt, dataset, models: { [modelName]: { method, samples, ...params } } }
+//
+// Platt entries carry `{ a, b }` for p = 1 / (1 + exp(a * score + b));
+// isotonic entries carry matching `x` / `y` breakpoints.
+
+export const CALIBRATION_METHODS = ['platt', 'isotonic'];
+
+const clamp01 = (x) => Math.min(1, Math.max(0, x));
+
+// Platt scaling fitted with Newton's method on the regularised targets from
+// Platt (1999), following Lin, Lin & Weng's numerically stable variant.
+// `samples` is a list of `{ score, label }` with label 1 for AI media.
+export function fitPlatt(samples) {
+  const positives = samples.filter((s) => s.label === 1).length;
+  const negatives = samples.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const targets = samples.map((s) => (s.label === 1 ? hi : lo));
+
+  let a = 0;
+  let b = Math.log((negatives + 1) / (positives + 1));
+
+  const loss = (a, b) => samples.reduce((sum, s, i) => {
+    const f = s.score * a + b;
+    const t = targets[i];
+    return sum + (f >= 0 ? t * f + Math.log1p(Math.exp(-f)) : (t - 1) * f + Math.log1p(Math.exp(f)));
+  }, 0);
+
+  let current = loss(a, b);
+  for (let iter = 0; iter < 100; iter++) {
+    let h11 = 1e-12;
+    let h22 = 1e-12;
+    let h21 = 0;
+    let g1 = 0;
+    let g2 = 0;
+    samples.forEach((s, i) => {
+      const f = s.score * a + b;
+      const p = f >= 0 ? Math.exp(-f) / (1 + Math.exp(-f)) : 1 / (1 + Math.exp(f));
+      const q = 1 - p;
+      const d2 = p * q;
+      const d1 = targets[i] - p;
+      h11 += s.score * s.score * d2;
+      h22 += d2;
+      h21 += s.score * d2;
+      g1 += s.score * d1;
+      g2 += d1;
+    });
+    if (Math.abs(g1) < 1e-5 && Math.abs(g2) < 1e-5) break;
+
+    const det = h11 * h22 - h21 * h21;
+    const da = -(h22 * g1 - h21 * g2) / det;
+    const db = -(-h21 * g1 + h11 * g2) / det;
+    const gd = g1 * da + g2 * db;
+
+    // Backtracking line search
+    let step = 1;
+    while (step >= 1e-10) {
+      const next = loss(a + step * da, b + step * db);
+      if (next < current + 1e-4 * step * gd) {
+        a += step * da;
+        b += step * db;
+        current = next;
+        break;
+      }
+      step /= 2;
+    }
+    if (step < 1e-10) break;
+  }
+
+  return { a, b };
+}
+
+// Isotonic regression by pool-adjacent-violators. Returns the block means as
+// breakpoints; scores between them are interpolated linearly.
+export function fitIsotonic(samples) {
+  const sorted = [...samples].sort((p, q) => p.score - q.score);
+  const blocks = [];
+  for (const s of sorted) {
+    blocks.push({ sum: s.label, weight: 1, lo: s.score, hi: s.score });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.weight < last.sum / last.weight) break;
+      blocks.splice(-2, 2, { sum: prev.sum + last.sum, weight: prev.weight + last.weight, lo: prev.lo, hi: last.hi });
+    }
+  }
+
+  const x = [];
+  const y = [];
+  for (const block of blocks) {
+    const value = block.sum / block.weight;
+    x.push(block.lo);
+    y.push(value);
+    if (block.hi !== block.lo) {
+      x.push(block.hi);
+      y.push(value);
+    }
+  }
+  return { x, y };
+}
+
+export function calibrateScore(entry, score) {
+  if (!entry || typeof score !== 'number') return score;
+
+  if (entry.method === 'platt') return 1 / (1 + Math.exp(entry.a * score + entry.b));
+
+  const { x, y } = entry;
+  if (score <= x[0]) return y[0];
+  if (score >= x[x.length - 1]) return y[y.length - 1];
+  const i = x.findIndex((v) => v >= score);
+  if (x[i] === x[i - 1]) return y[i];
+  return y[i - 1] + ((score - x[i - 1]) / (x[i] - x[i - 1])) * (y[i] - y[i - 1]);
+}
+
+// `scores` maps model name -> [{ score, label }]. Models whose samples do not
+// cover both labels can't be calibrated and are reported in `skipped`.
+export function fitCalibration(scores, { method = 'platt', dataset } = {}) {
+  if (!CALIBRATION_METHODS.includes(method)) {
+    throw new Error(`Unknown calibration method "${method}". Available: ${CALIBRATION_METHODS.join(', ')}`);
+  }
+
+  const models = {};
+  const skipped = [];
+  for (const [name, samples] of Object.entries(scores)) {
+    const labels = new Set(samples.map((s) => s.label));
+    if (!labels.has(0) || !labels.has(1)) {
+      skipped.push(name);
+      continue;
+    }
+    const params = method === 'platt' ? fitPlatt(samples) : fitIsotonic(samples);
+    models[name] = { method, samples: samples.length, ...params };
+  }
+
+  return { method, fittedAt: new Date().toISOString(), dataset, models, skipped };
+}
+
+// Mean squared error of scores against labels, for judging a fit
+export function brierScore(samples, map = (s) => s) {
+  if (samples.length === 0) return null;
+  return samples.reduce((sum, s) => sum + (map(s.score) - s.label) ** 2, 0) / samples.length;
+}
+
+// Replaces a model's score with its calibrated likelihood and keeps the
+// original as `rawScore`. Models without a fitted entry pass through.
+export function calibrateModel(calibration, model) {
+  const entry = calibration?.models[model.name];
+  if (!entry || typeof model.score !== 'number') return model;
+
+  const score = clamp01(calibrateScore(entry, model.score));
+  // The provider's confidence described the raw score, so drop it and let
+  // the stored row derive one from the calibrated score
+  const { confidenceScore: _confidence, ...rest } = model;
+  const isAi = score >= 0.5;
+  const flipped = model.detectionType && (model.detectionType === 'authentic') === isAi;
+  return {
+    ...rest,
+    status: isAi ? 'MANIPULATED' : 'AUTHENTIC',
+    ...(flipped ? { detectionType: isAi ? 'ai_generated' : 'authentic' } : {}),
+    score,
+    rawScore: model.score,
+    calibrated: true,
+  };
+}
+
+export function loadCalibration(filePath) {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+export async function saveCalibration(filePath, calibration) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(calibration, null, 2));
+  await fs.promises.rename(tmp, filePath);
+}
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  brierScore,
+  calibrateModel,
+  calibrateScore,
+  fitCalibration,
+  fitIsotonic,
+  fitPlatt,
+  loadCalibration,
+  saveCalibration,
+} from './calibration.js';
+
+const close = (actual, expected, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `expected ${actual} to be close to ${expected}`);
+
+// A detector that is right about the ordering but overconfident: every score
+// sits near 0 or 1 while a fifth of each end is labeled the other way
+const overconfident = [
+  ...Array.from({ length: 20 }, (_, i) => ({ score: 0.9 + i * 0.004, label: i < 4 ? 0 : 1 })),
+  ...Array.from({ length: 20 }, (_, i) => ({ score: 0.02 + i * 0.004, label: i < 4 ? 1 : 0 })),
+];
+
+test('Platt scaling maps higher scores to higher likelihoods and improves the Brier score', () => {
+  const { a, b } = fitPlatt(overconfident);
+  assert.ok(a < 0, 'the slope should keep the score ordering');
+  const entry = { method: 'platt', a, b };
+
+  const low = calibrateScore(entry, 0.05);
+  const high = calibrateScore(entry, 0.95);
+  assert.ok(low < high);
+  close(high, 0.8, 0.05);
+  close(low, 0.2, 0.05);
+  assert.ok(brierScore(overconfident, (s) => calibrateScore(entry, s)) < brierScore(overconfident));
+});
+
+test('Platt scaling stays finite on perfectly separated samples', () => {
+  const { a, b } = fitPlatt([{ score: 0.1, label: 0 }, { score: 0.2, label: 0 }, { score: 0.8, label: 1 }, { score: 0.9, label: 1 }]);
+  assert.ok(Number.isFinite(a) && Number.isFinite(b));
+  assert.ok(calibrateScore({ method: 'platt', a, b }, 0.9) > 0.5);
+});
+
+test('isotonic regression pools adjacent violators into flat steps', () => {
+  const fit = fitIsotonic([
+    { score: 0.4, label: 1 },
+    { score: 0.1, label: 0 },
+    { score: 0.3, label: 0 },
+    { score: 0.2, label: 1 },
+  ]);
+  assert.deepEqual(fit, { x: [0.1, 0.2, 0.3, 0.4], y: [0, 0.5, 0.5, 1] });
+
+  const entry = { method: 'isotonic', ...fit };
+  assert.equal(calibrateScore(entry, 0), 0);
+  assert.equal(calibrateScore(entry, 0.25), 0.5);
+  close(calibrateScore(entry, 0.15), 0.25);
+  close(calibrateScore(entry, 0.35), 0.75);
+  assert.equal(calibrateScore(entry, 1), 1);
+});
+
+test('isotonic fits never decrease', () => {
+  const { y } = fitIsotonic(overconfident);
+  for (let i = 1; i < y.length; i++) assert.ok(y[i] >= y[i - 1]);
+});
+
+test('fitCalibration skips models that lack one of the labels', () => {
+  const calibration = fitCalibration(
+    { Good: overconfident, Biased: [{ score: 0.9, label: 1 }, { score: 0.8, label: 1 }] },
+    { method: 'isotonic', dataset: 'reference' },
+  );
+  assert.equal(calibration.method, 'isotonic');
+  assert.equal(calibration.dataset, 'reference');
+  assert.deepEqual(Object.keys(calibration.models), ['Good']);
+  assert.equal(calibration.models.Good.samples, overconfident.length);
+  assert.deepEqual(calibration.skipped, ['Biased']);
+  assert.throws(() => fitCalibration({}, { method: 'beta' }), /Unknown calibration method "beta"/);
+});
+
+test('calibrateModel swaps in the calibrated score and keeps the raw one', () => {
+  const calibration = { models: { Model: { method: 'isotonic', x: [0, 1], y: [0, 0.4] } } };
+  const model = { name: 'Model', score: 1, status: 'MANIPULATED', detectionType: 'ai_generated', confidenceScore: 99 };
+
+  const calibrated = calibrateModel(calibration, model);
+  assert.equal(calibrated.score, 0.4);
+  assert.equal(calibrated.rawScore, 1);
+  assert.equal(calibrated.calibrated, true);
+  assert.equal(calibrated.status, 'AUTHENTIC');
+  assert.equal(calibrated.detectionType, 'authentic');
+  assert.equal('confidenceScore' in calibrated, false);
+
+  assert.equal(calibrateModel(calibration, { name: 'Other', score: 0.9 }).score, 0.9);
+  assert.equal(calibrateModel(calibration, { name: 'Model', score: null }).score, null);
+  assert.equal(calibrateModel(null, model), model);
+});
+
+test('a saved calibration loads back unchanged', async () => {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'calibration-')), 'nested', 'calibration.json');
+  assert.equal(loadCalibration(filePath), null);
+  const calibration = fitCalibration({ Model: overconfident }, { dataset: 'reference' });
+  await saveCalibration(filePath, calibration);
+  assert.deepEqual(loadCalibration(filePath), calibration);
+});
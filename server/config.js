@@ -0,0 +1,77 @@
+import path from 'path';
+import { createFrameSampler } from './video.js';
+import { AUDIO_SEGMENT_SCOPES, createAudioSegmenter } from './audio.js';
+
+// Settings shared by the server and the scripts in server/scripts, all read
+// from the environment (.env is loaded by the entry points).
+
+export function dataDir(env) {
+  return path.resolve(env.DATA_DIR || 'server/data');
+}
+
+// Written by `npm run calibrate`
+export function calibrationFile(env) {
+  return path.resolve(env.CALIBRATION_FILE || path.join(dataDir(env), 'calibration.json'));
+}
+
+// Written by `npm run evaluate` and POST /evaluation
+export function evaluationFile(env) {
+  return path.resolve(env.EVALUATION_FILE || path.join(dataDir(env), 'evaluation.json'));
+}
+
+// POST /evaluation only runs datasets inside this directory
+export function evaluationDatasetDir(env) {
+  return path.resolve(env.EVALUATION_DATASET_DIR || path.join(dataDir(env), 'datasets'));
+}
+
+// Ed25519 private key (PKCS#8 PEM) for signing receipts, generated on first start
+export function receiptKeyFile(env) {
+  return path.resolve(env.RECEIPT_KEY_FILE || path.join(dataDir(env), 'receipt-key.pem'));
+}
+
+// PEM bundle of C2PA trust anchors; without it every manifest is untrusted
+export function c2paTrustListFile(env) {
+  return path.resolve(env.C2PA_TRUST_LIST || path.join(dataDir(env), 'c2pa-trust.pem'));
+}
+
+// Detection results by content hash (see cache.js)
+export function resultCacheFile(env) {
+  return path.resolve(env.RESULT_CACHE_FILE || path.join(dataDir(env), 'result-cache.json'));
+}
+
+// RESULT_CACHE_TTL is in seconds; 0 disables the cache
+export function resultCacheTtlMs(env) {
+  const seconds = env.RESULT_CACHE_TTL === undefined || env.RESULT_CACHE_TTL === '' ? 86400 : Number(env.RESULT_CACHE_TTL);
+  if (!Number.isFinite(seconds) || seconds < 0) throw new Error(`RESULT_CACHE_TTL must be a number of seconds, got ${env.RESULT_CACHE_TTL}`);
+  return seconds * 1000;
+}
+
+// SESSION_TTL is in seconds; sign-ins last a week by default
+export function sessionTtlMs(env) {
+  const seconds = env.SESSION_TTL === undefined || env.SESSION_TTL === '' ? 7 * 86400 : Number(env.SESSION_TTL);
+  if (!Number.isFinite(seconds) || seconds <= 0) throw new Error(`SESSION_TTL must be a positive number of seconds, got ${env.SESSION_TTL}`);
+  return seconds * 1000;
+}
+
+export function createSamplerFromEnv(env) {
+  return createFrameSampler({
+    ffmpegPath: env.FFMPEG_PATH,
+    ffprobePath: env.FFPROBE_PATH,
+    frameCount: Number(env.VIDEO_FRAME_COUNT) || undefined,
+  });
+}
+
+// AUDIO_SEGMENTS picks the providers that score audio segments: local ones
+// (the default), all of them, or off
+export function createSegmenterFromEnv(env) {
+  const scope = env.AUDIO_SEGMENTS || 'local';
+  if (!AUDIO_SEGMENT_SCOPES.includes(scope)) {
+    throw new Error(`AUDIO_SEGMENTS must be one of ${AUDIO_SEGMENT_SCOPES.join(', ')}, got ${env.AUDIO_SEGMENTS}`);
+  }
+  return createAudioSegmenter({
+    ffmpegPath: env.FFMPEG_PATH,
+    ffprobePath: env.FFPROBE_PATH,
+    segmentSeconds: Number(env.AUDIO_SEGMENT_SECONDS) || undefined,
+    scope,
+  });
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { runDetectors, fileTypeFromMime } from './providers/index.js';
+import { detectVideo } from './video.js';
+
+// Labeled reference sets for calibration and evaluation. A dataset is a CSV
+// file of `path,label` lines (an optional header row is skipped); paths are
+// relative to the CSV and labels are `ai` or `real`.
+
+const AI_LABELS = new Set(['ai', 'fake', 'synthetic', 'ai_generated', '1', 'true']);
+const REAL_LABELS = new Set(['real', 'authentic', '0', 'false']);
+
+const MIME_TYPES = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.flac': 'audio/flac',
+};
+
+export function mimeTypeFromPath(filePath) {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export function loadDataset(csvPath) {
+  const dir = path.dirname(path.resolve(csvPath));
+  const lines = fs.readFileSync(csvPath, 'utf8').split(/\r?\n/);
+
+  const items = [];
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const comma = trimmed.lastIndexOf(',');
+    if (comma === -1) throw new Error(`${csvPath}:${i + 1}: expected "path,label"`);
+    const file = trimmed.slice(0, comma).trim().replace(/^"(.*)"$/, '$1');
+    const label = trimmed.slice(comma + 1).trim().toLowerCase();
+
+    if (i === 0 && label === 'label') return;
+    if (!AI_LABELS.has(label) && !REAL_LABELS.has(label)) {
+      throw new Error(`${csvPath}:${i + 1}: unknown label "${label}" (use "ai" or "real")`);
+    }
+    items.push({ path: path.resolve(dir, file), label: AI_LABELS.has(label) ? 1 : 0 });
+  });
+
+  if (items.length === 0) throw new Error(`${csvPath} has no entries`);
+  return items;
+}
+
+// Runs every item through the detectors and returns the per-model scores,
+// raw unless a `calibration` is given. Items that fail keep going and carry
+// an `error`.
+export async function scoreDataset({ providers, sampler, items, verdictConfig, calibration, onItem = () => {} }) {
+  const scored = [];
+  for (const item of items) {
+    const mimeType = mimeTypeFromPath(item.path);
+    const fileType = fileTypeFromMime(mimeType);
+    let entry;
+    try {
+      const buffer = await fs.promises.readFile(item.path);
+      const upload = { buffer, fileName: path.basename(item.path), mimeType, fileType };
+      const detection = fileType === 'video'
+        ? await detectVideo(providers, sampler, upload, { verdictConfig, calibration })
+        : await runDetectors(providers, upload, { verdictConfig, calibration });
+      entry = {
+        ...item,
+        fileType,
+        score: detection.score,
+        models: detection.models.map((m) => ({ name: m.name, provider: m.provider, score: m.score })),
+        error: null,
+      };
+    } catch (err) {
+      entry = { ...item, fileType, score: null, models: [], error: err instanceof Error ? err.message : String(err) };
+    }
+    scored.push(entry);
+    onItem(entry, scored.length, items.length);
+  }
+  return scored;
+}
+
+// Regroups dataset scores as model name -> [{ score, label }]
+export function samplesByModel(scored) {
+  const byModel = {};
+  for (const item of scored) {
+    for (const model of item.models) {
+      if (typeof model.score !== 'number') continue;
+      (byModel[model.name] ??= []).push({ score: model.score, label: item.label });
+    }
+  }
+  return byModel;
+}
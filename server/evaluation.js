@@ -0,0 +1,196 @@
+import fs from 'fs';
+import path from 'path';
+import { loadDataset, scoreDataset, samplesByModel } from './dataset.js';
+
+// Detector evaluation against a labeled dataset (see dataset.js). Every model,
+// and the ensemble verdict, gets threshold metrics at 0.5 plus ROC and
+// precision/recall curves over all thresholds. Reports are written by
+// `npm run evaluate` (server/scripts/evaluate.js) or POST /evaluation.
+
+export const DECISION_THRESHOLD = 0.5;
+
+const ratio = (a, b) => (b === 0 ? null : a / b);
+
+// Walks thresholds from the highest score down, one point per distinct score
+function curves(samples) {
+  const sorted = [...samples].sort((p, q) => q.score - p.score);
+  const positives = samples.filter((s) => s.label === 1).length;
+  const negatives = samples.length - positives;
+
+  const roc = [{ threshold: Infinity, fpr: 0, tpr: 0 }];
+  const pr = [];
+  let tp = 0;
+  let fp = 0;
+  sorted.forEach((s, i) => {
+    if (s.label === 1) tp++;
+    else fp++;
+    if (i < sorted.length - 1 && sorted[i + 1].score === s.score) return;
+
+    roc.push({ threshold: s.score, fpr: ratio(fp, negatives) ?? 0, tpr: ratio(tp, positives) ?? 0 });
+    pr.push({ threshold: s.score, recall: ratio(tp, positives) ?? 0, precision: tp / (tp + fp) });
+  });
+  return { roc, pr };
+}
+
+function rocAuc(roc) {
+  let area = 0;
+  for (let i = 1; i < roc.length; i++) {
+    area += (roc[i].fpr - roc[i - 1].fpr) * (roc[i].tpr + roc[i - 1].tpr) / 2;
+  }
+  return area;
+}
+
+// Step-wise area under the PR curve, as in scikit-learn
+function averagePrecision(pr) {
+  let ap = 0;
+  let recall = 0;
+  for (const point of pr) {
+    ap += (point.recall - recall) * point.precision;
+    recall = point.recall;
+  }
+  return ap;
+}
+
+// Equal error rate: where the false positive rate meets the miss rate
+function equalErrorRate(roc) {
+  for (let i = 1; i < roc.length; i++) {
+    const prev = roc[i - 1];
+    const cur = roc[i];
+    const fnr = 1 - cur.tpr;
+    if (fnr > cur.fpr) continue;
+
+    const prevGap = 1 - prev.tpr - prev.fpr;
+    const curGap = fnr - cur.fpr;
+    const t = prevGap === curGap ? 0 : prevGap / (prevGap - curGap);
+    return {
+      eer: prev.fpr + t * (cur.fpr - prev.fpr),
+      threshold: Number.isFinite(prev.threshold) ? prev.threshold + t * (cur.threshold - prev.threshold) : cur.threshold,
+    };
+  }
+  return { eer: null, threshold: null };
+}
+
+// `samples` is a list of `{ score, label }` with label 1 for AI media
+export function computeMetrics(samples, threshold = DECISION_THRESHOLD) {
+  const confusion = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  for (const s of samples) {
+    const predicted = s.score >= threshold;
+    if (predicted && s.label === 1) confusion.tp++;
+    else if (predicted) confusion.fp++;
+    else if (s.label === 1) confusion.fn++;
+    else confusion.tn++;
+  }
+  const { tp, fp, tn, fn } = confusion;
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const positives = tp + fn;
+  const negatives = tn + fp;
+  const bothClasses = positives > 0 && negatives > 0;
+
+  const { roc, pr } = curves(samples);
+  const { eer, threshold: eerThreshold } = bothClasses ? equalErrorRate(roc) : { eer: null, threshold: null };
+
+  return {
+    samples: samples.length,
+    positives,
+    negatives,
+    threshold,
+    accuracy: ratio(tp + tn, samples.length),
+    precision,
+    recall,
+    f1: precision === null || recall === null || precision + recall === 0
+      ? null
+      : (2 * precision * recall) / (precision + recall),
+    rocAuc: bothClasses ? rocAuc(roc) : null,
+    averagePrecision: positives > 0 ? averagePrecision(pr) : null,
+    eer,
+    eerThreshold,
+    confusion,
+    roc: roc.map((p) => ({ ...p, threshold: Number.isFinite(p.threshold) ? p.threshold : null })),
+    pr,
+  };
+}
+
+// Builds a report from scoreDataset output
+export function evaluateDataset(scored, { dataset, verdictConfig, calibration } = {}) {
+  const byModel = samplesByModel(scored);
+  const ensemble = scored
+    .filter((item) => typeof item.score === 'number')
+    .map((item) => ({ score: item.score, label: item.label }));
+
+  return {
+    dataset,
+    evaluatedAt: new Date().toISOString(),
+    files: scored.length,
+    failed: scored.filter((item) => item.error).map((item) => ({ path: item.path, error: item.error })),
+    calibration: calibration ? { method: calibration.method, fittedAt: calibration.fittedAt } : null,
+    ensemble: { name: 'Ensemble', strategy: verdictConfig?.strategy ?? null, ...computeMetrics(ensemble) },
+    models: Object.entries(byModel).map(([name, samples]) => ({ name, ...computeMetrics(samples) })),
+  };
+}
+
+export function loadEvaluation(filePath) {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+export async function saveEvaluation(filePath, report) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(report, null, 2));
+  await fs.promises.rename(tmp, filePath);
+}
+
+export function isInside(dir, file) {
+  const relative = path.relative(dir, file);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// One evaluation at a time for POST /evaluation. The latest finished report
+// is read back from `reportFile`, so results from `npm run evaluate` show up
+// too; the run state itself only lives in memory.
+export function createEvaluationRunner({ providers, sampler, verdictConfig, calibration, reportFile }) {
+  let state = { status: 'idle', dataset: null, progress: null, error: null };
+
+  async function run(dataset, items) {
+    try {
+      const scored = await scoreDataset({
+        providers,
+        sampler,
+        items,
+        verdictConfig,
+        calibration,
+        onItem: (_item, done, total) => {
+          state.progress = { done, total };
+        },
+      });
+      await saveEvaluation(reportFile, evaluateDataset(scored, { dataset, verdictConfig, calibration }));
+      state = { ...state, status: 'completed' };
+    } catch (err) {
+      console.error('Evaluation error:', err);
+      state = { ...state, status: 'failed', error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  return {
+    get running() {
+      return state.status === 'running';
+    },
+
+    // Loads the dataset up front so a bad path or label fails the request.
+    // With `root`, every file the dataset lists must be inside it too.
+    start(dataset, { root } = {}) {
+      const items = loadDataset(dataset);
+      if (root && items.some((item) => !isInside(root, item.path))) {
+        throw new Error(`${dataset} lists files outside ${root}`);
+      }
+      state = { status: 'running', dataset, progress: { done: 0, total: items.length }, error: null };
+      run(dataset, items);
+      return state;
+    },
+
+    get() {
+      return { ...state, report: loadEvaluation(reportFile) };
+    },
+  };
+}
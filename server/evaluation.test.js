@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { computeMetrics, DECISION_THRESHOLD, evaluateDataset, isInside } from './evaluation.js';
+
+const close = (actual, expected, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `expected ${actual} to be close to ${expected}`);
+
+const samples = [
+  { score: 0.9, label: 1 },
+  { score: 0.8, label: 1 },
+  { score: 0.7, label: 0 },
+  { score: 0.6, label: 1 },
+  { score: 0.4, label: 0 },
+  { score: 0.2, label: 0 },
+];
+
+test('threshold metrics come from the confusion matrix at 0.5', () => {
+  const metrics = computeMetrics(samples);
+  assert.equal(metrics.threshold, DECISION_THRESHOLD);
+  assert.deepEqual(metrics.confusion, { tp: 3, fp: 1, tn: 2, fn: 0 });
+  assert.equal(metrics.positives, 3);
+  assert.equal(metrics.negatives, 3);
+  close(metrics.accuracy, 5 / 6);
+  close(metrics.precision, 0.75);
+  close(metrics.recall, 1);
+  close(metrics.f1, 6 / 7);
+});
+
+test('a custom threshold moves the confusion matrix', () => {
+  assert.deepEqual(computeMetrics(samples, 0.75).confusion, { tp: 2, fp: 0, tn: 3, fn: 1 });
+  // Scores exactly at the threshold count as AI
+  assert.deepEqual(computeMetrics([{ score: 0.5, label: 0 }]).confusion, { tp: 0, fp: 1, tn: 0, fn: 0 });
+});
+
+test('ROC-AUC, average precision and EER follow the ranking', () => {
+  const metrics = computeMetrics(samples);
+  // 8 of the 9 positive/negative pairs are ranked correctly
+  close(metrics.rocAuc, 8 / 9);
+  close(metrics.averagePrecision, 11 / 12);
+  close(metrics.eer, 1 / 3);
+  close(metrics.eerThreshold, 0.7);
+
+  assert.deepEqual(metrics.roc[0], { threshold: null, fpr: 0, tpr: 0 });
+  assert.deepEqual(metrics.roc.at(-1), { threshold: 0.2, fpr: 1, tpr: 1 });
+  assert.equal(metrics.pr.length, samples.length);
+});
+
+test('a perfect detector scores an AUC of 1 and an EER of 0', () => {
+  const metrics = computeMetrics([{ score: 0.9, label: 1 }, { score: 0.8, label: 1 }, { score: 0.3, label: 0 }, { score: 0.1, label: 0 }]);
+  assert.equal(metrics.rocAuc, 1);
+  assert.equal(metrics.averagePrecision, 1);
+  assert.equal(metrics.eer, 0);
+});
+
+test('tied scores form a single curve point', () => {
+  const metrics = computeMetrics([{ score: 0.5, label: 1 }, { score: 0.5, label: 0 }]);
+  assert.equal(metrics.roc.length, 2);
+  assert.equal(metrics.rocAuc, 0.5);
+  close(metrics.eer, 0.5);
+});
+
+test('ranking metrics are null without both labels', () => {
+  const onlyAi = computeMetrics([{ score: 0.9, label: 1 }, { score: 0.2, label: 1 }]);
+  assert.equal(onlyAi.rocAuc, null);
+  assert.equal(onlyAi.eer, null);
+  assert.equal(onlyAi.precision, 1);
+  assert.equal(onlyAi.averagePrecision, 1);
+
+  const onlyReal = computeMetrics([{ score: 0.2, label: 0 }]);
+  assert.equal(onlyReal.precision, null);
+  assert.equal(onlyReal.recall, null);
+  assert.equal(onlyReal.f1, null);
+  assert.equal(onlyReal.averagePrecision, null);
+
+  assert.equal(computeMetrics([]).accuracy, null);
+});
+
+test('evaluateDataset reports the ensemble and every model, skipping unscored entries', () => {
+  const report = evaluateDataset(
+    [
+      { path: 'a.jpg', label: 1, score: 0.9, models: [{ name: 'A', score: 0.8 }, { name: 'B', score: null }] },
+      { path: 'b.jpg', label: 0, score: 0.1, models: [{ name: 'A', score: 0.3 }, { name: 'B', score: 0.6 }] },
+      { path: 'c.jpg', label: 1, score: null, models: [], error: 'Unreadable' },
+    ],
+    { dataset: 'set.json', verdictConfig: { strategy: 'max' } },
+  );
+  assert.equal(report.files, 3);
+  assert.deepEqual(report.failed, [{ path: 'c.jpg', error: 'Unreadable' }]);
+  assert.equal(report.calibration, null);
+  assert.equal(report.ensemble.strategy, 'max');
+  assert.equal(report.ensemble.samples, 2);
+  assert.deepEqual(report.models.map((m) => [m.name, m.samples]), [['A', 2], ['B', 1]]);
+});
+
+test('isInside only accepts paths below the directory', () => {
+  const root = path.resolve('/data/datasets');
+  assert.equal(isInside(root, path.join(root, 'set', 'a.jpg')), true);
+  assert.equal(isInside(root, root), false);
+  assert.equal(isInside(root, path.join(root, '..', 'secrets.json')), false);
+  assert.equal(isInside(root, path.resolve('/data/datasets-other/a.jpg')), false);
+});
@@ -0,0 +1,124 @@
+import { ownerFilter } from './auth.js';
+
+// Analysis history search: filters over the analyses table, newest first,
+// with each row's model results joined in and keyset (cursor) pagination so
+// pages stay stable while new analyses arrive. The cursor is the
+// (created_at, id) of the last row on the previous page.
+
+const FILE_TYPES = ['image', 'video', 'audio'];
+const STATUSES = ['pending', 'processing', 'completed', 'failed'];
+const VERDICTS = ['ai_generated', 'uncertain', 'authentic'];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+function parseList(value, allowed, name) {
+  const items = String(value).split(',').map((s) => s.trim()).filter(Boolean);
+  const bad = items.find((item) => !allowed.includes(item));
+  if (bad) throw new Error(`${name} must be one of ${allowed.join(', ')}`);
+  return items;
+}
+
+function parsePercent(value, name) {
+  const n = Number(value);
+  if (value === '' || !Number.isFinite(n) || n < 0 || n > 100) throw new Error(`${name} must be between 0 and 100`);
+  return n / 100;
+}
+
+function parseDate(value, name) {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`${name} must be a date`);
+  return new Date(time).toISOString();
+}
+
+function encodeCursor(row) {
+  return Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url');
+}
+
+function decodeCursor(value) {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(String(value), 'base64url').toString('utf8'));
+    if (typeof createdAt === 'string' && typeof id === 'string') return { createdAt, id };
+  } catch {
+    // fall through
+  }
+  throw new Error('cursor is malformed');
+}
+
+// Parses `?q=&file_type=&status=&verdict=&min_score=&max_score=&from=&to=&cursor=&limit=`.
+// Lists are comma-separated, scores are AI likelihood in percent, `from` is
+// inclusive and `to` exclusive. Returns `{ query }` or `{ error }`.
+export function parseHistoryQuery(input = {}) {
+  try {
+    const query = { limit: DEFAULT_PAGE_SIZE };
+    const has = (key) => input[key] !== undefined && input[key] !== '';
+
+    if (has('q')) query.search = String(input.q).trim().toLowerCase();
+    if (has('file_type')) query.fileTypes = parseList(input.file_type, FILE_TYPES, 'file_type');
+    if (has('status')) query.statuses = parseList(input.status, STATUSES, 'status');
+    if (has('verdict')) query.verdicts = parseList(input.verdict, VERDICTS, 'verdict');
+    if (has('min_score')) query.minScore = parsePercent(input.min_score, 'min_score');
+    if (has('max_score')) query.maxScore = parsePercent(input.max_score, 'max_score');
+    if (has('from')) query.from = parseDate(input.from, 'from');
+    if (has('to')) query.to = parseDate(input.to, 'to');
+    if (has('cursor')) query.cursor = decodeCursor(input.cursor);
+    if (has('limit')) {
+      const limit = Number(input.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        throw new Error(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+      }
+      query.limit = limit;
+    }
+    return { query };
+  } catch (err) {
+    return { error: err.message };
+  }
+}
+
+function matches(row, query) {
+  if (query.search && !row.file_name.toLowerCase().includes(query.search)) return false;
+  if (query.fileTypes && !query.fileTypes.includes(row.file_type)) return false;
+  if (query.statuses && !query.statuses.includes(row.status)) return false;
+  if (query.from && row.created_at < query.from) return false;
+  if (query.to && row.created_at >= query.to) return false;
+
+  // Verdict and score filters only match analyses that have a verdict
+  const verdict = row.verdict;
+  if (query.verdicts && !query.verdicts.includes(verdict?.outcome)) return false;
+  if (query.minScore !== undefined || query.maxScore !== undefined) {
+    if (typeof verdict?.score !== 'number') return false;
+    if (query.minScore !== undefined && verdict.score < query.minScore) return false;
+    if (query.maxScore !== undefined && verdict.score > query.maxScore) return false;
+  }
+
+  if (query.cursor) {
+    const { createdAt, id } = query.cursor;
+    if (row.created_at > createdAt || (row.created_at === createdAt && row.id >= id)) return false;
+  }
+  return true;
+}
+
+// Returns `{ items, nextCursor }`; items are analyses `user` may see, each with
+// a `results` array, and `nextCursor` is null on the last page
+export function searchHistory(store, query, user = null) {
+  const rows = store
+    .select('analyses', {
+      filters: [ownerFilter(user)],
+      order: [
+        { column: 'created_at', ascending: false },
+        { column: 'id', ascending: false },
+      ],
+    })
+    .filter((row) => matches(row, query));
+
+  const page = rows.slice(0, query.limit);
+  const results = new Map(page.map((row) => [row.id, []]));
+  for (const result of store.select('analysis_results', { order: [{ column: 'created_at', ascending: true }] })) {
+    results.get(result.analysis_id)?.push(result);
+  }
+
+  return {
+    items: page.map((row) => ({ ...row, results: results.get(row.id) })),
+    nextCursor: rows.length > query.limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStore } from './store.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, parseHistoryQuery, searchHistory } from './history.js';
+
+function tempStore() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+  return createStore(path.join(dir, 'db.json'));
+}
+
+const analysis = (fields = {}) => ({ file_name: 'a.jpg', file_type: 'image', file_url: 'local://a.jpg', ...fields });
+const verdict = (outcome, score) => ({ strategy: 'weighted', outcome, score });
+
+test('parseHistoryQuery reads every filter', () => {
+  const { query } = parseHistoryQuery({
+    q: '  Holiday ',
+    file_type: 'image, video',
+    status: 'completed',
+    verdict: 'ai_generated,uncertain',
+    min_score: '40',
+    max_score: '90.5',
+    from: '2026-01-01',
+    to: '2026-02-01T12:00:00Z',
+    limit: '50',
+  });
+  assert.deepEqual(query, {
+    limit: 50,
+    search: 'holiday',
+    fileTypes: ['image', 'video'],
+    statuses: ['completed'],
+    verdicts: ['ai_generated', 'uncertain'],
+    minScore: 0.4,
+    maxScore: 0.905,
+    from: '2026-01-01T00:00:00.000Z',
+    to: '2026-02-01T12:00:00.000Z',
+  });
+  assert.deepEqual(parseHistoryQuery({ q: '', status: '' }), { query: { limit: DEFAULT_PAGE_SIZE } });
+  assert.deepEqual(parseHistoryQuery(), { query: { limit: DEFAULT_PAGE_SIZE } });
+});
+
+test('parseHistoryQuery rejects bad values with an error', () => {
+  assert.deepEqual(parseHistoryQuery({ file_type: 'image,pdf' }), { error: 'file_type must be one of image, video, audio' });
+  assert.match(parseHistoryQuery({ verdict: 'fake' }).error, /verdict must be one of/);
+  assert.match(parseHistoryQuery({ min_score: '101' }).error, /min_score must be between 0 and 100/);
+  assert.match(parseHistoryQuery({ max_score: 'high' }).error, /max_score/);
+  assert.match(parseHistoryQuery({ from: 'yesterday' }).error, /from must be a date/);
+  assert.match(parseHistoryQuery({ limit: '0' }).error, /limit must be an integer/);
+  assert.match(parseHistoryQuery({ limit: String(MAX_PAGE_SIZE + 1) }).error, /limit must be an integer/);
+  assert.match(parseHistoryQuery({ limit: '2.5' }).error, /limit must be an integer/);
+  assert.deepEqual(parseHistoryQuery({ cursor: 'not-a-cursor' }), { error: 'cursor is malformed' });
+  const wrongShape = Buffer.from(JSON.stringify([1, 2])).toString('base64url');
+  assert.deepEqual(parseHistoryQuery({ cursor: wrongShape }), { error: 'cursor is malformed' });
+});
+
+test('the keyset cursor pages newest first without gaps or repeats', async () => {
+  const store = tempStore();
+  // Two rows share a timestamp, so the id has to break the tie
+  for (const [name, createdAt] of [
+    ['1.jpg', '2026-01-01T00:00:00.000Z'],
+    ['2.jpg', '2026-01-02T00:00:00.000Z'],
+    ['3.jpg', '2026-01-02T00:00:00.000Z'],
+    ['4.jpg', '2026-01-03T00:00:00.000Z'],
+    ['5.jpg', '2026-01-04T00:00:00.000Z'],
+  ]) {
+    await store.insert('analyses', analysis({ file_name: name, created_at: createdAt }));
+  }
+
+  const seen = [];
+  let cursor;
+  let pages = 0;
+  do {
+    const { query } = parseHistoryQuery({ limit: '2', cursor });
+    const page = searchHistory(store, query);
+    seen.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+    pages++;
+
+    // A newer upload between pages must not shift the next page
+    if (pages === 1) await store.insert('analyses', analysis({ file_name: 'new.jpg', created_at: '2026-02-01T00:00:00.000Z' }));
+  } while (cursor);
+
+  assert.equal(pages, 3);
+  assert.equal(seen[0].file_name, '5.jpg');
+  assert.equal(seen[1].file_name, '4.jpg');
+  assert.deepEqual(seen.slice(2, 4).map((r) => r.file_name).sort(), ['2.jpg', '3.jpg']);
+  assert.equal(seen[4].file_name, '1.jpg');
+  assert.equal(new Set(seen.map((r) => r.id)).size, 5);
+});
+
+test('searchHistory filters rows, joins results and only shows what the user owns', async () => {
+  const store = tempStore();
+  const user = await store.insert('users', { email: 'a@example.com', password_hash: 'x' });
+  const fake = await store.insert('analyses', analysis({ file_name: 'Fake.jpg', status: 'completed', verdict: verdict('ai_generated', 0.9) }));
+  await store.insert('analyses', analysis({ file_name: 'real.mp4', file_type: 'video', status: 'completed', verdict: verdict('authentic', 0.1) }));
+  await store.insert('analyses', analysis({ file_name: 'pending.jpg' }));
+  await store.insert('analyses', analysis({ file_name: 'mine.jpg', user_id: user.id }));
+  await store.insert('analysis_results', {
+    analysis_id: fake.id,
+    model_name: 'Model',
+    is_ai_generated: true,
+    confidence_score: 90,
+    detection_type: 'ai_generated',
+  });
+
+  const names = (input, who = null) => searchHistory(store, parseHistoryQuery(input).query, who).items.map((r) => r.file_name).sort();
+  assert.deepEqual(names({}), ['Fake.jpg', 'pending.jpg', 'real.mp4']);
+  assert.deepEqual(names({}, user), ['mine.jpg']);
+  assert.deepEqual(names({ q: 'FAKE' }), ['Fake.jpg']);
+  assert.deepEqual(names({ file_type: 'video' }), ['real.mp4']);
+  assert.deepEqual(names({ status: 'pending' }), ['pending.jpg']);
+  assert.deepEqual(names({ verdict: 'authentic' }), ['real.mp4']);
+  // Score filters skip analyses without a verdict
+  assert.deepEqual(names({ min_score: '0' }), ['Fake.jpg', 'real.mp4']);
+  assert.deepEqual(names({ max_score: '50' }), ['real.mp4']);
+
+  const [row] = searchHistory(store, parseHistoryQuery({ q: 'fake' }).query).items;
+  assert.deepEqual(row.results.map((r) => r.model_name), ['Model']);
+});
@@ -1,64 +1,215 @@
 import express from 'express';
 import multer from 'multer';
-import fs from 'fs';
 import path from 'path';
-import os from 'os';
 import dotenv from 'dotenv';
 import cors from 'cors';
-import { RealityDefender } from '@realitydefender/realitydefender';
+import { createProviders } from './providers/index.js';
+import { verdictConfigFromEnv } from '../shared/verdict.js';
+import { createStore } from './store.js';
+import { createJobRunner } from './jobs.js';
+import { loadCalibration } from './calibration.js';
+import { createEvaluationRunner } from './evaluation.js';
+import { loadReceiptSigner } from './receipts.js';
+import { loadTrustList } from './provenance/index.js';
+import { cacheConfigKey, createResultCache } from './cache.js';
+import { createAuth } from './auth.js';
+import {
+  c2paTrustListFile,
+  calibrationFile,
+  createSamplerFromEnv,
+  createSegmenterFromEnv,
+  dataDir,
+  evaluationDatasetDir,
+  evaluationFile,
+  receiptKeyFile,
+  resultCacheFile,
+  resultCacheTtlMs,
+  sessionTtlMs,
+} from './config.js';
+import { createAnalysesRouter } from './routes/analyses.js';
+import { createAuthRouter } from './routes/auth.js';
+import { createJobsRouter } from './routes/jobs.js';
+import { createBatchRegistry } from './batches.js';
+import { createBatchesRouter } from './routes/batches.js';
+import { createEvaluationRouter } from './routes/evaluation.js';
+import { createReceiptsRouter } from './routes/receipts.js';
+import { createStatsRouter } from './routes/stats.js';
+import { createWorkspacesRouter } from './routes/workspaces.js';
+import { parseHashes } from './similarity.js';
 
 // Load .env from project root
 dotenv.config();
 
-const RD_API_KEY = process.env.RD_API_KEY;
-if (!RD_API_KEY) {
-  console.error('Missing RD_API_KEY in environment. Create a .env file with RD_API_KEY=...');
+let providers;
+let verdictConfig;
+try {
+  providers = createProviders(process.env);
+  verdictConfig = verdictConfigFromEnv((key) => process.env[key]);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
   process.exit(1);
 }
+console.log('Detector providers:', providers.map((p) => p.name).join(', '));
+console.log('Verdict strategy:', verdictConfig.strategy);
 
-const rd = new RealityDefender({ apiKey: RD_API_KEY });
+const store = createStore(path.join(dataDir(process.env), 'db.json'));
+
+let auth;
+try {
+  auth = createAuth(store, { sessionTtlMs: sessionTtlMs(process.env) });
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+
+// Written by `npm run calibrate`; without it scores are reported uncalibrated
+let calibration;
+try {
+  calibration = loadCalibration(calibrationFile(process.env));
+} catch (err) {
+  console.error(`Could not read calibration from ${calibrationFile(process.env)}:`, err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+console.log(calibration
+  ? `Calibration: ${calibration.method} (${Object.keys(calibration.models).length} models, fitted ${calibration.fittedAt})`
+  : 'Calibration: none');
+
+let signer;
+try {
+  const loaded = loadReceiptSigner(receiptKeyFile(process.env));
+  signer = loaded.signer;
+  console.log(`Receipt signing key ${signer.keyId}${loaded.created ? ` (generated at ${receiptKeyFile(process.env)})` : ''}`);
+} catch (err) {
+  console.error(`Could not load receipt key from ${receiptKeyFile(process.env)}:`, err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+
+let trustAnchors;
+try {
+  trustAnchors = loadTrustList(c2paTrustListFile(process.env));
+} catch (err) {
+  console.error(`Could not read C2PA trust list from ${c2paTrustListFile(process.env)}:`, err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+console.log(`C2PA trust anchors: ${trustAnchors.length}`);
+
+let cache;
+try {
+  cache = createResultCache({
+    filePath: resultCacheFile(process.env),
+    ttlMs: resultCacheTtlMs(process.env),
+    configKey: cacheConfigKey({ providers, verdictConfig, calibration }),
+  });
+} catch (err) {
+  console.error('Could not set up the result cache:', err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+console.log(cache.enabled ? `Result cache: ${cache.ttlMs / 1000}s TTL` : 'Result cache: off');
+
+const sampler = createSamplerFromEnv(process.env);
+
+// A bad AUDIO_SEGMENTS only affects segment timelines, so fall back to the default
+let segmenter;
+try {
+  segmenter = createSegmenterFromEnv(process.env);
+} catch (err) {
+  console.error('Could not set up audio segments, using the defaults:', err instanceof Error ? err.message : err);
+  segmenter = createSegmenterFromEnv({ ...process.env, AUDIO_SEGMENTS: '' });
+}
+console.log(`Audio segments: ${segmenter.scope}`);
+
+const jobs = createJobRunner({
+  store,
+  providers,
+  sampler,
+  segmenter,
+  verdictConfig,
+  calibration,
+  signer,
+  trustAnchors,
+  cache,
+});
+const batches = createBatchRegistry(jobs);
+const evaluations = createEvaluationRunner({
+  providers,
+  sampler,
+  verdictConfig,
+  calibration,
+  reportFile: evaluationFile(process.env),
+});
 
 const app = express();
 app.use(cors());
+// Sets req.user from `Authorization: Bearer <token>` (see auth.js)
+app.use(auth.middleware());
 
 const upload = multer({ storage: multer.memoryStorage() });
 
-// POST /detect accepts multipart/form-data with `file` field
+// POST /detect accepts multipart/form-data with `file` field, an optional
+// `batchId` from POST /batches, and optional perceptual hashes (`phash`,
+// `dhash`, `audioFingerprint`) kept for POST /analyses/similar. Detection runs
+// in the background; poll GET /jobs/:id with the returned job id or follow
+// GET /jobs/:id/events. The completed analysis row carries a signed receipt
+// (see receipts.js). The analysis belongs to the signed-in user, if any.
+//
+// A file whose SHA-256 matches a recent run by the same user gets that
+// analysis back with `cached: true` and status `completed`; `force=true`
+// (query or form field) runs the detectors again.
 app.post('/detect', upload.single('file'), async (req, res) => {
-  try {
-    console.log('Incoming /detect request', { origin: req.headers.origin, ip: req.ip, ua: req.headers['user-agent'] });
-    if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
-
-    console.log('Uploaded file:', { originalname: req.file.originalname, size: req.file.size, mimetype: req.file.mimetype });
-
-    // Write to a temp file because the SDK usage example expects a filePath
-    const tmpDir = os.tmpdir();
-    const filename = `rd-upload-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    const ext = path.extname(req.file.originalname) || '';
-    const tmpPath = path.join(tmpDir, filename + ext);
+  console.log('Incoming /detect request', { origin: req.headers.origin, ip: req.ip, ua: req.headers['user-agent'] });
+  if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
 
-    await fs.promises.writeFile(tmpPath, req.file.buffer);
+  console.log('Uploaded file:', { originalname: req.file.originalname, size: req.file.size, mimetype: req.file.mimetype });
 
-    // Call RealityDefender detect (using filePath as in the provided example)
-    const result = await rd.detect({ filePath: tmpPath });
+  const { batchId } = req.body ?? {};
+  const userId = req.user?.id ?? null;
+  if (batchId && !batches.has(batchId, userId)) return res.status(404).json({ error: 'Batch not found' });
 
-    // Remove temp file
-    fs.unlink(tmpPath, () => {});
+  const { hashes, error } = parseHashes(req.body);
+  if (error) return res.status(400).json({ error });
 
-    // Return the SDK response directly to the client
-    res.json(result);
-  } catch (err) {
-    console.error('Detect error:', err);
-    res.status(500).json({ error: 'Detection failed', message: err instanceof Error ? err.message : String(err) });
-  }
+  const force = req.query.force === 'true' || req.body?.force === 'true';
+  const { analysis, cached } = await jobs.start(req.file, hashes, { force, userId });
+  if (batchId) batches.add(batchId, analysis.id);
+  res.status(cached ? 200 : 202).json({ jobId: analysis.id, analysisId: analysis.id, status: analysis.status, cached });
 });
 
+app.use(createAuthRouter(auth));
+app.use(createJobsRouter({ jobs, store }));
+app.use(createBatchesRouter({ batches, jobs, upload }));
+app.use(createReceiptsRouter({ signer, upload }));
+app.use(createEvaluationRouter({
+  evaluations,
+  datasetDir: evaluationDatasetDir(process.env),
+  defaultDataset: process.env.EVALUATION_DATASET,
+}));
+app.use(createAnalysesRouter(store));
+app.use(createStatsRouter(store));
+app.use(createWorkspacesRouter(store));
+
 // Simple healthcheck
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', time: new Date().toISOString() });
+  res.json({
+    status: 'ok',
+    time: new Date().toISOString(),
+    providers: providers.map((p) => p.name),
+    verdict: verdictConfig,
+    calibration: calibration ? { method: calibration.method, fittedAt: calibration.fittedAt } : null,
+    receiptKeyId: signer.keyId,
+    resultCacheTtl: cache.ttlMs / 1000,
+    sessionTtl: sessionTtlMs(process.env) / 1000,
+  });
+});
+
+// Store validation errors carry an HTTP status; anything else is a 500
+app.use((err, req, res, next) => {
+  if (res.headersSent) return next(err);
+  const status = err.status || 500;
+  if (status >= 500) console.error('Request error:', err);
+  res.status(status).json({ error: err.message || 'Internal server error' });
 });
 
 const port = process.env.PORT || 4000;
 app.listen(port, () => {
-  console.log(`RealityDefender local server listening on http://localhost:${port}`);
+  console.log(`Detection server listening on http://localhost:${port}`);
 });
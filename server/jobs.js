@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import { runDetectors, fileTypeFromMime } from './providers/index.js';
+import { detectVideo } from './video.js';
+import { detectAudio } from './audio.js';
+import { inspectProvenance } from './provenance/index.js';
+import { fileSha256, createAnalysis, startAnalysis, recordProvenance, recordModelResult, completeAnalysis, failAnalysis } from './analyses.js';
+
+// Background detection jobs. A job id is the id of its `analyses` row, so the
+// job follows the same pending -> processing -> completed/failed lifecycle.
+// Per-model results are written as they arrive; provider errors and the final
+// merged detection only live in memory and are gone after a restart.
+// Completed rows carry a signed receipt when a `signer` is given, and image
+// rows the C2PA provenance report (see provenance/index.js).
+//
+// With a result `cache` (see cache.js), an upload whose SHA-256 matches a
+// recent error-free run by the same user (or an earlier anonymous upload,
+// when signed out) gets that analysis back, marked `cached`, instead of a
+// new job; `force` skips the lookup.
+//
+// Each job also has an emitter for GET /jobs/:id/events with the events
+// `status`, `provenance` (images only), `model_started`, `frame_result`
+// (videos only), `model_result`, `segment_result` (audio only), `completed`
+// and `failed`.
+//
+// Finished jobs are dropped from memory `finishedJobTtlMs` after they end;
+// their snapshot then comes from the stored rows alone, without `errors` or
+// `detection`.
+export function createJobRunner({
+  store,
+  providers,
+  sampler,
+  segmenter,
+  verdictConfig,
+  calibration,
+  signer,
+  trustAnchors,
+  cache,
+  finishedJobTtlMs = 60 * 60 * 1000,
+}) {
+  const jobs = new Map();
+
+  const retire = (id) => {
+    setTimeout(() => jobs.delete(id), finishedJobTtlMs).unref();
+  };
+
+  function snapshot(id) {
+    const analysis = store.get('analyses', id);
+    if (!analysis) return null;
+
+    const job = jobs.get(id) ?? { errors: [], detection: null, started: [], frames: [], segments: [] };
+    return {
+      id,
+      status: analysis.status,
+      analysis,
+      results: store.select('analysis_results', {
+        filters: [{ column: 'analysis_id', op: 'eq', value: id }],
+        order: [{ column: 'created_at', ascending: true }],
+      }),
+      errors: job.errors,
+      detection: job.detection,
+      cached: job.cached ?? false,
+    };
+  }
+
+  async function run(analysisId, file, fileType) {
+    const job = jobs.get(analysisId);
+    const emit = (event, data) => job.events.emit('event', { event, data });
+    // Serialise result inserts so they land in the order models finished
+    let writes = Promise.resolve();
+
+    try {
+      await startAnalysis(store, analysisId);
+      emit('status', { status: 'processing' });
+
+      if (fileType === 'image') {
+        const provenance = inspectProvenance(file.buffer, { trustAnchors });
+        await recordProvenance(store, analysisId, provenance);
+        emit('provenance', provenance);
+      }
+
+      const upload = {
+        buffer: file.buffer,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        fileType,
+        onFrame: (point) => {
+          job.frames.push(point);
+          emit('frame_result', point);
+        },
+        onSegment: (segment) => {
+          job.segments.push(segment);
+          emit('segment_result', segment);
+        },
+        onModelStart: (model) => {
+          job.started.push(model);
+          emit('model_started', model);
+        },
+        onModel: (model) => {
+          writes = writes.then(async () => {
+            const row = await recordModelResult(store, analysisId, model);
+            emit('model_result', row);
+          });
+        },
+      };
+      const options = { verdictConfig, calibration };
+      const detection = fileType === 'video'
+        ? await detectVideo(providers, sampler, upload, options)
+        : fileType === 'audio'
+          ? await detectAudio(providers, segmenter, upload, options)
+          : await runDetectors(providers, upload, options);
+      await writes;
+
+      job.errors = detection.errors ?? [];
+      job.detection = detection;
+      await completeAnalysis(store, analysisId, detection, signer);
+      // Runs with provider errors are worth retrying, so they are not cached
+      if (cache && job.errors.length === 0) {
+        await cache.set(store.get('analyses', analysisId).file_sha256, analysisId, detection);
+      }
+      emit('completed', snapshot(analysisId));
+      retire(analysisId);
+    } catch (err) {
+      console.error('Detect error:', err);
+      job.errors.push({ message: err instanceof Error ? err.message : String(err) });
+      await writes.catch(() => {});
+      await failAnalysis(store, analysisId).catch(() => {});
+      emit('failed', snapshot(analysisId));
+      retire(analysisId);
+    }
+  }
+
+  return {
+    // Resolves to `{ analysis, cached }`. The analysis belongs to `userId`.
+    async start(file, hashes, { force = false, userId = null } = {}) {
+      const hit = cache && !force ? cache.get(fileSha256(file.buffer)) : null;
+      const previous = hit && store.get('analyses', hit.analysisId);
+      if (previous?.status === 'completed' && (previous.user_id ?? null) === userId) {
+        jobs.set(previous.id, {
+          errors: [],
+          detection: hit.detection,
+          started: [],
+          frames: hit.detection.timeline ?? [],
+          segments: hit.detection.segments ?? [],
+          events: new EventEmitter(),
+          cached: true,
+        });
+        retire(previous.id);
+        return { analysis: previous, cached: true };
+      }
+
+      const fileType = fileTypeFromMime(file.mimetype);
+      const analysis = await createAnalysis(store, file, fileType, hashes, userId);
+      jobs.set(analysis.id, { errors: [], detection: null, started: [], frames: [], segments: [], events: new EventEmitter() });
+
+      run(analysis.id, file, fileType);
+      return { analysis, cached: false };
+    },
+
+    get: snapshot,
+
+    // Replays what already happened, then forwards live events until the job
+    // finishes. Returns an unsubscribe function.
+    subscribe(id, listener) {
+      const current = snapshot(id);
+      if (!current) return null;
+
+      const job = jobs.get(id);
+      const finished = current.status === 'completed' || current.status === 'failed';
+
+      listener({ event: 'status', data: { status: current.status } });
+      if (current.analysis.provenance) listener({ event: 'provenance', data: current.analysis.provenance });
+      const reported = new Set(current.results.map((r) => r.model_name));
+      for (const model of job?.started ?? []) {
+        if (!reported.has(model.name)) listener({ event: 'model_started', data: model });
+      }
+      for (const point of job?.frames ?? []) listener({ event: 'frame_result', data: point });
+      for (const segment of job?.segments ?? []) listener({ event: 'segment_result', data: segment });
+      for (const row of current.results) listener({ event: 'model_result', data: row });
+
+      if (finished || !job) {
+        listener({ event: current.status === 'failed' ? 'failed' : 'completed', data: current });
+        return () => {};
+      }
+
+      job.events.on('event', listener);
+      return () => job.events.off('event', listener);
+    },
+  };
+}
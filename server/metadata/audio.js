@@ -0,0 +1,95 @@
+// ID3v2 (MP3) and RIFF INFO (WAV) tag reading. Other containers report no tags.
+
+const syncsafe = (b, o) => (b[o] << 21) | (b[o + 1] << 14) | (b[o + 2] << 7) | b[o + 3];
+
+function decodeText(data) {
+  const encoding = data[0];
+  const body = data.subarray(1);
+  let text;
+  if (encoding === 1 || encoding === 2) {
+    // UTF-16 with a BOM (1) or big-endian without one (2)
+    let bytes = body;
+    let bigEndian = encoding === 2;
+    if (encoding === 1 && bytes.length >= 2) {
+      bigEndian = bytes[0] === 0xfe && bytes[1] === 0xff;
+      bytes = bytes.subarray(2);
+    }
+    const even = Buffer.from(bytes.subarray(0, bytes.length - (bytes.length % 2)));
+    text = (bigEndian ? even.swap16() : even).toString('utf16le');
+  } else {
+    text = body.toString(encoding === 3 ? 'utf8' : 'latin1');
+  }
+  return text.replace(/\0+$/, '');
+}
+
+// Text frames (T***), user-defined text (TXXX) and comments (COMM) from ID3v2.3/2.4
+function readId3(buffer) {
+  const major = buffer[3];
+  if (major !== 3 && major !== 4) return null;
+  const end = Math.min(buffer.length, 10 + syncsafe(buffer, 6));
+  const tags = {};
+  let pos = buffer[5] & 0x40 ? 10 + (major === 4 ? syncsafe(buffer, 10) : buffer.readUInt32BE(10) + 4) : 10;
+
+  while (pos + 10 <= end) {
+    const id = buffer.toString('latin1', pos, pos + 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break;
+    const size = major === 4 ? syncsafe(buffer, pos + 4) : buffer.readUInt32BE(pos + 4);
+    const data = buffer.subarray(pos + 10, Math.min(end, pos + 10 + size));
+    pos += 10 + size;
+    if (data.length === 0) continue;
+
+    if (id === 'TXXX') {
+      const [description, value = ''] = decodeText(data).split('\0');
+      tags[`TXXX:${description}`] = value;
+    } else if (id === 'COMM' && data.length > 4) {
+      const text = decodeText(Buffer.concat([data.subarray(0, 1), data.subarray(4)]));
+      tags.COMM = text.split('\0').filter(Boolean).join(' - ');
+    } else if (id[0] === 'T') {
+      tags[id] = decodeText(data);
+    }
+  }
+  return tags;
+}
+
+const RIFF_INFO = {
+  ISFT: 'Software',
+  ICRD: 'CreationDate',
+  IART: 'Artist',
+  INAM: 'Title',
+  ICMT: 'Comment',
+  IENG: 'Engineer',
+};
+
+function readRiff(buffer) {
+  const tags = {};
+  let pos = 12;
+  while (pos + 8 <= buffer.length) {
+    const id = buffer.toString('latin1', pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    const data = buffer.subarray(pos + 8, pos + 8 + size);
+
+    if (id === 'LIST' && data.toString('latin1', 0, 4) === 'INFO') {
+      let at = 4;
+      while (at + 8 <= data.length) {
+        const key = data.toString('latin1', at, at + 4);
+        const length = data.readUInt32LE(at + 4);
+        if (RIFF_INFO[key]) tags[RIFF_INFO[key]] = data.toString('utf8', at + 8, at + 8 + length).replace(/\0+$/, '').trim();
+        at += 8 + length + (length % 2);
+      }
+    } else if ((id === 'id3 ' || id === 'ID3 ') && data.toString('latin1', 0, 3) === 'ID3') {
+      Object.assign(tags, readId3(data));
+    }
+    pos += 8 + size + (size % 2);
+  }
+  return tags;
+}
+
+export function readAudioMetadata(buffer) {
+  if (buffer.length >= 10 && buffer.toString('latin1', 0, 3) === 'ID3') {
+    return { format: 'id3', tags: readId3(buffer) ?? {} };
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WAVE') {
+    return { format: 'riff', tags: readRiff(buffer) };
+  }
+  return { format: null, tags: {} };
+}
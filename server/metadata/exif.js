@@ -0,0 +1,121 @@
+// EXIF (TIFF-structured) parsing: IFD0, the Exif and GPS sub-IFDs and IFD1,
+// which points at the embedded thumbnail. Only the tags the metadata
+// forensics checks use are named; the rest are skipped.
+
+const TAGS = {
+  ifd0: {
+    0x010e: 'ImageDescription',
+    0x010f: 'Make',
+    0x0110: 'Model',
+    0x0112: 'Orientation',
+    0x0131: 'Software',
+    0x0132: 'DateTime',
+    0x013b: 'Artist',
+    0x8769: 'ExifIFDPointer',
+    0x8825: 'GPSInfoIFDPointer',
+  },
+  exif: {
+    0x829a: 'ExposureTime',
+    0x829d: 'FNumber',
+    0x8827: 'ISOSpeedRatings',
+    0x9003: 'DateTimeOriginal',
+    0x9004: 'DateTimeDigitized',
+    0x9010: 'OffsetTime',
+    0x9011: 'OffsetTimeOriginal',
+    0x920a: 'FocalLength',
+    0x927c: 'MakerNote',
+    0xa002: 'PixelXDimension',
+    0xa003: 'PixelYDimension',
+    0xa433: 'LensMake',
+    0xa434: 'LensModel',
+  },
+  gps: {
+    0x0002: 'GPSLatitude',
+    0x0004: 'GPSLongitude',
+  },
+  ifd1: {
+    0x0100: 'ImageWidth',
+    0x0101: 'ImageLength',
+    0x0201: 'JPEGInterchangeFormat',
+    0x0202: 'JPEGInterchangeFormatLength',
+  },
+};
+
+const TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// `tiff` starts at the TIFF header ("II*\0" or "MM\0*")
+export function parseExif(tiff) {
+  if (tiff.length < 8) return null;
+  const order = tiff.toString('latin1', 0, 2);
+  if (order !== 'II' && order !== 'MM') return null;
+  const le = order === 'II';
+  const u16 = (o) => (le ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o));
+  const u32 = (o) => (le ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o));
+  const s32 = (o) => (le ? tiff.readInt32LE(o) : tiff.readInt32BE(o));
+
+  function readValue(type, count, offset) {
+    const size = (TYPE_SIZES[type] ?? 1) * count;
+    const at = size <= 4 ? offset : u32(offset);
+    if (at + size > tiff.length) return undefined;
+
+    switch (type) {
+      case 2:
+        return tiff.toString('latin1', at, at + count).replace(/\0+$/, '').trim();
+      case 3:
+        return count === 1 ? u16(at) : Array.from({ length: count }, (_, i) => u16(at + i * 2));
+      case 4:
+        return count === 1 ? u32(at) : Array.from({ length: count }, (_, i) => u32(at + i * 4));
+      case 9:
+        return s32(at);
+      case 5:
+      case 10: {
+        const read = type === 5 ? u32 : s32;
+        const values = Array.from({ length: count }, (_, i) => {
+          const den = read(at + i * 8 + 4);
+          return den === 0 ? 0 : read(at + i * 8) / den;
+        });
+        return count === 1 ? values[0] : values;
+      }
+      default:
+        return tiff.subarray(at, at + size);
+    }
+  }
+
+  function readIfd(offset, names) {
+    const tags = {};
+    if (!offset || offset + 2 > tiff.length) return { tags, next: 0 };
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+      const name = names[u16(entry)];
+      if (name) tags[name] = readValue(u16(entry + 2), u32(entry + 4), entry + 8);
+    }
+    const nextAt = offset + 2 + count * 12;
+    return { tags, next: nextAt + 4 <= tiff.length ? u32(nextAt) : 0 };
+  }
+
+  const ifd0 = readIfd(u32(4), TAGS.ifd0);
+  const exif = readIfd(ifd0.tags.ExifIFDPointer, TAGS.exif).tags;
+  const gps = readIfd(ifd0.tags.GPSInfoIFDPointer, TAGS.gps).tags;
+  const ifd1 = readIfd(ifd0.next, TAGS.ifd1).tags;
+
+  let thumbnail = null;
+  const start = ifd1.JPEGInterchangeFormat;
+  const length = ifd1.JPEGInterchangeFormatLength;
+  if (start && length && start + length <= tiff.length) thumbnail = tiff.subarray(start, start + length);
+
+  const image = { ...ifd0.tags };
+  delete image.ExifIFDPointer;
+  delete image.GPSInfoIFDPointer;
+  return { image, exif, gps, thumbnail };
+}
+
+// EXIF dates look like "2024:05:01 13:45:10", optionally with an offset tag
+export function exifDate(value, offset) {
+  const m = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!m || m[1] === '0000') return null;
+  const iso = `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}${/^[+-]\d{2}:\d{2}$/.test(offset ?? '') ? offset : 'Z'}`;
+  const time = Date.parse(iso);
+  return Number.isNaN(time) ? null : time;
+}
@@ -0,0 +1,164 @@
+import zlib from 'zlib';
+import { imageFormat } from '../provenance/jumbf.js';
+import { parseExif } from './exif.js';
+
+// Pulls the metadata blocks out of JPEG, PNG and WebP files: EXIF, XMP,
+// IPTC (JPEG APP13), PNG text chunks and JPEG comments, plus the pixel
+// dimensions from the image header.
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const IPTC_FIELDS = {
+  5: 'ObjectName',
+  55: 'DateCreated',
+  60: 'TimeCreated',
+  65: 'OriginatingProgram',
+  80: 'Byline',
+  110: 'Credit',
+  115: 'Source',
+  120: 'Caption',
+};
+
+// IPTC-IIM datasets inside the Photoshop image resource 0x0404
+function parseIptc(app13) {
+  let pos = 'Photoshop 3.0\0'.length;
+  while (pos + 12 <= app13.length && app13.toString('latin1', pos, pos + 4) === '8BIM') {
+    const id = app13.readUInt16BE(pos + 4);
+    const nameLength = app13[pos + 6];
+    pos += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    const size = app13.readUInt32BE(pos);
+    const data = app13.subarray(pos + 4, pos + 4 + size);
+    pos += 4 + size + (size % 2);
+    if (id !== 0x0404) continue;
+
+    const fields = {};
+    let at = 0;
+    while (at + 5 <= data.length && data[at] === 0x1c) {
+      const record = data[at + 1];
+      const dataset = data[at + 2];
+      const length = data.readUInt16BE(at + 3);
+      const name = record === 2 && IPTC_FIELDS[dataset];
+      if (name) fields[name] = data.toString('utf8', at + 5, at + 5 + length);
+      at += 5 + length;
+    }
+    return fields;
+  }
+  return null;
+}
+
+// Width and height from the first SOFn marker of a JPEG
+export function jpegDimensions(buffer) {
+  let pos = 2;
+  while (pos + 9 <= buffer.length && buffer[pos] === 0xff) {
+    const marker = buffer[pos + 1];
+    if (marker === 0xd9 || marker === 0xda) break;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      pos += 2;
+      continue;
+    }
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: buffer.readUInt16BE(pos + 7), height: buffer.readUInt16BE(pos + 5) };
+    }
+    pos += 2 + buffer.readUInt16BE(pos + 2);
+  }
+  return null;
+}
+
+function readJpeg(buffer, meta) {
+  meta.dimensions = jpegDimensions(buffer);
+  let pos = 2;
+  while (pos + 4 <= buffer.length && buffer[pos] === 0xff) {
+    const marker = buffer[pos + 1];
+    if (marker === 0xd9 || marker === 0xda) break;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      pos += 2;
+      continue;
+    }
+    const length = buffer.readUInt16BE(pos + 2);
+    const segment = buffer.subarray(pos + 4, pos + 2 + length);
+
+    if (marker === 0xe1 && segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+      meta.exif ??= parseExif(segment.subarray(6));
+    } else if (marker === 0xe1 && segment.toString('latin1', 0, XMP_HEADER.length) === XMP_HEADER) {
+      meta.xmp ??= segment.toString('utf8', XMP_HEADER.length);
+    } else if (marker === 0xed && segment.toString('latin1', 0, 14) === 'Photoshop 3.0\0') {
+      meta.iptc ??= parseIptc(segment);
+    } else if (marker === 0xfe) {
+      meta.text.push({ keyword: 'Comment', text: segment.toString('utf8') });
+    }
+    pos += 2 + length;
+  }
+}
+
+function pngText(type, data) {
+  const end = data.indexOf(0);
+  if (end === -1) return null;
+  const keyword = data.toString('latin1', 0, end);
+
+  if (type === 'tEXt') return { keyword, text: data.toString('latin1', end + 1) };
+  if (type === 'zTXt') return { keyword, text: zlib.inflateSync(data.subarray(end + 2)).toString('latin1') };
+
+  // iTXt: compression flag and method, then language and translated keyword
+  const compressed = data[end + 1] === 1;
+  const langEnd = data.indexOf(0, end + 3);
+  const transEnd = data.indexOf(0, langEnd + 1);
+  if (langEnd === -1 || transEnd === -1) return null;
+  const raw = data.subarray(transEnd + 1);
+  return { keyword, text: (compressed ? zlib.inflateSync(raw) : raw).toString('utf8') };
+}
+
+function readPng(buffer, meta) {
+  let pos = 8;
+  while (pos + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    const data = buffer.subarray(pos + 8, pos + 8 + length);
+
+    if (type === 'IHDR' && data.length >= 8) {
+      meta.dimensions = { width: data.readUInt32BE(0), height: data.readUInt32BE(4) };
+    } else if (type === 'eXIf') {
+      meta.exif ??= parseExif(data);
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      try {
+        const entry = pngText(type, data);
+        if (entry?.keyword === 'XML:com.adobe.xmp') meta.xmp ??= entry.text;
+        else if (entry) meta.text.push(entry);
+      } catch {
+        meta.text.push({ keyword: 'unreadable', text: `corrupt ${type} chunk` });
+      }
+    }
+    if (type === 'IEND') break;
+    pos += 12 + length;
+  }
+}
+
+function readWebp(buffer, meta) {
+  let pos = 12;
+  while (pos + 8 <= buffer.length) {
+    const type = buffer.toString('latin1', pos, pos + 4);
+    const length = buffer.readUInt32LE(pos + 4);
+    const data = buffer.subarray(pos + 8, pos + 8 + length);
+
+    if (type === 'VP8X' && data.length >= 10) {
+      meta.dimensions = { width: data.readUIntLE(4, 3) + 1, height: data.readUIntLE(7, 3) + 1 };
+    } else if (type === 'VP8 ' && data.length >= 10 && !meta.dimensions) {
+      meta.dimensions = { width: data.readUInt16LE(6) & 0x3fff, height: data.readUInt16LE(8) & 0x3fff };
+    } else if (type === 'VP8L' && data.length >= 5 && !meta.dimensions) {
+      const bits = data.readUInt32LE(1);
+      meta.dimensions = { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    } else if (type === 'EXIF') {
+      meta.exif ??= parseExif(data.toString('latin1', 0, 6) === 'Exif\0\0' ? data.subarray(6) : data);
+    } else if (type === 'XMP ') {
+      meta.xmp ??= data.toString('utf8');
+    }
+    pos += 8 + length + (length % 2);
+  }
+}
+
+export function readImageMetadata(buffer) {
+  const format = imageFormat(buffer);
+  const meta = { format, dimensions: null, exif: null, xmp: null, iptc: null, text: [] };
+  if (format === 'jpeg') readJpeg(buffer, meta);
+  else if (format === 'png') readPng(buffer, meta);
+  else if (format === 'webp') readWebp(buffer, meta);
+  return meta;
+}
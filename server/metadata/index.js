@@ -0,0 +1,255 @@
+import { exifDate } from './exif.js';
+import { jpegDimensions, readImageMetadata } from './image.js';
+import { readAudioMetadata } from './audio.js';
+
+// Metadata forensics: rule-based checks on EXIF/XMP/IPTC and PNG text chunks
+// in images and ID3/RIFF tags in audio. Each finding moves the AI likelihood
+// by a fixed amount in log-odds, so one generator signature outweighs any
+// number of weak hints. Weak hints alone (a missing EXIF block, an editor)
+// are common in real photos too, so unless a finding of at least
+// MIN_DECISIVE_WEIGHT fires the score is null and the ensemble ignores it.
+
+const WEIGHTS = {
+  generator: 4,
+  aiSourceType: 4,
+  timestamps: 0.8,
+  thumbnail: 0.8,
+  dimensions: 0.4,
+  editor: 0.4,
+  noExif: 0.4,
+  noCamera: 0.6,
+  camera: -1,
+  exposure: -0.6,
+  makerNote: -0.4,
+  gps: -0.3,
+  consistentTimes: -0.2,
+  thumbnailMatch: -0.3,
+};
+
+const MIN_DECISIVE_WEIGHT = 0.8;
+
+const IMAGE_GENERATORS = /stable.?diffusion|automatic1111|comfyui|novelai|invokeai|midjourney|dall.?e|firefly|imagen|openai|leonardo\.ai|dreamstudio|fooocus|sdxl|flux\.1|ideogram|craiyon|nightcafe|playground.?ai|runway/i;
+const AUDIO_GENERATORS = /elevenlabs|suno|udio|bark|tortoise.?tts|murf|play\.?ht|resemble|overdub|speechify|coqui|xtts|so-vits|voicemod|text.?to.?speech/i;
+const EDITORS = /photoshop|gimp|lightroom|affinity|pixelmator|snapseed|facetune|picsart|canva|luminar/i;
+const AI_SOURCE_TYPES = /trainedAlgorithmicMedia|compositeWithTrainedAlgorithmicMedia|algorithmicMedia|compositeSynthetic/;
+
+// How far apart two timestamps can be before they count as inconsistent;
+// EXIF times usually carry no zone, so allow for the widest UTC offset
+const ZONE_SLACK_MS = 14 * 3600 * 1000;
+
+function xmpField(xmp, name) {
+  const m = xmp?.match(new RegExp(`${name}\\s*=\\s*"([^"]*)"|<${name}>([^<]*)</${name}>`));
+  return m ? (m[1] ?? m[2]).trim() : null;
+}
+
+function createFindings() {
+  const artifacts = [];
+  const markers = [];
+  let logit = 0;
+  let strongest = 0;
+  const add = (weight) => {
+    logit += weight;
+    strongest = Math.max(strongest, Math.abs(weight));
+  };
+  return {
+    flag(weight, message) {
+      artifacts.push(message);
+      add(weight);
+    },
+    mark(weight, message) {
+      markers.push(message);
+      add(weight);
+    },
+    result(fields) {
+      return {
+        score: strongest >= MIN_DECISIVE_WEIGHT ? 1 / (1 + Math.exp(-logit)) : null,
+        detectedArtifacts: artifacts,
+        authenticityMarkers: markers,
+        fields,
+      };
+    },
+  };
+}
+
+function checkGeneratorText(findings, meta) {
+  const byKeyword = Object.fromEntries(meta.text.map((t) => [t.keyword, t.text]));
+
+  if (byKeyword.parameters && /Steps:\s*\d+/.test(byKeyword.parameters) && /Sampler:/.test(byKeyword.parameters)) {
+    const model = byKeyword.parameters.match(/Model:\s*([^,\n]+)/)?.[1];
+    findings.flag(WEIGHTS.generator, `Stable Diffusion generation parameters in PNG text chunk${model ? ` (model ${model.trim()})` : ''}`);
+    return;
+  }
+  if (byKeyword.prompt && byKeyword.workflow) {
+    findings.flag(WEIGHTS.generator, 'ComfyUI workflow embedded in PNG text chunks');
+    return;
+  }
+  if (byKeyword['sd-metadata'] || byKeyword.invokeai_metadata || byKeyword.Dream) {
+    findings.flag(WEIGHTS.generator, 'InvokeAI generation metadata in PNG text chunk');
+    return;
+  }
+
+  const sources = [
+    ['EXIF Software', meta.exif?.image.Software],
+    ['XMP CreatorTool', xmpField(meta.xmp, 'xmp:CreatorTool')],
+    ['IPTC OriginatingProgram', meta.iptc?.OriginatingProgram],
+    ...meta.text.map((t) => [`PNG text "${t.keyword}"`, t.text]),
+  ];
+  for (const [where, value] of sources) {
+    const match = typeof value === 'string' && value.match(IMAGE_GENERATORS);
+    if (match) {
+      findings.flag(WEIGHTS.generator, `Generator software "${match[0]}" named in ${where}`);
+      return;
+    }
+  }
+}
+
+function checkTimestamps(findings, dates, now = Date.now()) {
+  const known = dates.filter(([, time]) => time !== null);
+  let consistent = known.length > 0;
+
+  for (const [name, time] of known) {
+    if (time > now + ZONE_SLACK_MS) {
+      findings.flag(WEIGHTS.timestamps, `${name} is in the future (${new Date(time).toISOString().slice(0, 10)})`);
+      consistent = false;
+    }
+  }
+
+  const at = Object.fromEntries(known);
+  if (at.DateTimeOriginal !== undefined && at.DateTime !== undefined && at.DateTimeOriginal > at.DateTime + 60 * 1000) {
+    findings.flag(WEIGHTS.timestamps, 'Capture time (DateTimeOriginal) is later than the last modification (DateTime)');
+    consistent = false;
+  }
+  if (at.DateTimeOriginal !== undefined && at.DateTimeDigitized !== undefined
+    && Math.abs(at.DateTimeOriginal - at.DateTimeDigitized) > 60 * 1000) {
+    findings.flag(WEIGHTS.timestamps, 'DateTimeOriginal and DateTimeDigitized disagree');
+    consistent = false;
+  }
+  if (at.DateTimeOriginal !== undefined && at['XMP CreateDate'] !== undefined
+    && Math.abs(at.DateTimeOriginal - at['XMP CreateDate']) > ZONE_SLACK_MS) {
+    findings.flag(WEIGHTS.timestamps, 'XMP CreateDate and EXIF DateTimeOriginal disagree');
+    consistent = false;
+  }
+
+  if (consistent && at.DateTimeOriginal !== undefined) findings.mark(WEIGHTS.consistentTimes, 'Consistent capture timestamps');
+}
+
+const aspect = ({ width, height }) => width / height;
+
+function checkThumbnail(findings, meta) {
+  const { exif, dimensions } = meta;
+  if (!dimensions) return;
+
+  const thumb = exif?.thumbnail && jpegDimensions(exif.thumbnail);
+  if (thumb) {
+    // Thumbnails are stored unrotated, like the main image, but allow either way round
+    const ratio = aspect(dimensions);
+    const diff = Math.min(Math.abs(aspect(thumb) - ratio), Math.abs(1 / aspect(thumb) - ratio)) / ratio;
+    if (diff > 0.05) {
+      findings.flag(WEIGHTS.thumbnail, `EXIF thumbnail (${thumb.width}×${thumb.height}) does not match the image's shape (${dimensions.width}×${dimensions.height})`);
+    } else {
+      findings.mark(WEIGHTS.thumbnailMatch, 'EXIF thumbnail matches the image');
+    }
+  }
+
+  const x = exif?.exif.PixelXDimension;
+  const y = exif?.exif.PixelYDimension;
+  if (typeof x === 'number' && typeof y === 'number' && x > 0 && y > 0
+    && !(x === dimensions.width && y === dimensions.height) && !(x === dimensions.height && y === dimensions.width)) {
+    findings.flag(WEIGHTS.dimensions, `EXIF pixel dimensions (${x}×${y}) differ from the image (${dimensions.width}×${dimensions.height})`);
+  }
+}
+
+function analyzeImage(buffer) {
+  const findings = createFindings();
+  const meta = readImageMetadata(buffer);
+  if (!meta.format) return findings.result({ format: null });
+
+  checkGeneratorText(findings, meta);
+
+  const sourceType = xmpField(meta.xmp, 'Iptc4xmpExt:DigitalSourceType') ?? meta.xmp?.match(AI_SOURCE_TYPES)?.[0];
+  if (sourceType && AI_SOURCE_TYPES.test(sourceType)) {
+    findings.flag(WEIGHTS.aiSourceType, `XMP declares digital source type ${sourceType.split('/').pop()}`);
+  }
+
+  const image = meta.exif?.image ?? {};
+  const exif = meta.exif?.exif ?? {};
+  const make = typeof image.Make === 'string' ? image.Make : '';
+  const model = typeof image.Model === 'string' ? image.Model : '';
+  // Many cameras repeat the make in the model name
+  const camera = model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`.trim();
+
+  if (!meta.exif) {
+    if (meta.format === 'jpeg') findings.flag(WEIGHTS.noExif, 'No EXIF data (stripped, or not written by a camera)');
+  } else if (!camera) {
+    findings.flag(WEIGHTS.noCamera, 'EXIF has no camera make or model');
+  } else {
+    findings.mark(WEIGHTS.camera, `Camera: ${camera}`);
+    const exposure = [
+      typeof exif.ExposureTime === 'number' && exif.ExposureTime > 0
+        && (exif.ExposureTime < 1 ? `1/${Math.round(1 / exif.ExposureTime)}s` : `${exif.ExposureTime}s`),
+      typeof exif.FNumber === 'number' && exif.FNumber > 0 && `f/${exif.FNumber.toFixed(1)}`,
+      typeof exif.ISOSpeedRatings === 'number' && `ISO ${exif.ISOSpeedRatings}`,
+    ].filter(Boolean);
+    if (exposure.length > 0) findings.mark(WEIGHTS.exposure, `Exposure settings: ${exposure.join(' ')}`);
+    if (exif.MakerNote) findings.mark(WEIGHTS.makerNote, 'Manufacturer MakerNote present');
+  }
+  if (meta.exif?.gps.GPSLatitude && meta.exif?.gps.GPSLongitude) findings.mark(WEIGHTS.gps, 'GPS position recorded');
+
+  const editor = [image.Software, xmpField(meta.xmp, 'xmp:CreatorTool')].find((v) => typeof v === 'string' && EDITORS.test(v));
+  if (editor) findings.flag(WEIGHTS.editor, `Edited with ${editor}`);
+
+  const xmpCreate = xmpField(meta.xmp, 'xmp:CreateDate');
+  checkTimestamps(findings, [
+    ['DateTime', exifDate(image.DateTime, exif.OffsetTime)],
+    ['DateTimeOriginal', exifDate(exif.DateTimeOriginal, exif.OffsetTimeOriginal)],
+    ['DateTimeDigitized', exifDate(exif.DateTimeDigitized, exif.OffsetTimeOriginal)],
+    ['XMP CreateDate', xmpCreate && !Number.isNaN(Date.parse(xmpCreate)) ? Date.parse(xmpCreate) : null],
+  ]);
+  checkThumbnail(findings, meta);
+
+  return findings.result({
+    format: meta.format,
+    dimensions: meta.dimensions,
+    camera: camera || null,
+    lens: exif.LensModel ?? null,
+    software: image.Software ?? xmpField(meta.xmp, 'xmp:CreatorTool') ?? meta.iptc?.OriginatingProgram ?? null,
+    captured: exif.DateTimeOriginal ?? null,
+    modified: image.DateTime ?? null,
+    hasXmp: meta.xmp !== null,
+    hasIptc: meta.iptc !== null,
+    textChunks: meta.text.map((t) => t.keyword),
+  });
+}
+
+function analyzeAudio(buffer) {
+  const findings = createFindings();
+  const { format, tags } = readAudioMetadata(buffer);
+
+  for (const [key, value] of Object.entries(tags)) {
+    const match = typeof value === 'string' && value.match(AUDIO_GENERATORS);
+    if (match) {
+      findings.flag(WEIGHTS.generator, `Generator "${match[0]}" named in ${format === 'riff' ? 'RIFF' : 'ID3'} tag ${key}`);
+      break;
+    }
+  }
+
+  const dates = ['TDRC', 'TYER', 'CreationDate']
+    .filter((key) => typeof tags[key] === 'string')
+    .map((key) => [key, Number.isNaN(Date.parse(tags[key])) ? null : Date.parse(tags[key])]);
+  for (const [key, time] of dates) {
+    if (time !== null && time > Date.now() + ZONE_SLACK_MS) findings.flag(WEIGHTS.timestamps, `${key} date is in the future`);
+  }
+
+  return findings.result({
+    format,
+    software: tags.TSSE ?? tags.TENC ?? tags.Software ?? null,
+    tags: Object.keys(tags),
+  });
+}
+
+// `fileType` is image, audio or video; video containers are not inspected
+export function analyzeMetadata(buffer, fileType) {
+  if (fileType === 'image') return analyzeImage(buffer);
+  if (fileType === 'audio') return analyzeAudio(buffer);
+  return createFindings().result({ format: null });
+}
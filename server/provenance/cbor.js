@@ -0,0 +1,148 @@
+// Minimal CBOR (RFC 8949) codec for C2PA claims, assertions and COSE
+// signatures. Byte strings decode to Buffers, tags to `{ tag, value }`, and
+// maps with non-string keys (COSE headers) to Maps.
+
+export class CborError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
+
+const BREAK = Symbol('break');
+
+function halfToFloat(half) {
+  const exp = (half >> 10) & 0x1f;
+  const mant = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exp === 0) return sign * mant * 2 ** -24;
+  if (exp === 31) return mant ? NaN : sign * Infinity;
+  return sign * (mant + 1024) * 2 ** (exp - 25);
+}
+
+export function decodeCbor(buffer) {
+  let pos = 0;
+
+  const need = (n) => {
+    if (pos + n > buffer.length) throw new CborError('Unexpected end of CBOR data');
+  };
+
+  function readLength(info) {
+    if (info < 24) return info;
+    if (info === 24) { need(1); return buffer[pos++]; }
+    if (info === 25) { need(2); pos += 2; return buffer.readUInt16BE(pos - 2); }
+    if (info === 26) { need(4); pos += 4; return buffer.readUInt32BE(pos - 4); }
+    if (info === 27) {
+      need(8);
+      pos += 8;
+      const n = buffer.readBigUInt64BE(pos - 8);
+      if (n > BigInt(Number.MAX_SAFE_INTEGER)) throw new CborError('CBOR integer too large');
+      return Number(n);
+    }
+    if (info === 31) return null;
+    throw new CborError(`Invalid CBOR additional info ${info}`);
+  }
+
+  function readChunks(major, info) {
+    const length = readLength(info);
+    if (length !== null) {
+      need(length);
+      pos += length;
+      return buffer.subarray(pos - length, pos);
+    }
+    const chunks = [];
+    for (;;) {
+      const item = readItem();
+      if (item === BREAK) break;
+      chunks.push(major === 3 ? Buffer.from(item) : item);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  function readItem() {
+    need(1);
+    const initial = buffer[pos++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2:
+        return Buffer.from(readChunks(major, info));
+      case 3:
+        return readChunks(major, info).toString('utf8');
+      case 4: {
+        const length = readLength(info);
+        const items = [];
+        for (let i = 0; length === null || i < length; i++) {
+          const item = readItem();
+          if (item === BREAK) break;
+          items.push(item);
+        }
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const entries = [];
+        for (let i = 0; length === null || i < length; i++) {
+          const key = readItem();
+          if (key === BREAK) break;
+          entries.push([key, readItem()]);
+        }
+        return entries.every(([key]) => typeof key === 'string')
+          ? Object.fromEntries(entries)
+          : new Map(entries);
+      }
+      case 6: {
+        const tag = readLength(info);
+        return { tag, value: readItem() };
+      }
+      default:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        if (info === 24) { need(1); return buffer[pos++]; }
+        if (info === 25) { need(2); pos += 2; return halfToFloat(buffer.readUInt16BE(pos - 2)); }
+        if (info === 26) { need(4); pos += 4; return buffer.readFloatBE(pos - 4); }
+        if (info === 27) { need(8); pos += 8; return buffer.readDoubleBE(pos - 8); }
+        if (info === 31) return BREAK;
+        return info;
+    }
+  }
+
+  const value = readItem();
+  if (value === BREAK) throw new CborError('Unexpected CBOR break');
+  return value;
+}
+
+function head(major, length) {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  if (length < 0x10000) {
+    const b = Buffer.alloc(3);
+    b[0] = (major << 5) | 25;
+    b.writeUInt16BE(length, 1);
+    return b;
+  }
+  const b = Buffer.alloc(5);
+  b[0] = (major << 5) | 26;
+  b.writeUInt32BE(length, 1);
+  return b;
+}
+
+// Encodes the subset COSE Sig_structures need: arrays, byte and text strings
+// and non-negative integers
+export function encodeCbor(value) {
+  if (Buffer.isBuffer(value)) return Buffer.concat([head(2, value.length), value]);
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Array.isArray(value)) return Buffer.concat([head(4, value.length), ...value.map(encodeCbor)]);
+  if (Number.isInteger(value) && value >= 0) return head(0, value);
+  throw new CborError(`Cannot encode ${typeof value} as CBOR`);
+}
@@ -0,0 +1,296 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { decodeCbor, encodeCbor } from './cbor.js';
+import { extractJumbf, imageFormat, parseJumbf } from './jumbf.js';
+
+// C2PA / Content Credentials inspection for JPEG, PNG and WebP uploads. The
+// active manifest's claim signature (COSE_Sign1) is checked against the
+// certificate chain it carries, the chain against a local trust list, and
+// the assertion and content hashes against the file. The report lists the
+// claim generator, edit actions, ingredients and any AI-generation
+// assertions. `status` is one of:
+//
+//   none       no C2PA manifest in the file
+//   valid      signature, hashes and chain all check out
+//   untrusted  intact, but signed by a certificate outside the trust list
+//   unbound    signed and intact, but without a data hash nothing ties it to
+//              this image; it could have been copied from another file
+//   invalid    the signature or a hash does not match, or parsing failed
+
+const MANIFEST_STORE_UUID = '6332706100110010800000aa00389b71';
+
+// COSE algorithm ids used by C2PA signers
+const COSE_ALGORITHMS = {
+  [-7]: { name: 'ES256', hash: 'sha256', type: 'ec' },
+  [-35]: { name: 'ES384', hash: 'sha384', type: 'ec' },
+  [-36]: { name: 'ES512', hash: 'sha512', type: 'ec' },
+  [-37]: { name: 'PS256', hash: 'sha256', type: 'pss' },
+  [-38]: { name: 'PS384', hash: 'sha384', type: 'pss' },
+  [-39]: { name: 'PS512', hash: 'sha512', type: 'pss' },
+  [-8]: { name: 'Ed25519', hash: null, type: 'eddsa' },
+};
+
+const COSE_ALG = 1;
+const COSE_X5CHAIN = 33;
+
+// IPTC digital source types that mean the media came out of a generator
+const AI_SOURCE_TYPES = [
+  'trainedAlgorithmicMedia',
+  'compositeWithTrainedAlgorithmicMedia',
+  'algorithmicMedia',
+  'compositeSynthetic',
+];
+
+// Reads a PEM bundle of trust anchors; a missing file is an empty list
+export function loadTrustList(filePath) {
+  if (!filePath || !fs.existsSync(filePath)) return [];
+  const pems = fs.readFileSync(filePath, 'utf8').match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+  return pems.map((pem) => new crypto.X509Certificate(pem));
+}
+
+const header = (headers, key) => (headers instanceof Map ? headers.get(key) : undefined);
+
+// The last path segment of `self#jumbf=c2pa.assertions/c2pa.actions`
+const assertionLabel = (url) => url.split('/').pop();
+
+// Multiple assertions of one kind are numbered, e.g. c2pa.ingredient__1
+const baseLabel = (label) => label.replace(/__\d+$/, '');
+
+function boxData(box) {
+  const content = box.content[0];
+  if (!content) return null;
+  if (content.type === 'cbor') return decodeCbor(content.data);
+  if (content.type === 'json') return JSON.parse(content.data.toString('utf8'));
+  return content.data;
+}
+
+function nameOf(distinguishedName) {
+  const fields = Object.fromEntries(distinguishedName.split('\n').map((line) => {
+    const eq = line.indexOf('=');
+    return [line.slice(0, eq), line.slice(eq + 1)];
+  }));
+  return fields.O ?? fields.CN ?? distinguishedName;
+}
+
+function claimGenerator(claim) {
+  if (typeof claim.claim_generator === 'string') return claim.claim_generator;
+  const info = Array.isArray(claim.claim_generator_info) ? claim.claim_generator_info[0] : claim.claim_generator_info;
+  if (info?.name) return info.version ? `${info.name} ${info.version}` : info.name;
+  return null;
+}
+
+function softwareAgent(agent) {
+  if (typeof agent === 'string') return agent;
+  if (agent?.name) return agent.version ? `${agent.name} ${agent.version}` : agent.name;
+  return null;
+}
+
+function sourceTypeName(uri) {
+  return typeof uri === 'string' ? uri.split('/').pop() : null;
+}
+
+function verifySignature(algorithm, publicKey, data, signature) {
+  if (algorithm.type === 'ec') {
+    return crypto.verify(algorithm.hash, data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+  }
+  if (algorithm.type === 'pss') {
+    return crypto.verify(algorithm.hash, data, {
+      key: publicKey,
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+    }, signature);
+  }
+  return crypto.verify(null, data, publicKey, signature);
+}
+
+const issuedBy = (cert, issuer) => cert.checkIssued(issuer) && cert.verify(issuer.publicKey);
+
+// Checks the COSE_Sign1 signature over the claim bytes and the x5chain
+function checkSignature(signatureBox, claimBytes, trustAnchors, errors, warnings) {
+  const cose = boxData(signatureBox);
+  const sign1 = cose && typeof cose === 'object' && 'tag' in cose ? cose.value : cose;
+  if (!Array.isArray(sign1) || sign1.length !== 4) throw new Error('Claim signature is not a COSE_Sign1 structure');
+
+  const [protectedBytes, unprotected, , signature] = sign1;
+  const protectedHeaders = protectedBytes.length > 0 ? decodeCbor(protectedBytes) : new Map();
+  const algorithm = COSE_ALGORITHMS[header(protectedHeaders, COSE_ALG)];
+  if (!algorithm) throw new Error(`Unsupported signature algorithm ${header(protectedHeaders, COSE_ALG)}`);
+
+  const x5chain = header(protectedHeaders, COSE_X5CHAIN) ?? header(unprotected, COSE_X5CHAIN);
+  const chainDer = Buffer.isBuffer(x5chain) ? [x5chain] : Array.isArray(x5chain) ? x5chain : [];
+  if (chainDer.length === 0) throw new Error('Claim signature has no certificate chain');
+  const chain = chainDer.map((der) => new crypto.X509Certificate(der));
+
+  // Sig_structure for a detached payload (RFC 9052 section 4.4)
+  const toBeSigned = encodeCbor(['Signature1', protectedBytes, Buffer.alloc(0), claimBytes]);
+  const valid = verifySignature(algorithm, chain[0].publicKey, toBeSigned, signature);
+  if (!valid) errors.push('Claim signature does not match the signing certificate');
+
+  let chainIntact = true;
+  for (let i = 0; i < chain.length - 1; i++) {
+    if (!issuedBy(chain[i], chain[i + 1])) {
+      chainIntact = false;
+      errors.push(`Certificate "${nameOf(chain[i].subject)}" was not issued by "${nameOf(chain[i + 1].subject)}"`);
+    }
+  }
+
+  const last = chain[chain.length - 1];
+  const trusted = chainIntact && trustAnchors.some((anchor) =>
+    chain.some((cert) => cert.fingerprint256 === anchor.fingerprint256) || issuedBy(last, anchor)
+  );
+
+  const now = Date.now();
+  for (const cert of chain) {
+    if (now < Date.parse(cert.validFrom) || now > Date.parse(cert.validTo)) {
+      warnings.push(`Certificate "${nameOf(cert.subject)}" is outside its validity period (${cert.validFrom} – ${cert.validTo})`);
+    }
+  }
+
+  return {
+    algorithm: algorithm.name,
+    valid,
+    trusted,
+    signer: nameOf(chain[0].subject),
+    issuer: nameOf(chain[0].issuer),
+    chain: chain.map((cert) => ({
+      subject: nameOf(cert.subject),
+      issuer: nameOf(cert.issuer),
+      validFrom: new Date(cert.validFrom).toISOString(),
+      validTo: new Date(cert.validTo).toISOString(),
+    })),
+  };
+}
+
+// Hard binding: the hash of the file with the manifest's own bytes left out
+function checkDataHash(buffer, dataHash) {
+  const exclusions = [...(dataHash.exclusions ?? [])].sort((a, b) => a.start - b.start);
+  const hash = crypto.createHash(dataHash.alg ?? 'sha256');
+  let pos = 0;
+  for (const { start, length } of exclusions) {
+    if (start > pos) hash.update(buffer.subarray(pos, start));
+    pos = Math.max(pos, start + length);
+  }
+  hash.update(buffer.subarray(pos));
+  return Buffer.isBuffer(dataHash.hash) && hash.digest().equals(dataHash.hash);
+}
+
+function inspectManifest(buffer, manifest, trustAnchors) {
+  const errors = [];
+  const warnings = [];
+  const find = (prefix) => manifest.children.find((c) => c.label?.startsWith(prefix));
+
+  const claimBox = find('c2pa.claim');
+  const signatureBox = find('c2pa.signature');
+  const assertionStore = find('c2pa.assertions');
+  if (!claimBox || !signatureBox || !assertionStore) throw new Error('Manifest is missing its claim, signature or assertions');
+
+  const claimBytes = claimBox.content.find((c) => c.type === 'cbor')?.data;
+  if (!claimBytes) throw new Error('Manifest claim is not CBOR');
+  const claim = decodeCbor(claimBytes);
+  const signature = checkSignature(signatureBox, claimBytes, trustAnchors, errors, warnings);
+
+  // Every assertion the claim references must be present and unmodified
+  const assertions = new Map(assertionStore.children.map((box) => [box.label, box]));
+  const references = [...(claim.assertions ?? []), ...(claim.created_assertions ?? []), ...(claim.gathered_assertions ?? [])];
+  for (const ref of references) {
+    const label = assertionLabel(ref.url);
+    const box = assertions.get(label);
+    if (!box) {
+      errors.push(`Assertion ${label} is referenced by the claim but missing`);
+      continue;
+    }
+    const digest = crypto.createHash(ref.alg ?? claim.alg ?? 'sha256').update(box.payload).digest();
+    if (!Buffer.isBuffer(ref.hash) || !digest.equals(ref.hash)) errors.push(`Assertion ${label} was modified after signing`);
+  }
+
+  const data = (label) => {
+    try {
+      return boxData(assertions.get(label));
+    } catch {
+      warnings.push(`Could not read assertion ${label}`);
+      return null;
+    }
+  };
+
+  let contentBinding = 'missing';
+  const dataHashLabel = [...assertions.keys()].find((label) => baseLabel(label) === 'c2pa.hash.data');
+  if (dataHashLabel) {
+    contentBinding = checkDataHash(buffer, data(dataHashLabel) ?? {}) ? 'valid' : 'mismatch';
+    if (contentBinding === 'mismatch') errors.push('Image content was changed after the manifest was signed');
+  }
+
+  const actions = [];
+  const ingredients = [];
+  const aiAssertions = [];
+  for (const label of assertions.keys()) {
+    const base = baseLabel(label);
+    if (base.startsWith('c2pa.actions')) {
+      for (const action of data(label)?.actions ?? []) {
+        const sourceType = sourceTypeName(action.digitalSourceType);
+        const agent = softwareAgent(action.softwareAgent);
+        actions.push({
+          action: action.action,
+          when: action.when ?? null,
+          softwareAgent: agent,
+          digitalSourceType: sourceType,
+          description: action.parameters?.description ?? null,
+        });
+        if (AI_SOURCE_TYPES.includes(sourceType)) {
+          aiAssertions.push(`${action.action}: ${sourceType}${agent ? ` (${agent})` : ''}`);
+        }
+      }
+    } else if (base.startsWith('c2pa.ingredient')) {
+      const ingredient = data(label);
+      if (ingredient) {
+        ingredients.push({ title: ingredient['dc:title'] ?? null, format: ingredient['dc:format'] ?? null, relationship: ingredient.relationship ?? null });
+      }
+    }
+  }
+  if (claim.digitalSourceType && AI_SOURCE_TYPES.includes(sourceTypeName(claim.digitalSourceType))) {
+    aiAssertions.push(`claim: ${sourceTypeName(claim.digitalSourceType)}`);
+  }
+
+  return {
+    manifest: {
+      label: manifest.label,
+      claimGenerator: claimGenerator(claim),
+      title: claim['dc:title'] ?? null,
+      format: claim['dc:format'] ?? null,
+      instanceId: claim.instanceID ?? claim.instanceId ?? null,
+      signature,
+      contentBinding,
+      actions,
+      ingredients,
+      aiGenerated: aiAssertions.length > 0,
+      aiAssertions,
+      assertions: [...assertions.keys()],
+    },
+    errors,
+    warnings,
+  };
+}
+
+// `buffer` is the uploaded file; `trustAnchors` comes from loadTrustList
+export function inspectProvenance(buffer, { trustAnchors = [] } = {}) {
+  const format = imageFormat(buffer);
+  const empty = { status: 'none', format, manifestCount: 0, manifest: null, errors: [], warnings: [] };
+  if (!format) return empty;
+
+  try {
+    const store = extractJumbf(buffer, format)
+      .map(parseJumbf)
+      .find((box) => box.uuid === MANIFEST_STORE_UUID || box.label === 'c2pa');
+    if (!store || store.children.length === 0) return empty;
+
+    // The active manifest is the last one in the store; the others belong to ingredients
+    const { manifest, errors, warnings } = inspectManifest(buffer, store.children[store.children.length - 1], trustAnchors);
+    let status = 'valid';
+    if (errors.length > 0) status = 'invalid';
+    else if (manifest.contentBinding === 'missing') status = 'unbound';
+    else if (!manifest.signature.trusted) status = 'untrusted';
+
+    return { status, format, manifestCount: store.children.length, manifest, errors, warnings };
+  } catch (err) {
+    return { ...empty, status: 'invalid', errors: [err instanceof Error ? err.message : String(err)] };
+  }
+}
@@ -0,0 +1,136 @@
+// JUMBF (ISO/IEC 19566-5) extraction and parsing. C2PA manifest stores are
+// embedded in APP11 segments in JPEG, a `caBX` chunk in PNG and a `C2PA`
+// chunk in WebP.
+
+export class JumbfError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'JumbfError';
+  }
+}
+
+function readBoxHeader(buffer, offset) {
+  if (offset + 8 > buffer.length) throw new JumbfError('Truncated JUMBF box header');
+  let size = buffer.readUInt32BE(offset);
+  const type = buffer.toString('latin1', offset + 4, offset + 8);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > buffer.length) throw new JumbfError('Truncated JUMBF box header');
+    size = Number(buffer.readBigUInt64BE(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = buffer.length - offset;
+  }
+  if (size < headerSize || offset + size > buffer.length) throw new JumbfError(`Bad size for JUMBF box ${type}`);
+  return { type, size, headerSize };
+}
+
+function parseDescription(payload) {
+  if (payload.length < 17) throw new JumbfError('Truncated JUMBF description box');
+  const uuid = payload.subarray(0, 16).toString('hex');
+  const toggles = payload[16];
+  let pos = 17;
+  let label = null;
+  if (toggles & 0x02) {
+    const end = payload.indexOf(0, pos);
+    if (end === -1) throw new JumbfError('Unterminated JUMBF label');
+    label = payload.toString('utf8', pos, end);
+    pos = end + 1;
+  }
+  return { uuid, label };
+}
+
+// Parses a `jumb` superbox into `{ label, uuid, content[], children[], payload }`
+// where `content` holds the raw non-superbox children (`cbor`, `json`, ...)
+// and `payload` is the superbox minus its own header, which is what C2PA
+// assertion hashes cover.
+function parseSuperbox(buffer, offset) {
+  const { type, size, headerSize } = readBoxHeader(buffer, offset);
+  if (type !== 'jumb') throw new JumbfError(`Expected a jumb superbox, found ${type}`);
+
+  const payload = buffer.subarray(offset + headerSize, offset + size);
+  const box = { label: null, uuid: null, content: [], children: [], payload };
+  let pos = 0;
+  while (pos < payload.length) {
+    const child = readBoxHeader(payload, pos);
+    const data = payload.subarray(pos + child.headerSize, pos + child.size);
+    if (child.type === 'jumd' && pos === 0) Object.assign(box, parseDescription(data));
+    else if (child.type === 'jumb') box.children.push(parseSuperbox(payload, pos));
+    else box.content.push({ type: child.type, data });
+    pos += child.size;
+  }
+  if (box.uuid === null) throw new JumbfError('JUMBF superbox has no description box');
+  return box;
+}
+
+export function parseJumbf(buffer) {
+  return parseSuperbox(buffer, 0);
+}
+
+function jpegJumbf(buffer) {
+  const sequences = new Map();
+  let pos = 2;
+  while (pos + 4 <= buffer.length) {
+    if (buffer[pos] !== 0xff) break;
+    const marker = buffer[pos + 1];
+    if (marker === 0xd9 || marker === 0xda) break;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      pos += 2;
+      continue;
+    }
+    const length = buffer.readUInt16BE(pos + 2);
+    const segment = buffer.subarray(pos + 4, pos + 2 + length);
+
+    // APP11: "JP", box instance number, packet sequence number, box data
+    if (marker === 0xeb && segment.length > 8 && segment.toString('latin1', 0, 2) === 'JP') {
+      const instance = segment.readUInt16BE(2);
+      const data = segment.subarray(8);
+      const parts = sequences.get(instance) ?? [];
+      // Continuation packets repeat the box header; keep it from the first only
+      parts.push(parts.length === 0 ? data : data.subarray(data.readUInt32BE(0) === 1 ? 16 : 8));
+      sequences.set(instance, parts);
+    }
+    pos += 2 + length;
+  }
+  return [...sequences.values()].map((parts) => Buffer.concat(parts));
+}
+
+function pngJumbf(buffer) {
+  const found = [];
+  let pos = 8;
+  while (pos + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    if (type === 'caBX') found.push(buffer.subarray(pos + 8, pos + 8 + length));
+    if (type === 'IEND') break;
+    pos += 12 + length;
+  }
+  return found;
+}
+
+function webpJumbf(buffer) {
+  const found = [];
+  let pos = 12;
+  while (pos + 8 <= buffer.length) {
+    const type = buffer.toString('latin1', pos, pos + 4);
+    const length = buffer.readUInt32LE(pos + 4);
+    if (type === 'C2PA') found.push(buffer.subarray(pos + 8, pos + 8 + length));
+    pos += 8 + length + (length % 2);
+  }
+  return found;
+}
+
+export function imageFormat(buffer) {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return 'png';
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  return null;
+}
+
+// Returns the raw JUMBF boxes embedded in a JPEG, PNG or WebP file
+export function extractJumbf(buffer, format = imageFormat(buffer)) {
+  if (format === 'jpeg') return jpegJumbf(buffer);
+  if (format === 'png') return pngJumbf(buffer);
+  if (format === 'webp') return webpJumbf(buffer);
+  return [];
+}
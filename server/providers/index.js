@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { createRealityDefenderProvider } from './realityDefender.js';
+import { createSimulatedProvider } from './simulated.js';
+import { createMetadataProvider } from './metadata.js';
+import { computeVerdict } from '../../shared/verdict.js';
+import { calibrateModel } from '../calibration.js';
+
+// Every provider exposes `{ name, detect(upload) }` where `upload` is
+// `{ buffer, fileName, mimeType, fileType, onModel? }` and `detect` resolves
+// to the RealityDefender result shape: `{ requestId, status, score, models[] }`.
+// Providers that run on this server, rather than calling a metered API, are
+// marked `local`.
+// A model may add `regions`, the image areas its finding refers to as
+// `{ label, score, x, y, width, height, polygon? }` in 0..1 image units; they
+// are kept in the result row's metadata.
+// Providers that score models one at a time may call `upload.onModelStart`
+// and `upload.onModel(model)` around each; runDetectors reports the rest once
+// `detect` resolves.
+const FACTORIES = {
+  realitydefender: createRealityDefenderProvider,
+  simulated: createSimulatedProvider,
+  metadata: createMetadataProvider,
+};
+
+// DETECTOR_PROVIDERS is a comma-separated list, e.g. "realitydefender,simulated".
+// Without it we use RealityDefender when a key is present, else the simulator,
+// plus the local metadata forensics either way.
+export function createProviders(env) {
+  const names = (env.DETECTOR_PROVIDERS || (env.RD_API_KEY ? 'realitydefender,metadata' : 'simulated,metadata'))
+    .split(',')
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (names.length === 0) throw new Error('DETECTOR_PROVIDERS is empty');
+
+  return names.map((name) => {
+    const factory = FACTORIES[name];
+    if (!factory) {
+      throw new Error(`Unknown detector provider "${name}". Available: ${Object.keys(FACTORIES).join(', ')}`);
+    }
+    return factory({ apiKey: env.RD_API_KEY, latency: env.SIMULATED_LATENCY === 'true' });
+  });
+}
+
+export function fileTypeFromMime(mimeType) {
+  if (mimeType?.startsWith('video/')) return 'video';
+  if (mimeType?.startsWith('audio/')) return 'audio';
+  return 'image';
+}
+
+// Maps an ensemble verdict onto RealityDefender's result statuses
+export function statusFromVerdict(verdict) {
+  if (verdict.score === null) return 'UNKNOWN';
+  if (verdict.outcome === 'ai_generated') return 'MANIPULATED';
+  if (verdict.outcome === 'authentic') return 'AUTHENTIC';
+  return 'SUSPICIOUS';
+}
+
+// Runs every provider on the upload and merges their answers into one
+// RealityDefender-shaped response whose overall score and status come from
+// the ensemble verdict over every model. With a `calibration` (see
+// calibration.js) model scores are calibrated before anything sees them. A
+// provider failing is reported in `errors`; the request only fails when none
+// of them succeed.
+export async function runDetectors(providers, upload, { verdictConfig, calibration } = {}) {
+  const onModelStart = upload.onModelStart ?? (() => {});
+  const onModel = upload.onModel ?? (() => {});
+  const settled = await Promise.allSettled(providers.map(async (p) => {
+    const started = new Set();
+    const reported = new Set();
+    const reportStart = ({ name }) => {
+      if (started.has(name)) return;
+      started.add(name);
+      onModelStart({ name, provider: p.name });
+    };
+    const report = (model) => {
+      if (reported.has(model.name)) return;
+      reportStart(model);
+      reported.add(model.name);
+      onModel(calibrateModel(calibration, { ...model, provider: p.name }));
+    };
+
+    const result = await p.detect({ ...upload, onModelStart: reportStart, onModel: report });
+    result.models.forEach(report);
+    return result;
+  }));
+
+  const succeeded = [];
+  const errors = [];
+  settled.forEach((outcome, i) => {
+    const provider = providers[i].name;
+    if (outcome.status === 'fulfilled') {
+      succeeded.push({ provider, result: outcome.value });
+    } else {
+      const reason = outcome.reason;
+      errors.push({ provider, message: reason instanceof Error ? reason.message : String(reason) });
+    }
+  });
+
+  if (succeeded.length === 0) {
+    throw new Error(errors.map((e) => `${e.provider}: ${e.message}`).join('; '));
+  }
+
+  const models = succeeded.flatMap(({ provider, result }) =>
+    result.models.map((m) => calibrateModel(calibration, { ...m, provider }))
+  );
+  const verdict = computeVerdict(models, verdictConfig);
+
+  return {
+    requestId: succeeded[0].result.requestId || crypto.randomUUID(),
+    status: statusFromVerdict(verdict),
+    score: verdict.score,
+    verdict,
+    models,
+    providers: succeeded.map(({ provider, result }) => ({
+      name: provider,
+      requestId: result.requestId,
+      status: result.status,
+      score: result.score,
+    })),
+    calibration: calibration ? { method: calibration.method, fittedAt: calibration.fittedAt } : null,
+    errors,
+  };
+}
@@ -0,0 +1,30 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { RealityDefender } from '@realitydefender/realitydefender';
+
+// Adapter around the RealityDefender SDK. The SDK only accepts a file path,
+// so the uploaded buffer is written to a temp file for the duration of the call.
+export function createRealityDefenderProvider({ apiKey }) {
+  if (!apiKey) {
+    throw new Error('The realitydefender provider needs RD_API_KEY. Create a .env file with RD_API_KEY=...');
+  }
+
+  const rd = new RealityDefender({ apiKey });
+
+  return {
+    name: 'realitydefender',
+    async detect({ buffer, fileName }) {
+      const filename = `rd-upload-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const ext = path.extname(fileName) || '';
+      const tmpPath = path.join(os.tmpdir(), filename + ext);
+
+      await fs.promises.writeFile(tmpPath, buffer);
+      try {
+        return await rd.detect({ filePath: tmpPath });
+      } finally {
+        fs.unlink(tmpPath, () => {});
+      }
+    },
+  };
+}
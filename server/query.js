@@ -0,0 +1,35 @@
+import { StoreError } from './store.js';
+
+const RESERVED = new Set(['select', 'order', 'limit', 'offset']);
+
+// Parses PostgREST-style list params, the same syntax Supabase's REST API
+// uses, e.g. `?status=eq.completed&order=created_at.desc&limit=50`.
+export function parseListQuery(query) {
+  const filters = [];
+  for (const [column, raw] of Object.entries(query)) {
+    if (RESERVED.has(column)) continue;
+    for (const expr of [].concat(raw)) {
+      const dot = expr.indexOf('.');
+      if (dot === -1) throw new StoreError(`Malformed filter ${column}=${expr}`);
+      const op = expr.slice(0, dot);
+      let value = expr.slice(dot + 1);
+      if (op === 'in') value = value.replace(/^\(|\)$/g, '').split(',').filter(Boolean);
+      filters.push({ column, op, value });
+    }
+  }
+
+  const order = query.order
+    ? String(query.order).split(',').map((part) => {
+        const [column, dir] = part.split('.');
+        return { column, ascending: dir !== 'desc' };
+      })
+    : [];
+
+  const limit = query.limit === undefined ? undefined : Number(query.limit);
+  const offset = query.offset === undefined ? 0 : Number(query.offset);
+  if ((limit !== undefined && !Number.isInteger(limit)) || !Number.isInteger(offset)) {
+    throw new StoreError('limit and offset must be integers');
+  }
+
+  return { filters, order, limit, offset };
+}
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// Signed analysis receipts. When an analysis completes, a canonical record of
+// the file hash, per-model scores and versions, and the verdict is signed
+// with the server's Ed25519 key. Anyone holding the public key (GET
+// /receipts/key) can check that a verdict was issued for a given file and
+// has not been edited since; POST /verify does the same check server-side.
+
+export const RECEIPT_VERSION = 1;
+
+// JSON with object keys sorted at every level and no whitespace, so the
+// signed bytes do not depend on how a receipt was stored or pretty-printed
+export function canonicalJson(value) {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// `analysis` is a completed `analyses` row and `results` its result rows
+export function receiptRecord(analysis, results) {
+  const { verdict } = analysis;
+  return {
+    analysisId: analysis.id,
+    issuedAt: analysis.completed_at,
+    file: {
+      name: analysis.file_name,
+      type: analysis.file_type,
+      size: analysis.file_size,
+      sha256: analysis.file_sha256,
+    },
+    verdict: verdict
+      ? {
+        strategy: verdict.strategy,
+        score: verdict.score,
+        outcome: verdict.outcome,
+        label: verdict.label,
+        thresholds: verdict.thresholds,
+      }
+      : null,
+    models: results.map((r) => ({
+      name: r.model_name,
+      version: r.model_version,
+      provider: r.metadata.provider ?? null,
+      score: typeof r.metadata.score === 'number' ? r.metadata.score : null,
+      rawScore: typeof r.metadata.rawScore === 'number' ? r.metadata.rawScore : null,
+    })),
+  };
+}
+
+function keyIdOf(publicKey) {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function createReceiptSigner(privateKey) {
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Receipt signing key must be Ed25519, got ${privateKey.asymmetricKeyType}`);
+  }
+  const publicKey = crypto.createPublicKey(privateKey);
+  const keyId = keyIdOf(publicKey);
+
+  return {
+    keyId,
+    publicKeyPem: publicKey.export({ type: 'spki', format: 'pem' }),
+
+    sign(record) {
+      const signature = crypto.sign(null, Buffer.from(canonicalJson(record)), privateKey);
+      return {
+        version: RECEIPT_VERSION,
+        algorithm: 'Ed25519',
+        keyId,
+        record,
+        signature: signature.toString('base64'),
+      };
+    },
+
+    // Checks the signature against this server's key and, when the file is
+    // given, its SHA-256 against the one in the record. `fileMatches` is null
+    // when no file was supplied.
+    verify(receipt, fileBuffer) {
+      if (!receipt || typeof receipt !== 'object' || !receipt.record || typeof receipt.signature !== 'string') {
+        return { valid: false, signatureValid: false, keyMatches: false, fileMatches: null, error: 'Not a receipt' };
+      }
+
+      const keyMatches = receipt.keyId === keyId;
+      let signatureValid = false;
+      try {
+        signatureValid = receipt.algorithm === 'Ed25519'
+          && crypto.verify(null, Buffer.from(canonicalJson(receipt.record)), publicKey, Buffer.from(receipt.signature, 'base64'));
+      } catch {
+        signatureValid = false;
+      }
+
+      const fileMatches = fileBuffer
+        ? crypto.createHash('sha256').update(fileBuffer).digest('hex') === receipt.record.file?.sha256
+        : null;
+
+      return {
+        valid: signatureValid && fileMatches !== false,
+        signatureValid,
+        keyMatches,
+        fileMatches,
+        record: receipt.record,
+      };
+    },
+  };
+}
+
+// Reads a PKCS#8 PEM private key. Without one, a new key is generated and
+// written to `filePath` so receipts stay verifiable across restarts.
+export function loadReceiptSigner(filePath) {
+  if (fs.existsSync(filePath)) {
+    return { signer: createReceiptSigner(crypto.createPrivateKey(fs.readFileSync(filePath))), created: false };
+  }
+
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  return { signer: createReceiptSigner(privateKey), created: true };
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { canonicalJson, createReceiptSigner, loadReceiptSigner, receiptRecord } from './receipts.js';
+
+const newSigner = () => createReceiptSigner(crypto.generateKeyPairSync('ed25519').privateKey);
+const file = Buffer.from('pixels');
+const sha256 = crypto.createHash('sha256').update(file).digest('hex');
+
+const analysis = {
+  id: 'a1',
+  completed_at: '2026-01-01T00:00:00.000Z',
+  file_name: 'a.jpg',
+  file_type: 'image',
+  file_size: file.length,
+  file_sha256: sha256,
+  verdict: { strategy: 'weighted', score: 0.8, outcome: 'ai_generated', label: 'Likely AI', thresholds: { ai: 0.7, authentic: 0.35 }, modelCount: 1 },
+};
+const results = [{ model_name: 'Model', model_version: '1.0', metadata: { provider: 'local', score: 0.8 } }];
+
+test('canonicalJson sorts keys at every level and drops undefined', () => {
+  assert.equal(canonicalJson({ b: 1, a: { d: [2, { f: null, e: 'x' }], c: undefined } }), '{"a":{"d":[2,{"e":"x","f":null}]},"b":1}');
+  assert.equal(canonicalJson({ a: 1, b: 2 }), canonicalJson(JSON.parse('{ "b": 2, "a": 1 }')));
+  assert.equal(canonicalJson(undefined), 'null');
+  assert.equal(canonicalJson('café "quoted"'), JSON.stringify('café "quoted"'));
+});
+
+test('receiptRecord keeps the file, verdict and model versions only', () => {
+  const record = receiptRecord(analysis, results);
+  assert.deepEqual(record.file, { name: 'a.jpg', type: 'image', size: file.length, sha256 });
+  assert.equal('modelCount' in record.verdict, false);
+  assert.deepEqual(record.models, [{ name: 'Model', version: '1.0', provider: 'local', score: 0.8, rawScore: null }]);
+  assert.equal(receiptRecord({ ...analysis, verdict: null }, []).verdict, null);
+});
+
+test('a signed receipt verifies, with or without the file', () => {
+  const signer = newSigner();
+  const receipt = signer.sign(receiptRecord(analysis, results));
+  assert.equal(receipt.algorithm, 'Ed25519');
+  assert.equal(receipt.keyId, signer.keyId);
+
+  assert.deepEqual(
+    { ...signer.verify(receipt, file), record: undefined },
+    { valid: true, signatureValid: true, keyMatches: true, fileMatches: true, record: undefined },
+  );
+  assert.equal(signer.verify(receipt).fileMatches, null);
+  assert.equal(signer.verify(receipt).valid, true);
+  // Key order in the stored copy does not matter
+  assert.equal(signer.verify(JSON.parse(JSON.stringify(receipt))).valid, true);
+});
+
+test('edited records, other files and other keys fail verification', () => {
+  const signer = newSigner();
+  const receipt = signer.sign(receiptRecord(analysis, results));
+
+  const edited = { ...receipt, record: { ...receipt.record, verdict: { ...receipt.record.verdict, outcome: 'authentic' } } };
+  assert.equal(signer.verify(edited).signatureValid, false);
+  assert.equal(signer.verify(edited).valid, false);
+
+  const otherFile = signer.verify(receipt, Buffer.from('other pixels'));
+  assert.equal(otherFile.signatureValid, true);
+  assert.equal(otherFile.fileMatches, false);
+  assert.equal(otherFile.valid, false);
+
+  const other = newSigner().verify(receipt);
+  assert.equal(other.keyMatches, false);
+  assert.equal(other.valid, false);
+
+  assert.equal(signer.verify({ ...receipt, algorithm: 'RS256' }).valid, false);
+  assert.equal(signer.verify({ ...receipt, signature: 'not base64!' }).valid, false);
+  assert.equal(signer.verify(null).error, 'Not a receipt');
+});
+
+test('only Ed25519 keys can sign receipts', () => {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  assert.throws(() => createReceiptSigner(privateKey), /must be Ed25519, got ec/);
+});
+
+test('loadReceiptSigner creates a key once and reuses it', () => {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'receipts-')), 'keys', 'receipt.pem');
+  const first = loadReceiptSigner(filePath);
+  assert.equal(first.created, true);
+  const second = loadReceiptSigner(filePath);
+  assert.equal(second.created, false);
+  assert.equal(second.signer.keyId, first.signer.keyId);
+  assert.equal(second.signer.verify(first.signer.sign({ hello: 'world' })).valid, true);
+});
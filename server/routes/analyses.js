@@ -0,0 +1,73 @@
+import express from 'express';
+import { ownerFilter } from '../auth.js';
+import { parseHistoryQuery, searchHistory } from '../history.js';
+import { parseListQuery } from '../query.js';
+import { findSimilar, parseHashes } from '../similarity.js';
+import { canSee, sharedAnalysisIds } from '../workspaces.js';
+
+// Every read is limited to the analyses the caller owns, or to unowned ones
+// without a session (see ownerFilter in auth.js); others answer 404. Members
+// of a workspace can also read the analyses filed in its cases (workspaces.js)
+// here, while search and similar-media lookups stay with their own uploads.
+export function createAnalysesRouter(store) {
+  const router = express.Router();
+
+  const visibleIds = (user) => [
+    ...store.select('analyses', { filters: [ownerFilter(user)] }).map((row) => row.id),
+    ...sharedAnalysisIds(store, user),
+  ];
+
+  // GET /analyses?status=eq.completed&order=created_at.desc&limit=50
+  router.get('/analyses', (req, res) => {
+    const query = parseListQuery(req.query);
+    res.json(store.select('analyses', {
+      ...query,
+      filters: [...query.filters, { column: 'id', op: 'in', value: visibleIds(req.user) }],
+    }));
+  });
+
+  // GET /analyses/search?q=beach&file_type=image,video&verdict=ai_generated&cursor=...
+  // pages through history with each analysis's results included (history.js)
+  router.get('/analyses/search', (req, res) => {
+    const { query, error } = parseHistoryQuery(req.query);
+    if (error) return res.status(400).json({ error });
+    res.json(searchHistory(store, query, req.user));
+  });
+
+  // POST /analyses/similar with any of { sha256, phash, dhash, audioFingerprint }
+  // lists earlier completed analyses of the same or near-identical media
+  router.post('/analyses/similar', express.json({ limit: '1mb' }), (req, res) => {
+    const { hashes, error } = parseHashes(req.body);
+    if (error) return res.status(400).json({ error });
+    if (Object.keys(hashes).length === 0) return res.status(400).json({ error: 'No hashes given' });
+    res.json(findSimilar(store, hashes, { user: req.user }));
+  });
+
+  router.get('/analyses/:id', (req, res) => {
+    const analysis = store.get('analyses', req.params.id);
+    if (!analysis || !canSee(store, req.user, analysis)) return res.status(404).json({ error: 'Analysis not found' });
+    res.json(analysis);
+  });
+
+  router.get('/analyses/:id/results', (req, res) => {
+    const analysis = store.get('analyses', req.params.id);
+    if (!analysis || !canSee(store, req.user, analysis)) return res.status(404).json({ error: 'Analysis not found' });
+    const query = parseListQuery(req.query);
+    res.json(store.select('analysis_results', {
+      ...query,
+      filters: [...query.filters, { column: 'analysis_id', op: 'eq', value: req.params.id }],
+      order: query.order.length > 0 ? query.order : [{ column: 'created_at', ascending: true }],
+    }));
+  });
+
+  // GET /analysis_results?analysis_id=eq.<id>&order=created_at.asc
+  router.get('/analysis_results', (req, res) => {
+    const query = parseListQuery(req.query);
+    res.json(store.select('analysis_results', {
+      ...query,
+      filters: [...query.filters, { column: 'analysis_id', op: 'in', value: visibleIds(req.user) }],
+    }));
+  });
+
+  return router;
+}
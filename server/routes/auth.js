@@ -0,0 +1,28 @@
+import express from 'express';
+
+export function createAuthRouter(auth) {
+  const router = express.Router();
+
+  // POST /auth/register and /auth/login take { email, password } and answer
+  // with { token, expiresAt, user }; send the token as a bearer token
+  router.post('/auth/register', express.json(), async (req, res) => {
+    res.status(201).json(await auth.register(req.body?.email, req.body?.password));
+  });
+
+  router.post('/auth/login', express.json(), async (req, res) => {
+    res.json(await auth.login(req.body?.email, req.body?.password));
+  });
+
+  router.post('/auth/logout', async (req, res) => {
+    if (req.token) await auth.logout(req.token);
+    res.status(204).end();
+  });
+
+  // GET /auth/me returns the signed-in user, or 401 without a session
+  router.get('/auth/me', (req, res) => {
+    if (!req.user) return res.status(401).json({ error: 'Not signed in' });
+    res.json({ user: req.user });
+  });
+
+  return router;
+}
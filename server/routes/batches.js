@@ -0,0 +1,36 @@
+import express from 'express';
+
+export function createBatchesRouter({ batches, jobs, upload }) {
+  const router = express.Router();
+
+  // Batches belong to the signed-in user; others get 404 for them
+  router.post('/batches', (req, res) => {
+    res.status(201).json(batches.create(req.user?.id ?? null));
+  });
+
+  // POST /batches/:id/files takes up to 100 multipart `files` and starts a
+  // job for each, or reuses a cached result (`?force=true` to re-run). Single
+  // files can also join a batch via POST /detect with a `batchId` field.
+  router.post('/batches/:id/files', upload.array('files', 100), async (req, res) => {
+    const userId = req.user?.id ?? null;
+    if (!batches.has(req.params.id, userId)) return res.status(404).json({ error: 'Batch not found' });
+    if (!req.files?.length) return res.status(400).json({ error: 'No files uploaded' });
+
+    const started = [];
+    for (const file of req.files) {
+      const { analysis, cached } = await jobs.start(file, {}, { force: req.query.force === 'true', userId });
+      batches.add(req.params.id, analysis.id);
+      started.push({ jobId: analysis.id, fileName: file.originalname, status: analysis.status, cached });
+    }
+    res.status(202).json({ batchId: req.params.id, jobs: started });
+  });
+
+  // GET /batches/:id returns every item's status and verdict plus an aggregate summary
+  router.get('/batches/:id', (req, res) => {
+    const batch = batches.get(req.params.id, req.user?.id ?? null);
+    if (!batch) return res.status(404).json({ error: 'Batch not found' });
+    res.json(batch);
+  });
+
+  return router;
+}
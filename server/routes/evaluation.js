@@ -0,0 +1,44 @@
+import express from 'express';
+import path from 'path';
+import { isInside } from '../evaluation.js';
+
+// A dataset named in the request is resolved inside `datasetDir`, and may
+// only list files there; EVALUATION_DATASET (`defaultDataset`) is trusted as
+// configured. Starting a run needs a session.
+export function createEvaluationRouter({ evaluations, datasetDir, defaultDataset }) {
+  const router = express.Router();
+
+  // GET /evaluation returns the state of the current run and the latest report
+  router.get('/evaluation', (req, res) => {
+    res.json(evaluations.get());
+  });
+
+  // POST /evaluation runs a labeled dataset (a CSV in the dataset directory,
+  // or EVALUATION_DATASET) through every detector in the background
+  router.post('/evaluation', express.json(), (req, res) => {
+    if (!req.user) return res.status(401).json({ error: 'Sign in to run an evaluation' });
+    if (evaluations.running) return res.status(409).json({ error: 'An evaluation is already running' });
+
+    const requested = req.body?.dataset;
+    if (requested !== undefined && typeof requested !== 'string') {
+      return res.status(400).json({ error: 'dataset must be a file name' });
+    }
+    if (!requested && !defaultDataset) {
+      return res.status(400).json({ error: 'No dataset given and EVALUATION_DATASET is not set' });
+    }
+    const dataset = requested ? path.resolve(datasetDir, requested) : path.resolve(defaultDataset);
+    if (requested && !isInside(datasetDir, dataset)) {
+      return res.status(400).json({ error: 'dataset must be a file in the dataset directory' });
+    }
+
+    // Parse errors quote the file, so the details only go to the server log
+    try {
+      res.status(202).json(evaluations.start(dataset, requested ? { root: datasetDir } : {}));
+    } catch (err) {
+      console.error('Evaluation dataset error:', err);
+      res.status(400).json({ error: `${requested || 'EVALUATION_DATASET'} is missing or not a valid dataset; see the server log` });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,50 @@
+import express from 'express';
+import { canSee } from '../workspaces.js';
+
+// Jobs are readable by whoever may read their analysis (canSee in
+// workspaces.js); others get 404, as for GET /analyses/:id.
+export function createJobsRouter({ jobs, store }) {
+  const router = express.Router();
+
+  const visibleJob = (req) => {
+    const analysis = store.get('analyses', req.params.id);
+    return analysis && canSee(store, req.user, analysis) ? jobs.get(req.params.id) : null;
+  };
+
+  // GET /jobs/:id returns the job status, per-model results so far and errors.
+  // `detection` holds the merged RealityDefender-shaped result once completed.
+  router.get('/jobs/:id', (req, res) => {
+    const job = visibleJob(req);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    res.json(job);
+  });
+
+  // GET /jobs/:id/events streams job progress as Server-Sent Events. The
+  // stream ends after the `completed` or `failed` event. It needs the same
+  // Authorization header as every other route, so clients read it with
+  // fetch rather than EventSource.
+  router.get('/jobs/:id/events', (req, res) => {
+    if (!visibleJob(req)) return res.status(404).json({ error: 'Job not found' });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    let unsubscribe = () => {};
+    const send = ({ event, data }) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      if (event === 'completed' || event === 'failed') {
+        unsubscribe();
+        res.end();
+      }
+    };
+
+    unsubscribe = jobs.subscribe(req.params.id, send);
+    if (res.writableEnded) unsubscribe();
+    req.on('close', () => unsubscribe());
+  });
+
+  return router;
+}
@@ -0,0 +1,27 @@
+import express from 'express';
+
+export function createReceiptsRouter({ signer, upload }) {
+  const router = express.Router();
+
+  // GET /receipts/key returns the public key receipts can be checked against
+  router.get('/receipts/key', (req, res) => {
+    res.json({ algorithm: 'Ed25519', keyId: signer.keyId, publicKey: signer.publicKeyPem });
+  });
+
+  // POST /verify takes a multipart `receipt` (JSON file or text field) and an
+  // optional `file` to compare with the hash in the receipt
+  router.post('/verify', upload.fields([{ name: 'receipt', maxCount: 1 }, { name: 'file', maxCount: 1 }]), (req, res) => {
+    const raw = req.files?.receipt?.[0]?.buffer.toString('utf8') ?? req.body?.receipt;
+    if (!raw) return res.status(400).json({ error: 'No receipt uploaded' });
+
+    let receipt;
+    try {
+      receipt = JSON.parse(raw);
+    } catch {
+      return res.status(400).json({ error: 'Receipt is not valid JSON' });
+    }
+    res.json(signer.verify(receipt, req.files?.file?.[0]?.buffer));
+  });
+
+  return router;
+}
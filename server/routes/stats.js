@@ -0,0 +1,18 @@
+import express from 'express';
+import { computeStats, parseStatsQuery } from '../stats.js';
+
+export function createStatsRouter(store) {
+  const router = express.Router();
+
+  // GET /stats?interval=week&periods=12 returns totals, analyses per
+  // day/week by file type with the AI-detected rate, a confidence histogram
+  // and the model-vs-model disagreement matrix (stats.js), all over the
+  // signed-in user's analyses
+  router.get('/stats', (req, res) => {
+    const { query, error } = parseStatsQuery(req.query);
+    if (error) return res.status(400).json({ error });
+    res.json(computeStats(store, query, req.user));
+  });
+
+  return router;
+}
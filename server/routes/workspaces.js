@@ -0,0 +1,252 @@
+import express from 'express';
+import { canView } from '../auth.js';
+import {
+  CASE_STATUSES,
+  can,
+  canSee,
+  caseDetail,
+  countOwners,
+  membership,
+  parseCase,
+  parseRole,
+  parseWorkspace,
+  roleIn,
+  sharedAnalysisIds,
+} from '../workspaces.js';
+
+// Workspaces, their members and cases (workspaces.js). Every route needs a
+// session. Workspaces and cases the caller is not a member of answer 404;
+// members whose role does not allow the action get 403.
+export function createWorkspacesRouter(store) {
+  const router = express.Router();
+
+  router.use(['/workspaces', '/cases'], (req, res, next) => {
+    if (!req.user) return res.status(401).json({ error: 'Sign in to use workspaces' });
+    next();
+  });
+
+  // Resolves the caller's role in a workspace, answering for them when it
+  // does not allow `action`; returns null once a response has been sent
+  function authorize(req, res, workspaceId, action) {
+    const role = roleIn(store, workspaceId, req.user);
+    if (!role) {
+      res.status(404).json({ error: 'Workspace not found' });
+      return null;
+    }
+    if (!can(role, action)) {
+      res.status(403).json({ error: `A ${role} cannot do this` });
+      return null;
+    }
+    return role;
+  }
+
+  function findCase(req, res, action) {
+    const row = store.get('cases', req.params.id);
+    const role = row ? roleIn(store, row.workspace_id, req.user) : null;
+    if (!row || !role) {
+      res.status(404).json({ error: 'Case not found' });
+      return null;
+    }
+    if (!can(role, action)) {
+      res.status(403).json({ error: `A ${role} cannot do this` });
+      return null;
+    }
+    return { row, role };
+  }
+
+  const touch = (id) => store.update('cases', id, { updated_at: new Date().toISOString() });
+
+  // GET /workspaces lists the caller's workspaces with their role and case count
+  router.get('/workspaces', (req, res) => {
+    const memberships = store.select('workspace_members', { filters: [{ column: 'user_id', op: 'eq', value: req.user.id }] });
+    const workspaces = memberships
+      .map((member) => ({
+        ...store.get('workspaces', member.workspace_id),
+        role: member.role,
+        caseCount: store.select('cases', { filters: [{ column: 'workspace_id', op: 'eq', value: member.workspace_id }] }).length,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    res.json(workspaces);
+  });
+
+  // POST /workspaces { name } creates a workspace owned by the caller
+  router.post('/workspaces', express.json(), async (req, res) => {
+    const { fields, error } = parseWorkspace(req.body);
+    if (error) return res.status(400).json({ error });
+    const workspace = await store.insert('workspaces', { ...fields, created_by: req.user.id });
+    await store.insert('workspace_members', { workspace_id: workspace.id, user_id: req.user.id, role: 'owner' });
+    res.status(201).json({ ...workspace, role: 'owner', caseCount: 0 });
+  });
+
+  // GET /workspaces/:id returns the workspace, the caller's role and the members
+  router.get('/workspaces/:id', (req, res) => {
+    const role = authorize(req, res, req.params.id, 'view');
+    if (!role) return;
+    const members = store
+      .select('workspace_members', {
+        filters: [{ column: 'workspace_id', op: 'eq', value: req.params.id }],
+        order: [{ column: 'created_at', ascending: true }],
+      })
+      .map((member) => ({ ...member, email: store.get('users', member.user_id)?.email ?? null }));
+    res.json({ ...store.get('workspaces', req.params.id), role, members });
+  });
+
+  router.patch('/workspaces/:id', express.json(), async (req, res) => {
+    if (!authorize(req, res, req.params.id, 'manage')) return;
+    const { fields, error } = parseWorkspace(req.body);
+    if (error) return res.status(400).json({ error });
+    res.json(await store.update('workspaces', req.params.id, fields));
+  });
+
+  // Deleting a workspace deletes its cases; the analyses themselves stay
+  router.delete('/workspaces/:id', async (req, res) => {
+    if (!authorize(req, res, req.params.id, 'manage')) return;
+    await store.remove('workspaces', req.params.id);
+    res.status(204).end();
+  });
+
+  // POST /workspaces/:id/members { email, role } adds an existing account
+  router.post('/workspaces/:id/members', express.json(), async (req, res) => {
+    if (!authorize(req, res, req.params.id, 'manage')) return;
+    const { role, error } = parseRole(req.body?.role);
+    if (error) return res.status(400).json({ error });
+
+    const email = String(req.body?.email ?? '').trim().toLowerCase();
+    const user = store.select('users', { filters: [{ column: 'email', op: 'eq', value: email }] })[0];
+    if (!user) return res.status(404).json({ error: `No account for ${email || 'an empty email'}` });
+    if (membership(store, req.params.id, user.id)) return res.status(409).json({ error: `${email} is already a member` });
+
+    const member = await store.insert('workspace_members', { workspace_id: req.params.id, user_id: user.id, role });
+    res.status(201).json({ ...member, email: user.email });
+  });
+
+  // PATCH /workspaces/:id/members/:userId { role }; a workspace keeps at least one owner
+  router.patch('/workspaces/:id/members/:userId', express.json(), async (req, res) => {
+    if (!authorize(req, res, req.params.id, 'manage')) return;
+    const { role, error } = parseRole(req.body?.role);
+    if (error) return res.status(400).json({ error });
+
+    const member = membership(store, req.params.id, req.params.userId);
+    if (!member) return res.status(404).json({ error: 'Member not found' });
+    if (member.role === 'owner' && role !== 'owner' && countOwners(store, req.params.id) === 1) {
+      return res.status(409).json({ error: 'A workspace needs at least one owner' });
+    }
+    const updated = await store.update('workspace_members', member.id, { role });
+    res.json({ ...updated, email: store.get('users', member.user_id)?.email ?? null });
+  });
+
+  // Owners remove members; anyone may remove themselves to leave
+  router.delete('/workspaces/:id/members/:userId', async (req, res) => {
+    const leaving = req.params.userId === req.user.id;
+    if (!authorize(req, res, req.params.id, leaving ? 'view' : 'manage')) return;
+
+    const member = membership(store, req.params.id, req.params.userId);
+    if (!member) return res.status(404).json({ error: 'Member not found' });
+    if (member.role === 'owner' && countOwners(store, req.params.id) === 1) {
+      return res.status(409).json({ error: 'A workspace needs at least one owner' });
+    }
+    await store.remove('workspace_members', member.id);
+    res.status(204).end();
+  });
+
+  // GET /workspaces/:id/cases?status=open lists cases, most recently updated first
+  router.get('/workspaces/:id/cases', (req, res) => {
+    if (!authorize(req, res, req.params.id, 'view')) return;
+    if (req.query.status && !CASE_STATUSES.includes(req.query.status)) {
+      return res.status(400).json({ error: `status must be one of ${CASE_STATUSES.join(', ')}` });
+    }
+    const filters = [{ column: 'workspace_id', op: 'eq', value: req.params.id }];
+    if (req.query.status) filters.push({ column: 'status', op: 'eq', value: req.query.status });
+    const cases = store
+      .select('cases', { filters, order: [{ column: 'updated_at', ascending: false }] })
+      .map((row) => ({
+        ...row,
+        analysisCount: store.select('case_analyses', { filters: [{ column: 'case_id', op: 'eq', value: row.id }] }).length,
+      }));
+    res.json(cases);
+  });
+
+  // POST /workspaces/:id/cases { title, description?, status? }
+  router.post('/workspaces/:id/cases', express.json(), async (req, res) => {
+    if (!authorize(req, res, req.params.id, 'edit_cases')) return;
+    const { fields, error } = parseCase(req.body);
+    if (error) return res.status(400).json({ error });
+    const row = await store.insert('cases', { ...fields, workspace_id: req.params.id, created_by: req.user.id });
+    res.status(201).json({ ...row, analysisCount: 0 });
+  });
+
+  // GET /cases/:id returns the case, the caller's role and its analyses with results
+  router.get('/cases/:id', (req, res) => {
+    const found = findCase(req, res, 'view');
+    if (!found) return;
+    res.json({ ...caseDetail(store, found.row), role: found.role });
+  });
+
+  router.patch('/cases/:id', express.json(), async (req, res) => {
+    const found = findCase(req, res, 'edit_cases');
+    if (!found) return;
+    const { fields, error } = parseCase(req.body, { partial: true });
+    if (error) return res.status(400).json({ error });
+    await store.update('cases', req.params.id, fields);
+    const row = await touch(req.params.id);
+    res.json({ ...caseDetail(store, row), role: found.role });
+  });
+
+  router.delete('/cases/:id', async (req, res) => {
+    if (!findCase(req, res, 'manage')) return;
+    await store.remove('cases', req.params.id);
+    res.status(204).end();
+  });
+
+  // POST /cases/:id/analyses { analysisIds } files the caller's own analyses,
+  // or ones already in a case of a workspace where they may edit cases, into
+  // the case; ones already in it are skipped. Seeing an analysis is not
+  // enough, or a viewer could re-share one workspace's analyses into another.
+  router.post('/cases/:id/analyses', express.json(), async (req, res) => {
+    const found = findCase(req, res, 'edit_cases');
+    if (!found) return;
+    const ids = req.body?.analysisIds;
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string')) {
+      return res.status(400).json({ error: 'analysisIds must be a non-empty array of ids' });
+    }
+
+    const fileable = sharedAnalysisIds(store, req.user, 'edit_cases');
+    for (const id of ids) {
+      const analysis = store.get('analyses', id);
+      if (!analysis || !canSee(store, req.user, analysis)) {
+        return res.status(404).json({ error: `Analysis ${id} not found` });
+      }
+      if (!canView(req.user, analysis) && !fileable.has(id)) {
+        return res.status(403).json({ error: `Analysis ${id} is only shared with you as a viewer` });
+      }
+    }
+
+    const existing = new Set(store
+      .select('case_analyses', { filters: [{ column: 'case_id', op: 'eq', value: req.params.id }] })
+      .map((link) => link.analysis_id));
+    const added = [];
+    for (const id of new Set(ids)) {
+      if (existing.has(id)) continue;
+      await store.insert('case_analyses', { case_id: req.params.id, analysis_id: id, added_by: req.user.id });
+      added.push(id);
+    }
+    if (added.length > 0) await touch(req.params.id);
+    res.json({ added });
+  });
+
+  router.delete('/cases/:id/analyses/:analysisId', async (req, res) => {
+    if (!findCase(req, res, 'edit_cases')) return;
+    const link = store.select('case_analyses', {
+      filters: [
+        { column: 'case_id', op: 'eq', value: req.params.id },
+        { column: 'analysis_id', op: 'eq', value: req.params.analysisId },
+      ],
+    })[0];
+    if (!link) return res.status(404).json({ error: 'Analysis is not in this case' });
+    await store.remove('case_analyses', link.id);
+    await touch(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,77 @@
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { createProviders } from '../providers/index.js';
+import { loadDataset, scoreDataset, samplesByModel } from '../dataset.js';
+import { brierScore, calibrateScore, fitCalibration, saveCalibration, CALIBRATION_METHODS } from '../calibration.js';
+import { verdictConfigFromEnv } from '../../shared/verdict.js';
+import { calibrationFile, createSamplerFromEnv } from '../config.js';
+
+// Fits a per-model score calibration from a labeled dataset:
+//
+//   npm run calibrate -- dataset.csv [--method platt|isotonic] [--out file]
+//
+// The dataset is a CSV of `path,label` rows (see dataset.js). The result is
+// written to CALIBRATION_FILE, or calibration.json in DATA_DIR, where the
+// server picks it up on its next start.
+
+dotenv.config();
+
+const USAGE = `Usage: npm run calibrate -- <dataset.csv> [--method ${CALIBRATION_METHODS.join('|')}] [--out file]`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    method: { type: 'string', default: 'platt' },
+    out: { type: 'string' },
+  },
+});
+
+if (positionals.length !== 1) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const datasetPath = path.resolve(positionals[0]);
+const outPath = values.out ? path.resolve(values.out) : calibrationFile(process.env);
+
+try {
+  const providers = createProviders(process.env);
+  const verdictConfig = verdictConfigFromEnv((key) => process.env[key]);
+  const sampler = createSamplerFromEnv(process.env);
+  const items = loadDataset(datasetPath);
+
+  console.log(`Scoring ${items.length} files with ${providers.map((p) => p.name).join(', ')}`);
+  const scored = await scoreDataset({
+    providers,
+    sampler,
+    items,
+    verdictConfig,
+    onItem: (item, done, total) => {
+      const result = item.error ? `failed: ${item.error}` : `${item.models.length} models`;
+      console.log(`[${done}/${total}] ${path.relative(process.cwd(), item.path)} - ${result}`);
+    },
+  });
+
+  const samples = samplesByModel(scored);
+  const calibration = fitCalibration(samples, { method: values.method, dataset: datasetPath });
+  if (Object.keys(calibration.models).length === 0) {
+    throw new Error('No model had scores for both AI and real files; nothing to calibrate');
+  }
+
+  console.log('\nModel                          samples  Brier raw  Brier calibrated');
+  for (const [name, entry] of Object.entries(calibration.models)) {
+    const before = brierScore(samples[name]);
+    const after = brierScore(samples[name], (s) => calibrateScore(entry, s));
+    console.log(`${name.padEnd(30)} ${String(entry.samples).padStart(7)}  ${before.toFixed(4).padStart(9)}  ${after.toFixed(4).padStart(16)}`);
+  }
+  for (const name of calibration.skipped) {
+    console.log(`${name.padEnd(30)} skipped: needs both AI and real samples`);
+  }
+
+  await saveCalibration(outPath, calibration);
+  console.log(`\nSaved ${calibration.method} calibration to ${outPath}. Restart the server to apply it.`);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,84 @@
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { createProviders } from '../providers/index.js';
+import { loadDataset, scoreDataset } from '../dataset.js';
+import { loadCalibration } from '../calibration.js';
+import { evaluateDataset, saveEvaluation } from '../evaluation.js';
+import { verdictConfigFromEnv } from '../../shared/verdict.js';
+import { calibrationFile, createSamplerFromEnv, evaluationFile } from '../config.js';
+
+// Measures every configured detector against a labeled dataset:
+//
+//   npm run evaluate -- dataset.csv [--out file]
+//
+// Scores go through the same calibration and verdict settings as /detect.
+// The report is written to EVALUATION_FILE, or evaluation.json in DATA_DIR,
+// which is what GET /evaluation and the evaluation view show.
+
+dotenv.config();
+
+const USAGE = 'Usage: npm run evaluate -- <dataset.csv> [--out file]';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: 'string' },
+  },
+});
+
+if (positionals.length !== 1) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const datasetPath = path.resolve(positionals[0]);
+const outPath = values.out ? path.resolve(values.out) : evaluationFile(process.env);
+
+const percent = (x) => (x === null ? '—' : `${(x * 100).toFixed(1)}%`);
+const decimal = (x) => (x === null ? '—' : x.toFixed(3));
+
+try {
+  const providers = createProviders(process.env);
+  const verdictConfig = verdictConfigFromEnv((key) => process.env[key]);
+  const calibration = loadCalibration(calibrationFile(process.env));
+  const sampler = createSamplerFromEnv(process.env);
+  const items = loadDataset(datasetPath);
+
+  console.log(`Evaluating ${items.length} files with ${providers.map((p) => p.name).join(', ')}`
+    + (calibration ? ` (${calibration.method} calibration)` : ''));
+  const scored = await scoreDataset({
+    providers,
+    sampler,
+    items,
+    verdictConfig,
+    calibration,
+    onItem: (item, done, total) => {
+      const result = item.error ? `failed: ${item.error}` : `score ${decimal(item.score)}`;
+      console.log(`[${done}/${total}] ${path.relative(process.cwd(), item.path)} - ${result}`);
+    },
+  });
+
+  const report = evaluateDataset(scored, { dataset: datasetPath, verdictConfig, calibration });
+
+  console.log('\nModel                          accuracy  precision  recall  ROC-AUC    EER  TP/FP/TN/FN');
+  for (const m of [...report.models, report.ensemble]) {
+    const { tp, fp, tn, fn } = m.confusion;
+    console.log([
+      m.name.padEnd(30),
+      percent(m.accuracy).padStart(8),
+      percent(m.precision).padStart(10),
+      percent(m.recall).padStart(7),
+      decimal(m.rocAuc).padStart(8),
+      percent(m.eer).padStart(6),
+      ` ${tp}/${fp}/${tn}/${fn}`,
+    ].join(' '));
+  }
+  if (report.failed.length > 0) console.log(`\n${report.failed.length} files failed and were left out`);
+
+  await saveEvaluation(outPath, report);
+  console.log(`\nSaved report to ${outPath}`);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,61 @@
+import { NEAR_DUPLICATE, fingerprintDistance, hammingDistance } from '../shared/perceptualHash.js';
+import { ownerFilter } from './auth.js';
+
+// Finds earlier completed analyses of the same or near-identical media: an
+// identical SHA-256 first, then images within the pHash and dHash distances
+// of NEAR_DUPLICATE, then audio whose fingerprints line up within its bit
+// error rate. This scans every row, which is fine at the local store's size.
+
+const HASH_FORMATS = {
+  sha256: /^[0-9a-f]{64}$/,
+  phash: /^[0-9a-f]{16}$/,
+  dhash: /^[0-9a-f]{16}$/,
+  audioFingerprint: /^([0-9a-f]{6})+$/,
+};
+
+// Drops missing fields and returns an error message for malformed ones
+export function parseHashes(input = {}) {
+  const hashes = {};
+  for (const [key, format] of Object.entries(HASH_FORMATS)) {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string' || !format.test(value)) return { error: `${key} is malformed` };
+    hashes[key] = value;
+  }
+  return { hashes };
+}
+
+function compareRow(row, hashes) {
+  if (hashes.sha256 && row.file_sha256 === hashes.sha256) {
+    return { match: 'exact', kind: 'sha256', distance: 0 };
+  }
+  if (hashes.phash && row.image_phash) {
+    const phash = hammingDistance(hashes.phash, row.image_phash);
+    const dhash = hashes.dhash && row.image_dhash ? hammingDistance(hashes.dhash, row.image_dhash) : null;
+    if (phash <= NEAR_DUPLICATE.phash && (dhash === null || dhash <= NEAR_DUPLICATE.dhash)) {
+      return { match: 'near', kind: 'image', distance: phash / 64 };
+    }
+  }
+  if (hashes.audioFingerprint && row.audio_fingerprint) {
+    const rate = fingerprintDistance(hashes.audioFingerprint, row.audio_fingerprint);
+    if (rate !== null && rate <= NEAR_DUPLICATE.audio) return { match: 'near', kind: 'audio', distance: rate };
+  }
+  return null;
+}
+
+// Closest matches first; `distance` is 0 for identical files and otherwise
+// the fraction of differing hash bits. Only analyses `user` may see are searched.
+export function findSimilar(store, hashes, { user = null, limit = 10, excludeId } = {}) {
+  const rows = store.select('analyses', {
+    filters: [{ column: 'status', op: 'eq', value: 'completed' }, ownerFilter(user)],
+    order: [{ column: 'created_at', ascending: false }],
+  });
+
+  const matches = [];
+  for (const analysis of rows) {
+    if (analysis.id === excludeId) continue;
+    const similarity = compareRow(analysis, hashes);
+    if (similarity) matches.push({ ...similarity, analysis });
+  }
+  return matches.sort((a, b) => a.distance - b.distance).slice(0, limit);
+}
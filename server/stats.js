@@ -0,0 +1,164 @@
+import { ownerFilter } from './auth.js';
+
+// Aggregates for the stats page, computed here so the browser no longer
+// downloads every analysis and result row. Time buckets are UTC days, or
+// weeks starting on Monday, ending with the current one; empty buckets are
+// included so charts have an even axis.
+
+const FILE_TYPES = ['image', 'video', 'audio'];
+const INTERVALS = { day: 30, week: 12 }; // default number of buckets
+const MAX_PERIODS = 366;
+const HISTOGRAM_BINS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parses `?interval=day|week&periods=30`; returns `{ query }` or `{ error }`
+export function parseStatsQuery(input = {}) {
+  const interval = input.interval ?? 'day';
+  if (!(interval in INTERVALS)) return { error: `interval must be one of ${Object.keys(INTERVALS).join(', ')}` };
+
+  const periods = input.periods === undefined ? INTERVALS[interval] : Number(input.periods);
+  if (!Number.isInteger(periods) || periods < 1 || periods > MAX_PERIODS) {
+    return { error: `periods must be an integer from 1 to ${MAX_PERIODS}` };
+  }
+  return { query: { interval, periods } };
+}
+
+function bucketStart(time, interval) {
+  const day = Math.floor(time / DAY_MS) * DAY_MS;
+  if (interval === 'day') return day;
+  // 1970-01-01 was a Thursday; shift so weeks start on Monday
+  const weekday = (new Date(day).getUTCDay() + 6) % 7;
+  return day - weekday * DAY_MS;
+}
+
+const bucketKey = (time) => new Date(time).toISOString().slice(0, 10);
+
+// Same 0..1 AI score the UI derives from a result row (src/lib/score.ts);
+// null when the model produced no score
+function resultScore(row) {
+  if (typeof row.metadata?.score === 'number') return row.metadata.score;
+  if (row.metadata?.score === null || row.detection_type === 'uncertain') return null;
+  const c = row.confidence_score / 100;
+  return row.is_ai_generated ? c : 1 - c;
+}
+
+function timeSeries(analyses, { interval, periods }, now) {
+  const step = interval === 'day' ? DAY_MS : 7 * DAY_MS;
+  const last = bucketStart(now, interval);
+  const first = last - (periods - 1) * step;
+
+  const buckets = Array.from({ length: periods }, (_, i) => ({
+    start: bucketKey(first + i * step),
+    total: 0,
+    image: 0,
+    video: 0,
+    audio: 0,
+    completed: 0,
+    aiDetected: 0,
+    aiRate: null,
+  }));
+
+  for (const row of analyses) {
+    const index = Math.round((bucketStart(Date.parse(row.created_at), interval) - first) / step);
+    const bucket = buckets[index];
+    if (!bucket) continue;
+    bucket.total++;
+    bucket[row.file_type]++;
+    if (row.verdict) {
+      bucket.completed++;
+      if (row.verdict.outcome === 'ai_generated') bucket.aiDetected++;
+    }
+  }
+  for (const bucket of buckets) {
+    if (bucket.completed > 0) bucket.aiRate = bucket.aiDetected / bucket.completed;
+  }
+  return buckets;
+}
+
+// Per-model confidence_score (0..100) in HISTOGRAM_BINS equal bins
+function confidenceHistogram(results) {
+  const width = 100 / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({ from: i * width, to: (i + 1) * width, count: 0 }));
+  for (const row of results) {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor(row.confidence_score / width))].count++;
+  }
+  return bins;
+}
+
+// For every pair of models, how many analyses both scored and in how many of
+// those one called it AI (score >= 0.5) and the other did not
+function agreementMatrix(results) {
+  const votes = new Map(); // analysis_id -> Map(model_name -> boolean)
+  const models = new Set();
+  for (const row of results) {
+    const score = resultScore(row);
+    if (score === null) continue;
+    models.add(row.model_name);
+    if (!votes.has(row.analysis_id)) votes.set(row.analysis_id, new Map());
+    votes.get(row.analysis_id).set(row.model_name, score >= 0.5);
+  }
+
+  const names = [...models].sort();
+  const cells = names.map((a) =>
+    names.map((b) => (a === b ? null : { compared: 0, disagreements: 0, rate: null }))
+  );
+  for (const byModel of votes.values()) {
+    for (let i = 0; i < names.length; i++) {
+      if (!byModel.has(names[i])) continue;
+      for (let j = 0; j < names.length; j++) {
+        if (i === j || !byModel.has(names[j])) continue;
+        cells[i][j].compared++;
+        if (byModel.get(names[i]) !== byModel.get(names[j])) cells[i][j].disagreements++;
+      }
+    }
+  }
+  for (const row of cells) {
+    for (const cell of row) {
+      if (cell && cell.compared > 0) cell.rate = cell.disagreements / cell.compared;
+    }
+  }
+  return { models: names, cells };
+}
+
+// Covers only the analyses `user` may see (their own, or unowned ones when signed out)
+export function computeStats(store, query, user = null, now = Date.now()) {
+  const analyses = store.select('analyses', { filters: [ownerFilter(user)] });
+  const results = store.select('analysis_results', {
+    filters: [{ column: 'analysis_id', op: 'in', value: analyses.map((row) => row.id) }],
+  });
+  // Rows without a score carry a placeholder confidence of 0; like the
+  // agreement matrix, the confidence figures leave them out
+  const scored = results.filter((row) => resultScore(row) !== null);
+  const completed = analyses.filter((row) => row.status === 'completed');
+  const outcomes = { ai_generated: 0, uncertain: 0, authentic: 0 };
+  for (const row of completed) {
+    if (row.verdict) outcomes[row.verdict.outcome]++;
+  }
+
+  const modelTotals = new Map();
+  for (const row of scored) {
+    const model = modelTotals.get(row.model_name) ?? { name: row.model_name, total: 0, aiDetected: 0 };
+    model.total++;
+    if (row.is_ai_generated) model.aiDetected++;
+    modelTotals.set(row.model_name, model);
+  }
+
+  return {
+    totals: {
+      analyses: analyses.length,
+      completed: completed.length,
+      aiDetected: outcomes.ai_generated,
+      uncertain: outcomes.uncertain,
+      authentic: outcomes.authentic,
+      averageConfidence: scored.length > 0
+        ? scored.reduce((sum, row) => sum + row.confidence_score, 0) / scored.length
+        : null,
+      byType: Object.fromEntries(FILE_TYPES.map((type) => [type, analyses.filter((row) => row.file_type === type).length])),
+    },
+    interval: query.interval,
+    series: timeSeries(analyses, query, now),
+    confidenceHistogram: confidenceHistogram(scored),
+    models: [...modelTotals.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    agreement: agreementMatrix(results),
+  };
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStore } from './store.js';
+import { computeStats, parseStatsQuery } from './stats.js';
+
+function tempStore() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stats-'));
+  return createStore(path.join(dir, 'db.json'));
+}
+
+const NOW = Date.parse('2026-03-04T12:00:00.000Z'); // a Wednesday
+
+const analysis = (fields = {}) => ({ file_name: 'a.jpg', file_type: 'image', file_url: 'x', status: 'completed', ...fields });
+const result = (analysisId, modelName, fields = {}) => ({
+  analysis_id: analysisId,
+  model_name: modelName,
+  is_ai_generated: true,
+  confidence_score: 80,
+  detection_type: 'ai_generated',
+  ...fields,
+});
+
+test('parseStatsQuery defaults and bounds the buckets', () => {
+  assert.deepEqual(parseStatsQuery(), { query: { interval: 'day', periods: 30 } });
+  assert.deepEqual(parseStatsQuery({ interval: 'week' }), { query: { interval: 'week', periods: 12 } });
+  assert.deepEqual(parseStatsQuery({ interval: 'day', periods: '7' }), { query: { interval: 'day', periods: 7 } });
+  assert.match(parseStatsQuery({ interval: 'month' }).error, /interval must be one of day, week/);
+  assert.match(parseStatsQuery({ periods: '0' }).error, /periods must be an integer/);
+  assert.match(parseStatsQuery({ periods: '367' }).error, /periods must be an integer/);
+});
+
+test('computeStats buckets analyses by UTC day and week', async () => {
+  const store = tempStore();
+  const verdict = (outcome) => ({ strategy: 'weighted', outcome, score: 0.5 });
+  await store.insert('analyses', analysis({ created_at: '2026-03-04T01:00:00.000Z', verdict: verdict('ai_generated') }));
+  await store.insert('analyses', analysis({ created_at: '2026-03-04T23:00:00.000Z', file_type: 'video', verdict: verdict('authentic') }));
+  await store.insert('analyses', analysis({ created_at: '2026-03-02T00:00:00.000Z', status: 'pending' }));
+  await store.insert('analyses', analysis({ created_at: '2025-01-01T00:00:00.000Z', verdict: verdict('uncertain') }));
+
+  const daily = computeStats(store, { interval: 'day', periods: 3 }, null, NOW);
+  assert.deepEqual(daily.series.map((b) => b.start), ['2026-03-02', '2026-03-03', '2026-03-04']);
+  assert.deepEqual(daily.series.map((b) => b.total), [1, 0, 2]);
+  assert.equal(daily.series[2].video, 1);
+  assert.equal(daily.series[2].aiRate, 0.5);
+  assert.equal(daily.series[0].aiRate, null);
+  assert.deepEqual(
+    { ...daily.totals, averageConfidence: undefined },
+    { analyses: 4, completed: 3, aiDetected: 1, uncertain: 1, authentic: 1, averageConfidence: undefined, byType: { image: 3, video: 1, audio: 0 } },
+  );
+
+  const weekly = computeStats(store, { interval: 'week', periods: 2 }, null, NOW);
+  assert.deepEqual(weekly.series.map((b) => b.start), ['2026-02-23', '2026-03-02']);
+  assert.deepEqual(weekly.series.map((b) => b.total), [0, 3]);
+});
+
+test('unscored results stay out of the confidence figures and model totals', async () => {
+  const store = tempStore();
+  const first = await store.insert('analyses', analysis());
+  const second = await store.insert('analyses', analysis());
+  await store.insert('analysis_results', result(first.id, 'A', { confidence_score: 90 }));
+  await store.insert('analysis_results', result(first.id, 'B', { is_ai_generated: false, confidence_score: 70, detection_type: 'authentic' }));
+  await store.insert('analysis_results', result(second.id, 'A', { confidence_score: 50 }));
+  // B could not score the second file
+  await store.insert('analysis_results', result(second.id, 'B', { is_ai_generated: false, confidence_score: 0, detection_type: 'uncertain', metadata: { score: null } }));
+
+  const stats = computeStats(store, { interval: 'day', periods: 1 }, null, NOW);
+  assert.equal(stats.totals.averageConfidence, 70);
+  assert.equal(stats.confidenceHistogram.reduce((sum, bin) => sum + bin.count, 0), 3);
+  assert.equal(stats.confidenceHistogram[0].count, 0);
+  assert.equal(stats.confidenceHistogram[9].count, 1);
+  assert.deepEqual(stats.models, [{ name: 'A', total: 2, aiDetected: 2 }, { name: 'B', total: 1, aiDetected: 0 }]);
+
+  // A and B disagree on the one file they both scored
+  assert.deepEqual(stats.agreement.models, ['A', 'B']);
+  assert.deepEqual(stats.agreement.cells[0][1], { compared: 1, disagreements: 1, rate: 1 });
+});
+
+test('computeStats only counts the analyses the user may see', async () => {
+  const store = tempStore();
+  const user = await store.insert('users', { email: 'a@example.com', password_hash: 'x' });
+  await store.insert('analyses', analysis({ user_id: user.id }));
+  await store.insert('analyses', analysis());
+  await store.insert('analyses', analysis());
+
+  assert.equal(computeStats(store, { interval: 'day', periods: 1 }, user, NOW).totals.analyses, 1);
+  assert.equal(computeStats(store, { interval: 'day', periods: 1 }, null, NOW).totals.analyses, 2);
+});
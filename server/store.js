@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// Embedded JSON-file store mirroring supabase/migrations. Each table lists its
+// columns with defaults and the same CHECK constraints as the SQL schema, so
+// rows written here can be loaded into Supabase unchanged.
+
+const now = () => new Date().toISOString();
+
+const TABLES = {
+  analyses: {
+    columns: {
+      id: { default: () => crypto.randomUUID() },
+      user_id: { default: () => null, references: 'users' },
+      file_name: { required: true },
+      file_type: { required: true, oneOf: ['image', 'video', 'audio'] },
+      file_url: { required: true },
+      file_size: { default: () => 0, check: (v) => Number.isInteger(v) && v >= 0 },
+      status: { default: () => 'pending', oneOf: ['pending', 'processing', 'completed', 'failed'] },
+      created_at: { default: now },
+      completed_at: { default: () => null },
+      file_sha256: { default: () => null, check: (v) => /^[0-9a-f]{64}$/.test(v) },
+      request_id: { default: () => null },
+      verdict: { default: () => null },
+      receipt: { default: () => null },
+      provenance: { default: () => null },
+      image_phash: { default: () => null, check: (v) => /^[0-9a-f]{16}$/.test(v) },
+      image_dhash: { default: () => null, check: (v) => /^[0-9a-f]{16}$/.test(v) },
+      audio_fingerprint: { default: () => null, check: (v) => /^([0-9a-f]{6})+$/.test(v) },
+    },
+  },
+  analysis_results: {
+    columns: {
+      id: { default: () => crypto.randomUUID() },
+      analysis_id: { required: true, references: 'analyses' },
+      model_name: { required: true },
+      model_version: { default: () => 'v1' },
+      is_ai_generated: { required: true, check: (v) => typeof v === 'boolean' },
+      // numeric(5,2)
+      confidence_score: {
+        required: true,
+        check: (v) => typeof v === 'number' && v >= 0 && v <= 100,
+        normalize: (v) => Math.round(v * 100) / 100,
+      },
+      detection_type: { required: true, oneOf: ['deepfake', 'ai_generated', 'authentic', 'uncertain'] },
+      metadata: { default: () => ({}) },
+      created_at: { default: now },
+    },
+    // ON DELETE CASCADE
+    parent: { table: 'analyses', column: 'analysis_id' },
+  },
+  // Accounts for the local server's own sign-in (see auth.js). Supabase
+  // deployments use Supabase Auth's `auth.users` instead, so these two
+  // tables have no migration.
+  users: {
+    columns: {
+      id: { default: () => crypto.randomUUID() },
+      email: { required: true, unique: true },
+      password_hash: { required: true },
+      created_at: { default: now },
+    },
+  },
+  sessions: {
+    columns: {
+      // SHA-256 of the bearer token; the token itself is never stored
+      id: { required: true },
+      user_id: { required: true, references: 'users' },
+      created_at: { default: now },
+      expires_at: { required: true },
+    },
+    parent: { table: 'users', column: 'user_id' },
+  },
+  // Team workspaces (see workspaces.js); mirrors
+  // 20261019140000_add_workspaces_and_cases.sql
+  workspaces: {
+    columns: {
+      id: { default: () => crypto.randomUUID() },
+      name: { required: true, check: (v) => typeof v === 'string' && v.trim().length > 0 },
+      created_by: { required: true, references: 'users' },
+      created_at: { default: now },
+    },
+  },
+  workspace_members: {
+    columns: {
+      id: { default: () => crypto.randomUUID() },
+      workspace_id: { required: true, references: 'workspaces' },
+      user_id: { required: true, references: 'users' },
+      role: { required: true, oneOf: ['owner', 'reviewer', 'viewer'] },
+      created_at: { default: now },
+    },
+    parent: { table: 'workspaces', column: 'workspace_id' },
+  },
+  cases: {
+    columns: {
+      id: { default: () => crypto.randomUUID() },
+      workspace_id: { required: true, references: 'workspaces' },
+      title: { required: true, check: (v) => typeof v === 'string' && v.trim().length > 0 },
+      description: { default: () => '' },
+      status: { default: () => 'open', oneOf: ['open', 'in_review', 'closed'] },
+      created_by: { required: true, references: 'users' },
+      created_at: { default: now },
+      updated_at: { default: now },
+    },
+    parent: { table: 'workspaces', column: 'workspace_id' },
+  },
+  case_analyses: {
+    columns: {
+      id: { default: () => crypto.randomUUID() },
+      case_id: { required: true, references: 'cases' },
+      analysis_id: { required: true, references: 'analyses' },
+      added_by: { required: true, references: 'users' },
+      created_at: { default: now },
+    },
+    parent: { table: 'cases', column: 'case_id' },
+  },
+};
+
+export class StoreError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'StoreError';
+    this.status = status;
+  }
+}
+
+function validate(tableName, row) {
+  const { columns } = TABLES[tableName];
+  for (const key of Object.keys(row)) {
+    if (!(key in columns)) throw new StoreError(`Unknown column ${tableName}.${key}`);
+  }
+
+  for (const [key, col] of Object.entries(columns)) {
+    const value = row[key];
+    if (value === undefined || value === null) {
+      if (col.required) throw new StoreError(`${tableName}.${key} is required`);
+      continue;
+    }
+    if (col.oneOf && !col.oneOf.includes(value)) {
+      throw new StoreError(`${tableName}.${key} must be one of ${col.oneOf.join(', ')}`);
+    }
+    if (col.check && !col.check(value)) {
+      throw new StoreError(`${tableName}.${key} violates check constraint`);
+    }
+  }
+}
+
+function compare(a, b) {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+}
+
+const OPERATORS = {
+  eq: (a, b) => String(a) === String(b),
+  neq: (a, b) => String(a) !== String(b),
+  gt: (a, b) => a !== null && compare(a, b) > 0,
+  gte: (a, b) => a !== null && compare(a, b) >= 0,
+  lt: (a, b) => a !== null && compare(a, b) < 0,
+  lte: (a, b) => a !== null && compare(a, b) <= 0,
+  in: (a, b) => b.map(String).includes(String(a)),
+  // PostgREST's `is`, for null and booleans only
+  is: (a, b) => a === ({ null: null, true: true, false: false })[b],
+};
+
+export function createStore(filePath) {
+  let data = Object.fromEntries(Object.keys(TABLES).map((t) => [t, []]));
+
+  if (fs.existsSync(filePath)) {
+    const loaded = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    data = { ...data, ...loaded };
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  // Writes go through one promise chain so concurrent requests never
+  // interleave; each write replaces the file atomically via rename.
+  let pending = Promise.resolve();
+  function persist() {
+    const snapshot = JSON.stringify(data);
+    pending = pending.then(async () => {
+      const tmp = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmp, snapshot);
+      await fs.promises.rename(tmp, filePath);
+    }).catch((err) => console.error('Store write failed:', err));
+    return pending;
+  }
+
+  function table(name) {
+    if (!TABLES[name]) throw new StoreError(`Unknown table ${name}`, 404);
+    return data[name];
+  }
+
+  function normalize(tableName, row) {
+    const { columns } = TABLES[tableName];
+    // Build in schema column order; unknown keys are kept so validate() can reject them
+    const out = {};
+    for (const [key, col] of Object.entries(columns)) {
+      out[key] = row[key] === undefined && col.default ? col.default() : row[key];
+      if (out[key] !== null && out[key] !== undefined && col.normalize) out[key] = col.normalize(out[key]);
+    }
+    for (const key of Object.keys(row)) {
+      if (!(key in out)) out[key] = row[key];
+    }
+    return out;
+  }
+
+  function checkUnique(tableName, row) {
+    for (const [key, col] of Object.entries(TABLES[tableName].columns)) {
+      if (!col.unique || row[key] === null || row[key] === undefined) continue;
+      if (table(tableName).some((r) => r.id !== row.id && r[key] === row[key])) {
+        throw new StoreError(`${tableName}.${key} ${row[key]} already exists`, 409);
+      }
+    }
+  }
+
+  // ON DELETE CASCADE down every level of `parent` links
+  function removeChildren(tableName, ids) {
+    for (const [childName, def] of Object.entries(TABLES)) {
+      if (def.parent?.table !== tableName) continue;
+      const removed = data[childName].filter((r) => ids.includes(r[def.parent.column])).map((r) => r.id);
+      if (removed.length === 0) continue;
+      data[childName] = data[childName].filter((r) => !removed.includes(r.id));
+      removeChildren(childName, removed);
+    }
+  }
+
+  function checkReferences(tableName, row) {
+    for (const [key, col] of Object.entries(TABLES[tableName].columns)) {
+      if (!col.references || row[key] === null || row[key] === undefined) continue;
+      if (!table(col.references).some((r) => r.id === row[key])) {
+        throw new StoreError(`${tableName}.${key} references missing ${col.references} row ${row[key]}`);
+      }
+    }
+  }
+
+  return {
+    async insert(tableName, row) {
+      const rows = table(tableName);
+      const full = normalize(tableName, row);
+      validate(tableName, full);
+      checkUnique(tableName, full);
+      checkReferences(tableName, full);
+      if (rows.some((r) => r.id === full.id)) throw new StoreError(`Duplicate ${tableName}.id ${full.id}`, 409);
+      rows.push(full);
+      await persist();
+      return full;
+    },
+
+    async update(tableName, id, patch) {
+      const rows = table(tableName);
+      const index = rows.findIndex((r) => r.id === id);
+      if (index === -1) throw new StoreError(`${tableName} row ${id} not found`, 404);
+      const next = normalize(tableName, { ...rows[index], ...patch, id });
+      validate(tableName, next);
+      checkUnique(tableName, next);
+      checkReferences(tableName, next);
+      rows[index] = next;
+      await persist();
+      return next;
+    },
+
+    async remove(tableName, id) {
+      const rows = table(tableName);
+      const index = rows.findIndex((r) => r.id === id);
+      if (index === -1) return false;
+      rows.splice(index, 1);
+      removeChildren(tableName, [id]);
+      await persist();
+      return true;
+    },
+
+    get(tableName, id) {
+      return table(tableName).find((r) => r.id === id) ?? null;
+    },
+
+    // filters: [{ column, op, value }], order: [{ column, ascending }]
+    select(tableName, { filters = [], order = [], limit, offset = 0 } = {}) {
+      const { columns } = TABLES[tableName] ?? {};
+      let rows = table(tableName);
+
+      for (const f of filters) {
+        if (!(f.column in columns)) throw new StoreError(`Unknown column ${tableName}.${f.column}`);
+        const op = OPERATORS[f.op];
+        if (!op) throw new StoreError(`Unsupported operator ${f.op}`);
+        rows = rows.filter((r) => op(r[f.column] ?? null, f.value));
+      }
+
+      if (order.length > 0) {
+        rows = [...rows].sort((a, b) => {
+          for (const o of order) {
+            const c = compare(a[o.column], b[o.column]);
+            if (c !== 0) return o.ascending ? c : -c;
+          }
+          return 0;
+        });
+      }
+
+      rows = rows.slice(offset, limit === undefined ? undefined : offset + limit);
+      return rows.map((r) => ({ ...r }));
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStore } from './store.js';
+
+function tempStore() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-'));
+  return { store: createStore(path.join(dir, 'db.json')), filePath: path.join(dir, 'db.json') };
+}
+
+const analysis = (fields = {}) => ({ file_name: 'a.jpg', file_type: 'image', file_url: 'local://a.jpg', ...fields });
+const result = (analysisId, fields = {}) => ({
+  analysis_id: analysisId,
+  model_name: 'Model',
+  is_ai_generated: true,
+  confidence_score: 80,
+  detection_type: 'ai_generated',
+  ...fields,
+});
+
+test('insert fills defaults and persists the row', async () => {
+  const { store, filePath } = tempStore();
+  const row = await store.insert('analyses', analysis());
+  assert.equal(row.status, 'pending');
+  assert.equal(row.user_id, null);
+  assert.equal(row.file_size, 0);
+  assert.equal(JSON.parse(fs.readFileSync(filePath, 'utf8')).analyses[0].id, row.id);
+});
+
+test('required, oneOf and check constraints reject bad rows with a 400', async () => {
+  const { store } = tempStore();
+  await assert.rejects(store.insert('analyses', { file_type: 'image', file_url: 'x' }), { status: 400, message: /file_name is required/ });
+  await assert.rejects(store.insert('analyses', analysis({ file_type: 'pdf' })), /must be one of/);
+  await assert.rejects(store.insert('analyses', analysis({ file_size: -1 })), /violates check constraint/);
+  await assert.rejects(store.insert('analyses', analysis({ file_sha256: 'not-a-hash' })), /violates check constraint/);
+  await assert.rejects(store.insert('analyses', analysis({ colour: 'red' })), /Unknown column analyses.colour/);
+
+  const { id } = await store.insert('analyses', analysis());
+  await assert.rejects(store.insert('analysis_results', result(id, { confidence_score: 101 })), /violates check constraint/);
+  await assert.rejects(store.update('analyses', id, { status: 'done' }), /must be one of/);
+});
+
+test('confidence_score is rounded like numeric(5,2)', async () => {
+  const { store } = tempStore();
+  const { id } = await store.insert('analyses', analysis());
+  const row = await store.insert('analysis_results', result(id, { confidence_score: 12.3456 }));
+  assert.equal(row.confidence_score, 12.35);
+});
+
+test('unique columns and duplicate ids answer 409', async () => {
+  const { store } = tempStore();
+  await store.insert('users', { email: 'a@example.com', password_hash: 'x' });
+  await assert.rejects(store.insert('users', { email: 'a@example.com', password_hash: 'y' }), { status: 409 });
+
+  const other = await store.insert('users', { email: 'b@example.com', password_hash: 'y' });
+  await assert.rejects(store.update('users', other.id, { email: 'a@example.com' }), { status: 409 });
+  await assert.rejects(store.insert('users', { id: other.id, email: 'c@example.com', password_hash: 'z' }), { status: 409 });
+});
+
+test('references must point at existing rows', async () => {
+  const { store } = tempStore();
+  await assert.rejects(store.insert('analysis_results', result('missing')), /references missing analyses row/);
+  await assert.rejects(store.insert('analyses', analysis({ user_id: 'nobody' })), /references missing users row/);
+});
+
+test('removing a row cascades down every parent link', async () => {
+  const { store } = tempStore();
+  const user = await store.insert('users', { email: 'a@example.com', password_hash: 'x' });
+  const workspace = await store.insert('workspaces', { name: 'Team', created_by: user.id });
+  await store.insert('workspace_members', { workspace_id: workspace.id, user_id: user.id, role: 'owner' });
+  const item = await store.insert('cases', { workspace_id: workspace.id, title: 'Case', created_by: user.id });
+  const upload = await store.insert('analyses', analysis({ user_id: user.id }));
+  await store.insert('case_analyses', { case_id: item.id, analysis_id: upload.id, added_by: user.id });
+  await store.insert('analysis_results', result(upload.id));
+
+  assert.equal(await store.remove('workspaces', workspace.id), true);
+  assert.equal(store.select('workspace_members').length, 0);
+  assert.equal(store.select('cases').length, 0);
+  assert.equal(store.select('case_analyses').length, 0);
+  // Analyses are not children of cases, so they and their results stay
+  assert.equal(store.select('analyses').length, 1);
+  assert.equal(store.select('analysis_results').length, 1);
+
+  await store.remove('analyses', upload.id);
+  assert.equal(store.select('analysis_results').length, 0);
+  assert.equal(await store.remove('analyses', upload.id), false);
+});
+
+test('select filters, orders and pages', async () => {
+  const { store } = tempStore();
+  for (const [name, size] of [['b.jpg', 2], ['a.jpg', 1], ['c.jpg', 3]]) {
+    await store.insert('analyses', analysis({ file_name: name, file_size: size }));
+  }
+
+  const names = (rows) => rows.map((r) => r.file_name);
+  assert.deepEqual(names(store.select('analyses', { order: [{ column: 'file_name', ascending: true }] })), ['a.jpg', 'b.jpg', 'c.jpg']);
+  assert.deepEqual(names(store.select('analyses', {
+    filters: [{ column: 'file_size', op: 'gte', value: 2 }],
+    order: [{ column: 'file_size', ascending: false }],
+  })), ['c.jpg', 'b.jpg']);
+  assert.deepEqual(names(store.select('analyses', {
+    filters: [{ column: 'file_name', op: 'in', value: ['a.jpg', 'c.jpg'] }],
+    order: [{ column: 'file_name', ascending: true }],
+    limit: 1,
+    offset: 1,
+  })), ['c.jpg']);
+  assert.equal(store.select('analyses', { filters: [{ column: 'user_id', op: 'is', value: 'null' }] }).length, 3);
+  assert.throws(() => store.select('analyses', { filters: [{ column: 'nope', op: 'eq', value: 1 }] }), /Unknown column/);
+  assert.throws(() => store.select('analyses', { filters: [{ column: 'file_name', op: 'like', value: 'a' }] }), /Unsupported operator/);
+});
+
+test('a new store loads the rows an earlier one wrote', async () => {
+  const { store, filePath } = tempStore();
+  const row = await store.insert('analyses', analysis());
+  assert.deepEqual(createStore(filePath).get('analyses', row.id), row);
+});
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import crypto from 'crypto';
+import { runDetectors, statusFromVerdict } from './providers/index.js';
+import { computeVerdict } from '../shared/verdict.js';
+
+const run = promisify(execFile);
+
+// Keyframe sampling for video uploads. Shells out to ffmpeg/ffprobe, which
+// must be on PATH or pointed to with FFMPEG_PATH / FFPROBE_PATH.
+export function createFrameSampler({ ffmpegPath = 'ffmpeg', ffprobePath = 'ffprobe', frameCount = 8 } = {}) {
+  async function probeDuration(filePath) {
+    const { stdout } = await run(ffprobePath, [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      filePath,
+    ]);
+    const duration = Number.parseFloat(stdout.trim());
+    if (!Number.isFinite(duration) || duration <= 0) throw new Error('Could not read video duration');
+    return duration;
+  }
+
+  // Grabs the nearest keyframe to `time` as a JPEG (input-side -ss seeks to keyframes)
+  async function grabFrame(filePath, time, outPath) {
+    await run(ffmpegPath, [
+      '-v', 'error',
+      '-ss', time.toFixed(3),
+      '-i', filePath,
+      '-frames:v', '1',
+      '-q:v', '3',
+      '-y', outPath,
+    ]);
+    return fs.promises.readFile(outPath);
+  }
+
+  return {
+    frameCount,
+
+    // Resolves to `{ duration, frames: [{ index, time, buffer }] }` with frames
+    // spread evenly over the clip.
+    async sample(buffer, fileName) {
+      const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'frames-'));
+      const input = path.join(dir, `input${path.extname(fileName) || '.mp4'}`);
+
+      try {
+        await fs.promises.writeFile(input, buffer);
+        const duration = await probeDuration(input);
+
+        const frames = [];
+        for (let index = 0; index < frameCount; index++) {
+          const time = (duration * (index + 0.5)) / frameCount;
+          const frame = await grabFrame(input, time, path.join(dir, `frame-${index}.jpg`));
+          frames.push({ index, time, buffer: frame });
+        }
+        return { duration, frames };
+      } catch (err) {
+        if (err.code === 'ENOENT' && err.syscall?.startsWith('spawn')) {
+          throw new Error('Video analysis needs ffmpeg and ffprobe. Install them or set FFMPEG_PATH / FFPROBE_PATH.');
+        }
+        throw err;
+      } finally {
+        fs.promises.rm(dir, { recursive: true, force: true }).catch(() => {});
+      }
+    },
+  };
+}
+
+const mean = (xs) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+// Folds one model's per-frame answers into a single clip-level model result.
+function aggregateModel(entries) {
+  const scored = entries.filter((e) => typeof e.model.score === 'number');
+  const score = scored.length > 0 ? mean(scored.map((e) => e.model.score)) : null;
+  const worst = scored.reduce((a, b) => (b.model.score > a.model.score ? b : a), scored[0]);
+  const flagged = scored.filter((e) => e.model.score >= 0.5);
+  const calibrated = scored.filter((e) => e.model.calibrated);
+
+  const artifacts = [...new Set(flagged.flatMap((e) => e.model.metadata?.detectedArtifacts ?? []))];
+  const markers = [...new Set(scored.flatMap((e) => e.model.metadata?.authenticityMarkers ?? []))];
+  const { name, version, provider, metadata } = entries[0].model;
+
+  return {
+    name,
+    version,
+    provider,
+    status: score === null ? 'UNKNOWN' : score >= 0.5 ? 'MANIPULATED' : 'AUTHENTIC',
+    score,
+    ...(calibrated.length > 0 ? { rawScore: mean(calibrated.map((e) => e.model.rawScore)), calibrated: true } : {}),
+    detectionType: score === null
+      ? 'uncertain'
+      : score >= 0.5
+        ? (worst.model.detectionType && worst.model.detectionType !== 'authentic' ? worst.model.detectionType : 'ai_generated')
+        : 'authentic',
+    metadata: {
+      ...(metadata?.algorithmUsed ? { algorithmUsed: metadata.algorithmUsed } : {}),
+      fileType: 'video',
+      analysisTimestamp: new Date().toISOString(),
+      sampledFrames: entries.length,
+      flaggedFrames: flagged.length,
+      frames: entries.map((e) => ({
+        index: e.frame.index,
+        time: e.frame.time,
+        score: e.model.score,
+        ...(e.model.regions ? { regions: e.model.regions } : {}),
+      })),
+      ...(score !== null && score >= 0.5 ? { detectedArtifacts: artifacts } : { authenticityMarkers: markers }),
+    },
+  };
+}
+
+// Scores each sampled frame with every provider except the metadata
+// forensics, then reports one result per model for the whole clip plus a
+// per-frame `timeline` of AI scores.
+export async function detectVideo(providers, sampler, upload, { verdictConfig, calibration } = {}) {
+  const frameProviders = providers.filter((p) => !p.readsFileMetadata);
+  if (frameProviders.length === 0) throw new Error('No detector provider can score video frames; DETECTOR_PROVIDERS only lists metadata');
+  const { duration, frames } = await sampler.sample(upload.buffer, upload.fileName);
+  const onFrame = upload.onFrame ?? (() => {});
+
+  const byModel = new Map();
+  const timeline = [];
+  const errors = [];
+
+  for (const frame of frames) {
+    const detection = await runDetectors(frameProviders, {
+      buffer: frame.buffer,
+      fileName: `frame-${frame.index}.jpg`,
+      mimeType: 'image/jpeg',
+      fileType: 'image',
+      onModelStart: frame.index === 0 ? upload.onModelStart : undefined,
+    }, { verdictConfig, calibration });
+
+    for (const model of detection.models) {
+      const key = `${model.provider}:${model.name}`;
+      if (!byModel.has(key)) byModel.set(key, []);
+      byModel.get(key).push({ frame, model });
+    }
+    for (const e of detection.errors ?? []) errors.push({ ...e, frame: frame.index });
+
+    const point = {
+      index: frame.index,
+      time: frame.time,
+      score: detection.score,
+      models: detection.models.map((m) => ({ name: m.name, provider: m.provider, score: m.score })),
+    };
+    timeline.push(point);
+    onFrame(point);
+  }
+
+  const models = [...byModel.values()].map(aggregateModel);
+  models.forEach((m) => upload.onModel?.(m));
+
+  const verdict = computeVerdict(models, verdictConfig);
+
+  return {
+    requestId: crypto.randomUUID(),
+    status: statusFromVerdict(verdict),
+    score: verdict.score,
+    verdict,
+    models,
+    calibration: calibration ? { method: calibration.method, fittedAt: calibration.fittedAt } : null,
+    duration,
+    timeline,
+    errors,
+  };
+}
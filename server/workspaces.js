@@ -0,0 +1,111 @@
+import { canView } from './auth.js';
+
+// Team workspaces and the cases inside them. A workspace has members with a
+// role; a case groups analyses under one investigation. Owners manage the
+// workspace and its members, reviewers create and edit cases, and viewers
+// only read. Analyses in a workspace's cases are visible to all its members,
+// on top of the uploader's own access (see ownerFilter in auth.js).
+
+export const ROLES = ['owner', 'reviewer', 'viewer'];
+export const CASE_STATUSES = ['open', 'in_review', 'closed'];
+
+// Roles allowed to take each action
+const PERMISSIONS = {
+  view: ROLES,
+  edit_cases: ['owner', 'reviewer'],
+  manage: ['owner'],
+};
+
+export function can(role, action) {
+  return role !== null && PERMISSIONS[action].includes(role);
+}
+
+export function membership(store, workspaceId, userId) {
+  return store.select('workspace_members', {
+    filters: [
+      { column: 'workspace_id', op: 'eq', value: workspaceId },
+      { column: 'user_id', op: 'eq', value: userId },
+    ],
+  })[0] ?? null;
+}
+
+export function roleIn(store, workspaceId, user) {
+  return user ? membership(store, workspaceId, user.id)?.role ?? null : null;
+}
+
+export function countOwners(store, workspaceId) {
+  return store.select('workspace_members', {
+    filters: [
+      { column: 'workspace_id', op: 'eq', value: workspaceId },
+      { column: 'role', op: 'eq', value: 'owner' },
+    ],
+  }).length;
+}
+
+// Ids of the analyses filed in cases of any workspace where `user`'s role
+// allows `action`
+export function sharedAnalysisIds(store, user, action = 'view') {
+  if (!user) return new Set();
+  const workspaceIds = store
+    .select('workspace_members', { filters: [{ column: 'user_id', op: 'eq', value: user.id }] })
+    .filter((row) => can(row.role, action))
+    .map((row) => row.workspace_id);
+  const caseIds = store
+    .select('cases', { filters: [{ column: 'workspace_id', op: 'in', value: workspaceIds }] })
+    .map((row) => row.id);
+  return new Set(store
+    .select('case_analyses', { filters: [{ column: 'case_id', op: 'in', value: caseIds }] })
+    .map((row) => row.analysis_id));
+}
+
+// Whether `user` may read `analysis`: their own upload (canView in auth.js)
+// or one filed in a case of their workspaces
+export function canSee(store, user, analysis) {
+  return canView(user, analysis) || sharedAnalysisIds(store, user).has(analysis.id);
+}
+
+// Parses a workspace body `{ name }`; returns `{ fields }` or `{ error }`
+export function parseWorkspace(body = {}) {
+  if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name is required' };
+  return { fields: { name: body.name.trim() } };
+}
+
+// Parses a case body `{ title, description, status }`. With `partial`, as for
+// PATCH, every field is optional. Returns `{ fields }` or `{ error }`.
+export function parseCase(body = {}, { partial = false } = {}) {
+  const fields = {};
+  if (body.title !== undefined || !partial) {
+    if (typeof body.title !== 'string' || !body.title.trim()) return { error: 'title is required' };
+    fields.title = body.title.trim();
+  }
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') return { error: 'description must be a string' };
+    fields.description = body.description.trim();
+  }
+  if (body.status !== undefined) {
+    if (!CASE_STATUSES.includes(body.status)) return { error: `status must be one of ${CASE_STATUSES.join(', ')}` };
+    fields.status = body.status;
+  }
+  return { fields };
+}
+
+export function parseRole(role) {
+  return ROLES.includes(role) ? { role } : { error: `role must be one of ${ROLES.join(', ')}` };
+}
+
+// A case with its analyses (newest first, each with a `results` array), in the
+// shape of history search items
+export function caseDetail(store, row) {
+  const links = store.select('case_analyses', { filters: [{ column: 'case_id', op: 'eq', value: row.id }] });
+  const analyses = store.select('analyses', {
+    filters: [{ column: 'id', op: 'in', value: links.map((link) => link.analysis_id) }],
+    order: [{ column: 'created_at', ascending: false }],
+  });
+  const results = store.select('analysis_results', {
+    filters: [{ column: 'analysis_id', op: 'in', value: analyses.map((analysis) => analysis.id) }],
+    order: [{ column: 'created_at', ascending: true }],
+  });
+  const byAnalysis = new Map(analyses.map((analysis) => [analysis.id, []]));
+  for (const result of results) byAnalysis.get(result.analysis_id).push(result);
+  return { ...row, analyses: analyses.map((analysis) => ({ ...analysis, results: byAnalysis.get(analysis.id) })) };
+}
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStore } from './store.js';
+import {
+  can,
+  canSee,
+  caseDetail,
+  countOwners,
+  parseCase,
+  parseRole,
+  parseWorkspace,
+  roleIn,
+  sharedAnalysisIds,
+} from './workspaces.js';
+
+function tempStore() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-'));
+  return createStore(path.join(dir, 'db.json'));
+}
+
+// A workspace with an owner, a reviewer and a viewer, one case holding the
+// owner's upload, and an outsider with an upload of their own
+async function seed() {
+  const store = tempStore();
+  const user = (email) => store.insert('users', { email, password_hash: 'x' });
+  const owner = await user('owner@example.com');
+  const reviewer = await user('reviewer@example.com');
+  const viewer = await user('viewer@example.com');
+  const outsider = await user('outsider@example.com');
+
+  const workspace = await store.insert('workspaces', { name: 'Team', created_by: owner.id });
+  for (const [member, role] of [[owner, 'owner'], [reviewer, 'reviewer'], [viewer, 'viewer']]) {
+    await store.insert('workspace_members', { workspace_id: workspace.id, user_id: member.id, role });
+  }
+  const upload = (owned, name) => store.insert('analyses', { file_name: name, file_type: 'image', file_url: 'x', user_id: owned.id });
+  const filed = await upload(owner, 'filed.jpg');
+  const unfiled = await upload(owner, 'unfiled.jpg');
+  const foreign = await upload(outsider, 'foreign.jpg');
+  const item = await store.insert('cases', { workspace_id: workspace.id, title: 'Case', created_by: owner.id });
+  await store.insert('case_analyses', { case_id: item.id, analysis_id: filed.id, added_by: owner.id });
+
+  return { store, owner, reviewer, viewer, outsider, workspace, item, filed, unfiled, foreign };
+}
+
+test('can maps each role to the actions it allows', () => {
+  assert.deepEqual(['owner', 'reviewer', 'viewer', null].map((role) => can(role, 'view')), [true, true, true, false]);
+  assert.deepEqual(['owner', 'reviewer', 'viewer', null].map((role) => can(role, 'edit_cases')), [true, true, false, false]);
+  assert.deepEqual(['owner', 'reviewer', 'viewer', null].map((role) => can(role, 'manage')), [true, false, false, false]);
+});
+
+test('roleIn and countOwners read the membership rows', async () => {
+  const { store, owner, viewer, outsider, workspace } = await seed();
+  assert.equal(roleIn(store, workspace.id, owner), 'owner');
+  assert.equal(roleIn(store, workspace.id, viewer), 'viewer');
+  assert.equal(roleIn(store, workspace.id, outsider), null);
+  assert.equal(roleIn(store, workspace.id, null), null);
+  assert.equal(countOwners(store, workspace.id), 1);
+});
+
+test('sharedAnalysisIds only includes cases in workspaces where the role allows the action', async () => {
+  const { store, reviewer, viewer, outsider, filed } = await seed();
+  assert.deepEqual([...sharedAnalysisIds(store, viewer)], [filed.id]);
+  assert.deepEqual([...sharedAnalysisIds(store, viewer, 'edit_cases')], []);
+  assert.deepEqual([...sharedAnalysisIds(store, reviewer, 'edit_cases')], [filed.id]);
+  assert.deepEqual([...sharedAnalysisIds(store, reviewer, 'manage')], []);
+  assert.deepEqual([...sharedAnalysisIds(store, outsider)], []);
+  assert.deepEqual([...sharedAnalysisIds(store, null)], []);
+});
+
+test('canSee allows the uploader and members of a case that holds the analysis', async () => {
+  const { store, owner, viewer, outsider, filed, unfiled, foreign } = await seed();
+  assert.equal(canSee(store, owner, unfiled), true);
+  assert.equal(canSee(store, viewer, filed), true);
+  assert.equal(canSee(store, viewer, unfiled), false);
+  assert.equal(canSee(store, viewer, foreign), false);
+  assert.equal(canSee(store, outsider, filed), false);
+  assert.equal(canSee(store, outsider, foreign), true);
+  assert.equal(canSee(store, null, filed), false);
+});
+
+test('removing a member takes away their view of the case', async () => {
+  const { store, viewer, workspace, filed } = await seed();
+  const [row] = store.select('workspace_members', { filters: [{ column: 'user_id', op: 'eq', value: viewer.id }] });
+  await store.remove('workspace_members', row.id);
+  assert.equal(roleIn(store, workspace.id, viewer), null);
+  assert.equal(canSee(store, viewer, filed), false);
+});
+
+test('caseDetail lists the case analyses with their results', async () => {
+  const { store, item, filed } = await seed();
+  await store.insert('analysis_results', {
+    analysis_id: filed.id,
+    model_name: 'Model',
+    is_ai_generated: false,
+    confidence_score: 10,
+    detection_type: 'authentic',
+  });
+  const detail = caseDetail(store, item);
+  assert.equal(detail.title, 'Case');
+  assert.deepEqual(detail.analyses.map((a) => a.id), [filed.id]);
+  assert.deepEqual(detail.analyses[0].results.map((r) => r.model_name), ['Model']);
+});
+
+test('parseWorkspace, parseCase and parseRole validate request bodies', () => {
+  assert.deepEqual(parseWorkspace({ name: '  Team ' }), { fields: { name: 'Team' } });
+  assert.deepEqual(parseWorkspace({ name: ' ' }), { error: 'name is required' });
+  assert.deepEqual(parseWorkspace(), { error: 'name is required' });
+
+  assert.deepEqual(parseCase({ title: ' Case ', description: ' Notes ', status: 'in_review' }), {
+    fields: { title: 'Case', description: 'Notes', status: 'in_review' },
+  });
+  assert.deepEqual(parseCase({ description: 'x' }), { error: 'title is required' });
+  assert.deepEqual(parseCase({ status: 'closed' }, { partial: true }), { fields: { status: 'closed' } });
+  assert.deepEqual(parseCase({ title: '' }, { partial: true }), { error: 'title is required' });
+  assert.deepEqual(parseCase({ title: 'Case', description: 3 }), { error: 'description must be a string' });
+  assert.deepEqual(parseCase({ title: 'Case', status: 'done' }), { error: 'status must be one of open, in_review, closed' });
+
+  assert.deepEqual(parseRole('reviewer'), { role: 'reviewer' });
+  assert.deepEqual(parseRole('admin'), { error: 'role must be one of owner, reviewer, viewer' });
+});
@@ -0,0 +1,40 @@
+export interface ModelInfo {
+  name: string;
+  version: string;
+  specialty: "deepfake" | "ai_generated" | "authentic";
+}
+
+// An area of an image a model's finding refers to. Coordinates are fractions
+// of the image's width and height, so they hold at any display size.
+export interface Region {
+  label: string;
+  // 0..1 likelihood that this area is manipulated
+  score: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Optional mask outline as [x, y] points, in the same units
+  polygon?: [number, number][];
+}
+
+export interface ModelResult {
+  modelName: string;
+  modelVersion: string;
+  isAiGenerated: boolean;
+  confidenceScore: number;
+  detectionType: string;
+  processingTime: number;
+  metadata: Record<string, unknown>;
+  regions?: Region[];
+}
+
+export const AI_MODELS: ModelInfo[];
+
+export function seededRandom(hashHex: string, salt?: string): () => number;
+
+export function simulateModelAnalysis(
+  modelInfo: ModelInfo,
+  fileType: string,
+  random?: () => number
+): ModelResult;
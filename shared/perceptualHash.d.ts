@@ -0,0 +1,31 @@
+export interface NearDuplicateThresholds {
+  phash: number;
+  dhash: number;
+  audio: number;
+}
+
+export const NEAR_DUPLICATE: NearDuplicateThresholds;
+
+export const FINGERPRINT_SAMPLE_RATE: number;
+
+export function resizeGray(
+  gray: ArrayLike<number>,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number
+): Float64Array;
+
+export function imagePHash(gray: ArrayLike<number>, width: number, height: number): string;
+
+export function imageDHash(gray: ArrayLike<number>, width: number, height: number): string;
+
+export function audioFingerprint(samples: ArrayLike<number>): string;
+
+export function hammingDistance(a: string, b: string): number;
+
+export function fingerprintDistance(
+  a: string,
+  b: string,
+  options?: { maxOffset?: number; minOverlap?: number }
+): number | null;
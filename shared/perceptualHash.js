@@ -0,0 +1,184 @@
+// Perceptual hashes for near-duplicate lookup, shared by the browser (which
+// decodes the media and hashes it before upload) and the local server (which
+// compares the hashes against earlier analyses). Kept as plain JavaScript so
+// both can import it without a build step; types live in perceptualHash.d.ts.
+//
+// Images get a 64-bit DCT pHash and a 64-bit dHash, both as 16 hex digits.
+// Audio gets a chromaprint-style fingerprint: 24 bits per frame of 12-bin
+// chroma (how each pitch class changes over time and compares with its
+// neighbour), as 6 hex digits per frame.
+
+// Largest Hamming distances (out of 64) that still count as the same image
+// after resizing or recompression, and the largest bit error rate for audio
+export const NEAR_DUPLICATE = { phash: 10, dhash: 14, audio: 0.3 };
+
+export const FINGERPRINT_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const FRAME_HOP = 1365;
+const BITS_PER_FRAME = 24;
+
+// Box-filter downscale of a grayscale image (one value per pixel)
+export function resizeGray(gray, width, height, targetWidth, targetHeight) {
+  const out = new Float64Array(targetWidth * targetHeight);
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += gray[y * width + x];
+      }
+      out[ty * targetWidth + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+function bitsToHex(bits) {
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+// Low 8x8 DCT coefficients of a 32x32 thumbnail against their median
+export function imagePHash(gray, width, height) {
+  const size = 32;
+  const small = resizeGray(gray, width, height, size, size);
+  const cos = (i, u) => Math.cos(((2 * i + 1) * u * Math.PI) / (2 * size));
+
+  const coefficients = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) sum += small[y * size + x] * cos(x, u) * cos(y, v);
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is just overall brightness, so it is left out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coefficients.map((c) => (c > median ? 1 : 0)));
+}
+
+// Whether each pixel of a 9x8 thumbnail is brighter than its right neighbour
+export function imageDHash(gray, width, height) {
+  const small = resizeGray(gray, width, height, 9, 8);
+  const bits = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(small[y * 9 + x] > small[y * 9 + x + 1] ? 1 : 0);
+  }
+  return bitsToHex(bits);
+}
+
+// In-place radix-2 FFT; `re.length` must be a power of two
+function fft(re, im) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+// `samples` is mono audio at FINGERPRINT_SAMPLE_RATE
+export function audioFingerprint(samples) {
+  const window = Float64Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+  const binFrequency = FINGERPRINT_SAMPLE_RATE / FRAME_SIZE;
+  const pitchClass = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let k = 1; k < FRAME_SIZE / 2; k++) {
+    const freq = k * binFrequency;
+    if (freq >= 28 && freq <= 3520) pitchClass[k] = ((Math.round(12 * Math.log2(freq / 440)) % 12) + 12) % 12;
+  }
+
+  const chroma = [];
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += FRAME_HOP) {
+    const re = new Float64Array(FRAME_SIZE);
+    const im = new Float64Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) re[i] = samples[start + i] * window[i];
+    fft(re, im);
+
+    const bins = new Float64Array(12);
+    for (let k = 1; k < FRAME_SIZE / 2; k++) {
+      if (pitchClass[k] >= 0) bins[pitchClass[k]] += re[k] * re[k] + im[k] * im[k];
+    }
+    const norm = Math.hypot(...bins) || 1;
+    chroma.push(bins.map((b) => b / norm));
+  }
+
+  let hex = "";
+  chroma.forEach((frame, i) => {
+    const prev = chroma[Math.max(0, i - 1)];
+    const bits = [];
+    for (let b = 0; b < 12; b++) bits.push(frame[b] > prev[b] ? 1 : 0);
+    for (let b = 0; b < 12; b++) bits.push(frame[b] > frame[(b + 1) % 12] ? 1 : 0);
+    hex += bitsToHex(bits);
+  });
+  return hex;
+}
+
+function popcount(x) {
+  let n = 0;
+  for (; x; x &= x - 1) n++;
+  return n;
+}
+
+// Differing bits between two equal-length hex hashes
+export function hammingDistance(a, b) {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) distance += popcount(parseInt(a[i], 16) ^ parseInt(b[i], 16));
+  return distance;
+}
+
+const HEX_PER_FRAME = BITS_PER_FRAME / 4;
+
+// Lowest bit error rate between two fingerprints over small time shifts, or
+// null when they overlap by too few frames to tell
+export function fingerprintDistance(a, b, { maxOffset = 30, minOverlap = 20 } = {}) {
+  const frames = (hex) => Array.from({ length: Math.floor(hex.length / HEX_PER_FRAME) }, (_, i) =>
+    parseInt(hex.slice(i * HEX_PER_FRAME, (i + 1) * HEX_PER_FRAME), 16)
+  );
+  const fa = frames(a);
+  const fb = frames(b);
+
+  let best = null;
+  for (let offset = -maxOffset; offset <= maxOffset; offset++) {
+    let errors = 0;
+    let overlap = 0;
+    for (let i = Math.max(0, -offset); i < fa.length && i + offset < fb.length; i++) {
+      errors += popcount(fa[i] ^ fb[i + offset]);
+      overlap++;
+    }
+    if (overlap < minOverlap) continue;
+    const rate = errors / (overlap * BITS_PER_FRAME);
+    if (best === null || rate < best) best = rate;
+  }
+  return best;
+}
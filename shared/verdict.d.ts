@@ -0,0 +1,54 @@
+export type VerdictStrategy = "majority" | "weighted" | "max" | "calibrated";
+
+export type VerdictOutcome = "ai_generated" | "uncertain" | "authentic";
+
+export type VerdictLabel = "Likely AI" | "Unclear" | "Likely Real";
+
+export interface VerdictThresholds {
+  ai: number;
+  authentic: number;
+}
+
+export interface VerdictConfig {
+  strategy: VerdictStrategy;
+  thresholds: VerdictThresholds;
+  weights: Record<string, number>;
+  prior: number;
+}
+
+export interface VerdictConfigInput {
+  strategy?: VerdictStrategy | string;
+  thresholds?: Partial<VerdictThresholds>;
+  weights?: Record<string, number>;
+  prior?: number;
+}
+
+export interface ScoredModel {
+  name: string;
+  score: number | null;
+}
+
+export interface Verdict {
+  strategy: VerdictStrategy;
+  score: number | null;
+  outcome: VerdictOutcome;
+  label: VerdictLabel;
+  thresholds: VerdictThresholds;
+  modelCount: number;
+  aiVotes: number;
+  authenticVotes: number;
+}
+
+export const VERDICT_STRATEGIES: VerdictStrategy[];
+
+export const DEFAULT_VERDICT_CONFIG: VerdictConfig;
+
+export function resolveVerdictConfig(config?: VerdictConfigInput): VerdictConfig;
+
+export function verdictConfigFromEnv(get: (key: string) => string | undefined | null): VerdictConfig;
+
+export function outcomeFromScore(score: number | null | undefined, thresholds?: VerdictThresholds): VerdictOutcome;
+
+export function labelFromOutcome(outcome: VerdictOutcome): VerdictLabel;
+
+export function computeVerdict(models: ScoredModel[], config?: VerdictConfigInput): Verdict;
@@ -0,0 +1,156 @@
+// Ensemble verdict shared by the local Express server, the `analyze-content`
+// edge function and the UI, so every surface turns per-model scores into the
+// same overall call. Plain JavaScript for the same reason as
+// detectionModels.js; types live in verdict.d.ts.
+//
+// Model scores follow the RealityDefender convention: a 0..1 likelihood that
+// the media is AI-generated, or null when the model could not score it.
+
+export const VERDICT_STRATEGIES = ["majority", "weighted", "max", "calibrated"];
+
+export const DEFAULT_VERDICT_CONFIG = {
+  strategy: "weighted",
+  // Fused scores at or above `ai` are AI, at or below `authentic` are
+  // authentic, and anything in between is uncertain
+  thresholds: { ai: 0.7, authentic: 0.35 },
+  // Per-model reliability, keyed by model name; unlisted models weigh 1
+  weights: {},
+  // Base rate of AI media assumed by the calibrated strategy
+  prior: 0.5,
+};
+
+const LABELS = {
+  ai_generated: "Likely AI",
+  uncertain: "Unclear",
+  authentic: "Likely Real",
+};
+
+// Fills in defaults and rejects settings that would make verdicts meaningless
+export function resolveVerdictConfig(config = {}) {
+  const resolved = {
+    ...DEFAULT_VERDICT_CONFIG,
+    ...config,
+    thresholds: { ...DEFAULT_VERDICT_CONFIG.thresholds, ...config.thresholds },
+    weights: { ...DEFAULT_VERDICT_CONFIG.weights, ...config.weights },
+  };
+
+  if (!VERDICT_STRATEGIES.includes(resolved.strategy)) {
+    throw new Error(
+      `Unknown verdict strategy "${resolved.strategy}". Available: ${VERDICT_STRATEGIES.join(", ")}`
+    );
+  }
+  const { ai, authentic } = resolved.thresholds;
+  if (!(authentic >= 0 && authentic < ai && ai <= 1)) {
+    throw new Error("Verdict thresholds must satisfy 0 <= authentic < ai <= 1");
+  }
+  if (!(resolved.prior > 0 && resolved.prior < 1)) {
+    throw new Error("Verdict prior must be between 0 and 1");
+  }
+  for (const [name, weight] of Object.entries(resolved.weights)) {
+    if (typeof weight !== "number" || !(weight >= 0)) {
+      throw new Error(`Verdict weight for "${name}" must be a non-negative number`);
+    }
+  }
+  return resolved;
+}
+
+// Reads VERDICT_STRATEGY, VERDICT_AI_THRESHOLD, VERDICT_AUTHENTIC_THRESHOLD,
+// VERDICT_PRIOR and VERDICT_WEIGHTS (a JSON object of model name -> weight)
+// through `get`, e.g. `(key) => process.env[key]` or `Deno.env.get`.
+export function verdictConfigFromEnv(get) {
+  const number = (key) => {
+    const raw = get(key);
+    if (raw === undefined || raw === null || raw === "") return undefined;
+    const value = Number(raw);
+    if (Number.isNaN(value)) throw new Error(`${key} must be a number`);
+    return value;
+  };
+
+  const config = {};
+  const strategy = get("VERDICT_STRATEGY");
+  if (strategy) config.strategy = strategy.trim().toLowerCase();
+
+  const thresholds = {};
+  const ai = number("VERDICT_AI_THRESHOLD");
+  const authentic = number("VERDICT_AUTHENTIC_THRESHOLD");
+  if (ai !== undefined) thresholds.ai = ai;
+  if (authentic !== undefined) thresholds.authentic = authentic;
+  config.thresholds = thresholds;
+
+  const prior = number("VERDICT_PRIOR");
+  if (prior !== undefined) config.prior = prior;
+
+  const weights = get("VERDICT_WEIGHTS");
+  if (weights) {
+    try {
+      config.weights = JSON.parse(weights);
+    } catch {
+      throw new Error("VERDICT_WEIGHTS must be a JSON object of model name -> weight");
+    }
+  }
+
+  return resolveVerdictConfig(config);
+}
+
+export function outcomeFromScore(score, thresholds = DEFAULT_VERDICT_CONFIG.thresholds) {
+  if (score === null || score === undefined) return "uncertain";
+  if (score >= thresholds.ai) return "ai_generated";
+  if (score <= thresholds.authentic) return "authentic";
+  return "uncertain";
+}
+
+export function labelFromOutcome(outcome) {
+  return LABELS[outcome];
+}
+
+const EPSILON = 1e-4;
+const logit = (p) => {
+  const q = Math.min(1 - EPSILON, Math.max(EPSILON, p));
+  return Math.log(q / (1 - q));
+};
+const sigmoid = (x) => 1 / (1 + Math.exp(-x));
+
+const FUSE = {
+  // Share of models voting AI (score >= 0.5), so a split vote is uncertain
+  majority: (models) => models.filter((m) => m.score >= 0.5).length / models.length,
+
+  // Mean score weighted by model reliability
+  weighted: (models, weightOf) => {
+    const total = models.reduce((sum, m) => sum + weightOf(m), 0);
+    if (total === 0) return null;
+    return models.reduce((sum, m) => sum + weightOf(m) * m.score, 0) / total;
+  },
+
+  // The most suspicious model decides
+  max: (models) => Math.max(...models.map((m) => m.score)),
+
+  // Treats each score as a calibrated probability and combines them as
+  // independent evidence in log-odds space, each scaled by its reliability
+  calibrated: (models, weightOf, prior) => {
+    const base = logit(prior);
+    return sigmoid(models.reduce((sum, m) => sum + weightOf(m) * (logit(m.score) - base), base));
+  },
+};
+
+// `models` is a list of `{ name, score }`. Returns the fused score with its
+// outcome (`ai_generated` / `uncertain` / `authentic`) and display label.
+export function computeVerdict(models, config) {
+  const { strategy, thresholds, weights, prior } = resolveVerdictConfig(config);
+  const scored = models.filter((m) => typeof m.score === "number" && !Number.isNaN(m.score));
+  const weightOf = (m) => weights[m.name] ?? 1;
+
+  const score = scored.length > 0 ? FUSE[strategy](scored, weightOf, prior) : null;
+  const outcome = outcomeFromScore(score, thresholds);
+  const aiVotes = scored.filter((m) => m.score >= 0.5).length;
+
+  return {
+    strategy,
+    score,
+    outcome,
+    label: labelFromOutcome(outcome),
+    thresholds,
+    modelCount: scored.length,
+    aiVotes,
+    authenticVotes: scored.length - aiVotes,
+  };
+}
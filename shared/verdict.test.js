@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeVerdict,
+  outcomeFromScore,
+  labelFromOutcome,
+  resolveVerdictConfig,
+  verdictConfigFromEnv,
+} from "./verdict.js";
+
+const models = (...scores) => scores.map((score, i) => ({ name: `Model ${i + 1}`, score }));
+
+test("outcomeFromScore splits on the thresholds, inclusive at both ends", () => {
+  const thresholds = { ai: 0.7, authentic: 0.35 };
+  assert.equal(outcomeFromScore(0.7, thresholds), "ai_generated");
+  assert.equal(outcomeFromScore(0.69, thresholds), "uncertain");
+  assert.equal(outcomeFromScore(0.36, thresholds), "uncertain");
+  assert.equal(outcomeFromScore(0.35, thresholds), "authentic");
+  assert.equal(outcomeFromScore(null, thresholds), "uncertain");
+  assert.equal(labelFromOutcome("ai_generated"), "Likely AI");
+  assert.equal(labelFromOutcome("authentic"), "Likely Real");
+});
+
+test("weighted averages the scores by model reliability", () => {
+  const even = computeVerdict(models(0.9, 0.3));
+  assert.equal(even.strategy, "weighted");
+  assert.ok(Math.abs(even.score - 0.6) < 1e-9);
+  assert.equal(even.outcome, "uncertain");
+
+  const trusted = computeVerdict(models(0.9, 0.3), { weights: { "Model 1": 3 } });
+  assert.ok(Math.abs(trusted.score - 0.75) < 1e-9);
+  assert.equal(trusted.outcome, "ai_generated");
+  assert.equal(trusted.label, "Likely AI");
+
+  assert.equal(computeVerdict(models(0.9), { weights: { "Model 1": 0 } }).score, null);
+});
+
+test("majority, max and calibrated fuse the same scores differently", () => {
+  const scores = models(0.8, 0.6, 0.1);
+
+  const majority = computeVerdict(scores, { strategy: "majority" });
+  assert.ok(Math.abs(majority.score - 2 / 3) < 1e-9);
+  assert.equal(majority.aiVotes, 2);
+  assert.equal(majority.authenticVotes, 1);
+
+  assert.equal(computeVerdict(scores, { strategy: "max" }).score, 0.8);
+
+  // Two agreeing confident models reinforce each other in log-odds space
+  const calibrated = computeVerdict(models(0.8, 0.8), { strategy: "calibrated" });
+  assert.ok(Math.abs(calibrated.score - 16 / 17) < 1e-9);
+  assert.equal(calibrated.outcome, "ai_generated");
+
+  // With a neutral prior a single model passes through unchanged
+  assert.ok(Math.abs(computeVerdict(models(0.3), { strategy: "calibrated" }).score - 0.3) < 1e-9);
+});
+
+test("unscored models are left out of the fused score and the counts", () => {
+  const verdict = computeVerdict([...models(0.2), { name: "Broken", score: null }, { name: "NaN", score: NaN }]);
+  assert.equal(verdict.score, 0.2);
+  assert.equal(verdict.modelCount, 1);
+  assert.equal(verdict.outcome, "authentic");
+
+  const empty = computeVerdict([{ name: "Broken", score: null }]);
+  assert.equal(empty.score, null);
+  assert.equal(empty.outcome, "uncertain");
+  assert.equal(empty.label, "Unclear");
+});
+
+test("custom thresholds move the verdict", () => {
+  assert.equal(computeVerdict(models(0.6), { thresholds: { ai: 0.55 } }).outcome, "ai_generated");
+  assert.equal(computeVerdict(models(0.4), { thresholds: { authentic: 0.45 } }).outcome, "authentic");
+});
+
+test("resolveVerdictConfig rejects settings that make verdicts meaningless", () => {
+  assert.throws(() => resolveVerdictConfig({ strategy: "median" }), /Unknown verdict strategy/);
+  assert.throws(() => resolveVerdictConfig({ thresholds: { ai: 0.3, authentic: 0.4 } }), /thresholds/);
+  assert.throws(() => resolveVerdictConfig({ thresholds: { ai: 1.2 } }), /thresholds/);
+  assert.throws(() => resolveVerdictConfig({ prior: 1 }), /prior/);
+  assert.throws(() => resolveVerdictConfig({ weights: { A: -1 } }), /weight for "A"/);
+});
+
+test("verdictConfigFromEnv reads and validates the environment", () => {
+  const env = {
+    VERDICT_STRATEGY: " MAX ",
+    VERDICT_AI_THRESHOLD: "0.8",
+    VERDICT_AUTHENTIC_THRESHOLD: "",
+    VERDICT_WEIGHTS: '{"A": 2}',
+  };
+  const config = verdictConfigFromEnv((key) => env[key]);
+  assert.equal(config.strategy, "max");
+  assert.deepEqual(config.thresholds, { ai: 0.8, authentic: 0.35 });
+  assert.deepEqual(config.weights, { A: 2 });
+  assert.equal(config.prior, 0.5);
+
+  assert.throws(() => verdictConfigFromEnv((key) => ({ VERDICT_PRIOR: "half" })[key]), /VERDICT_PRIOR must be a number/);
+  assert.throws(() => verdictConfigFromEnv((key) => ({ VERDICT_WEIGHTS: "{" })[key]), /VERDICT_WEIGHTS must be a JSON object/);
+});
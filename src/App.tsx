@@ -1,13 +1,63 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-
-type MediaKind = "image" | "audio";
+import BatchQueue from "./components/BatchQueue";
+import ReceiptVerifier from "./components/ReceiptVerifier";
+import ProvenancePanel from "./components/ProvenancePanel";
+import SimilarAnalyses from "./components/SimilarAnalyses";
+import ImageForensics from "./components/ImageForensics";
+import UploadSection from "./components/UploadSection";
+import AnalysisView from "./components/AnalysisView";
+import HistoryView from "./components/HistoryView";
+import StatsView from "./components/StatsView";
+import EvaluationView from "./components/EvaluationView";
+import AboutView from "./components/AboutView";
+import AuthView from "./components/AuthView";
+import CasesView from "./components/CasesView";
+import CaseView from "./components/CaseView";
+import AudioForensics from "./components/AudioForensics";
+import { findSimilarAnalyses, followJob, signOut, submitDetection } from "./lib/api";
+import { collectDroppedFiles, isSupportedMedia } from "./lib/files";
+import { computeMediaHashes } from "./lib/hashes";
+import {
+  aiScoreFromResult,
+  confidenceCopy,
+  verdictFromResults,
+  type VerdictLabel,
+} from "./lib/score";
+import { useBatchQueue } from "./lib/useBatchQueue";
+import { analysisPath, casePath, matchRoute, navigate, useRoute, type Route } from "./lib/router";
+import { useSession } from "./lib/session";
+import { buildReport, exportReceipt, exportReport, type ReportFormat } from "./lib/report";
+import type {
+  AnalysisResult,
+  AudioSegment,
+  DetectionJob,
+  FramePoint,
+  MediaHashes,
+  ModelRegion,
+  Provenance,
+  SimilarAnalysis,
+} from "./types";
+
+type MediaKind = "image" | "video" | "audio";
 
 type Analysis = {
   kind: MediaKind;
-  aiScore: number; // 0..1
-  label: "Likely AI" | "Unclear" | "Likely Real";
+  aiScore: number | null; // 0..1, null when no model could score the file
+  label: VerdictLabel;
   confidenceText: string;
+  calibration: string | null; // fitting method, null when scores are raw
   hashHex: string;
+  cachedAt: string | null; // when the reused result was produced, null for fresh runs
+  timeline?: FramePoint[]; // videos only
+  segments?: AudioSegment[]; // audio only
+};
+
+// Per-model progress streamed from the detection server while a job runs
+type LiveModel = {
+  name: string;
+  provider: string;
+  running: boolean;
+  aiScore: number | null; // 0..1, null while running or when the model could not score the file
 };
 
 type ActivityItem = {
@@ -28,29 +78,6 @@ function bytesToHuman(n: number) {
   return `${v.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
 }
 
-async function sha256Hex(file: File): Promise<string> {
-  const buf = await file.arrayBuffer();
-  const digest = await crypto.subtle.digest("SHA-256", buf);
-  const bytes = new Uint8Array(digest);
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-function labelFromScore(s: number): Analysis["label"] {
-  if (s >= 0.7) return "Likely AI";
-  if (s <= 0.35) return "Likely Real";
-  return "Unclear";
-}
-
-function confidenceCopy(s: number) {
-  if (s >= 0.85) return "High confidence";
-  if (s >= 0.7) return "Moderate confidence";
-  if (s >= 0.5) return "Mixed signals";
-  if (s >= 0.35) return "Leaning real";
-  return "High confidence";
-}
-
 function clamp01(x: number) {
   return Math.max(0, Math.min(1, x));
 }
@@ -125,12 +152,14 @@ function Icon({
     | "upload"
     | "image"
     | "audio"
+    | "video"
     | "shield"
     | "x"
     | "bolt"
     | "users"
     | "wave"
-    | "pulse";
+    | "pulse"
+    | "download";
   className?: string;
 }) {
   const common = {
@@ -173,6 +202,13 @@ function Icon({
           <circle cx="19" cy="16" r="2" />
         </svg>
       );
+    case "video":
+      return (
+        <svg viewBox="0 0 24 24" {...common}>
+          <rect x="2" y="6" width="14" height="12" rx="2" />
+          <path d="M16 10l6-3v10l-6-3" />
+        </svg>
+      );
     case "shield":
       return (
         <svg viewBox="0 0 24 24" {...common}>
@@ -214,6 +250,14 @@ function Icon({
           <path d="M3 12h4l2-6 4 12 2-6h6" />
         </svg>
       );
+    case "download":
+      return (
+        <svg viewBox="0 0 24 24" {...common}>
+          <path d="M12 3v12" />
+          <path d="M7 10l5 5 5-5" />
+          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+        </svg>
+      );
   }
 }
 
@@ -442,8 +486,72 @@ function FeatureCard({
   );
 }
 
-export default function App() {
+/**
+ * Per-frame AI scores for a video; clicking a bar seeks the preview there
+ */
+function FrameTimeline({
+  points,
+  duration,
+  onSeek,
+}: {
+  points: FramePoint[];
+  duration: number;
+  onSeek: (time: number) => void;
+}) {
+  const suspicious = [...points]
+    .filter((p) => p.score !== null)
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, 3);
+
+  return (
+    <div>
+      <div className="relative h-20 rounded-2xl border border-white/10 bg-black/20">
+        {points.map((p) => {
+          const score = clamp01(p.score ?? 0);
+          return (
+            <button
+              key={p.index}
+              onClick={() => onSeek(p.time)}
+              title={`${p.time.toFixed(1)}s • ${Math.round(score * 100)}% AI`}
+              className="group absolute bottom-0 flex h-full -translate-x-1/2 items-end px-[2px]"
+              style={{ left: `${(p.time / duration) * 100}%`, width: `${100 / Math.max(points.length, 1)}%` }}
+            >
+              <span
+                className={cx(
+                  "w-full rounded-t-md transition group-hover:opacity-100",
+                  score >= 0.5 ? "bg-[rgba(255,45,45,0.85)] opacity-90" : "bg-white/35 opacity-70"
+                )}
+                style={{ height: `${Math.max(4, score * 100)}%` }}
+              />
+            </button>
+          );
+        })}
+        <div className="pointer-events-none absolute inset-x-0 top-1/2 border-t border-dashed border-white/15" />
+      </div>
+
+      {suspicious.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <span className="text-sm text-white/55">Most suspicious</span>
+          {suspicious.map((p) => (
+            <button
+              key={p.index}
+              onClick={() => onSeek(p.time)}
+              className="rounded-xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.10)] px-3 py-1 text-sm text-white/85 transition hover:bg-[rgba(255,45,45,0.18)]"
+            >
+              {p.time.toFixed(1)}s • {Math.round((p.score ?? 0) * 100)}%
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The upload-and-detect page at `/`
+function DetectPage() {
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const folderRef = useRef<HTMLInputElement | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
 
   const [dragOver, setDragOver] = useState(false);
   const [file, setFile] = useState<File | null>(null);
@@ -453,13 +561,26 @@ export default function App() {
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
   const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [job, setJob] = useState<DetectionJob | null>(null);
   const [animatedScore, setAnimatedScore] = useState(0);
+  const [liveModels, setLiveModels] = useState<LiveModel[]>([]);
+  const [liveFrames, setLiveFrames] = useState<FramePoint[]>([]);
+  const [liveSegments, setLiveSegments] = useState<AudioSegment[]>([]);
+  const [regions, setRegions] = useState<ModelRegion[]>([]);
+  const [provenance, setProvenance] = useState<Provenance | null>(null);
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+  // Hashes of the selected file, started on selection and reused by analyze()
+  const hashesRef = useRef<Promise<MediaHashes> | null>(null);
+  const [similar, setSimilar] = useState<SimilarAnalysis[]>([]);
 
   const [activity, setActivity] = useState<ActivityItem[]>([]);
 
+  const batch = useBatchQueue();
+
   const kind: MediaKind | null = useMemo(() => {
     if (!file) return null;
     if (file.type.startsWith("image/")) return "image";
+    if (file.type.startsWith("video/")) return "video";
     if (file.type.startsWith("audio/")) return "audio";
     return null;
   }, [file]);
@@ -475,30 +596,52 @@ export default function App() {
     setStatus("idle");
     setErrorMsg(null);
     setAnalysis(null);
+    setJob(null);
     setAnimatedScore(0);
+    setLiveModels([]);
+    setLiveFrames([]);
+    setLiveSegments([]);
+    setRegions([]);
+    setProvenance(null);
+    setVideoDuration(null);
     if (previewUrl) URL.revokeObjectURL(previewUrl);
     setPreviewUrl(null);
     setFile(null);
+    hashesRef.current = null;
+    setSimilar([]);
     if (inputRef.current) inputRef.current.value = "";
     pushActivity("upload", "Reset workspace");
   }
 
-  function validateAndSet(f: File) {
-    // Reject video/text explicitly
-    if (f.type.startsWith("video/")) {
-      setErrorMsg("Video is disabled. Upload an image or audio file.");
+  // A single file keeps the detailed workspace; several go to the batch queue
+  function handleFiles(files: File[], fromFolder = false) {
+    if (files.length === 1 && !fromFolder) return validateAndSet(files[0]);
+
+    const media = files.filter(isSupportedMedia);
+    const skipped = files.length - media.length;
+    if (media.length === 0) {
+      setErrorMsg("No image, video or audio files found.");
       setStatus("error");
-      pushActivity("error", "Blocked: video upload");
+      pushActivity("error", "Blocked: no supported files in selection");
       return;
     }
+    batch.add(media);
+    pushActivity(
+      "upload",
+      `Queued ${media.length} file${media.length === 1 ? "" : "s"}${skipped > 0 ? ` (${skipped} skipped)` : ""}`
+    );
+  }
+
+  function validateAndSet(f: File) {
+    // Reject text explicitly
     if (f.type.startsWith("text/") || f.type === "application/pdf") {
-      setErrorMsg("Text/PDF is disabled. Upload an image or audio file.");
+      setErrorMsg("Text/PDF is disabled. Upload an image, video or audio file.");
       setStatus("error");
       pushActivity("error", "Blocked: text/PDF upload");
       return;
     }
-    if (!f.type.startsWith("image/") && !f.type.startsWith("audio/")) {
-      setErrorMsg("Unsupported format. Please upload an image or audio file.");
+    if (!f.type.startsWith("image/") && !f.type.startsWith("video/") && !f.type.startsWith("audio/")) {
+      setErrorMsg("Unsupported format. Please upload an image, video or audio file.");
       setStatus("error");
       pushActivity("error", "Blocked: unsupported format");
       return;
@@ -507,68 +650,163 @@ export default function App() {
     setErrorMsg(null);
     setStatus("idle");
     setAnalysis(null);
+    setJob(null);
     setAnimatedScore(0);
+    setLiveModels([]);
+    setLiveFrames([]);
+    setLiveSegments([]);
+    setRegions([]);
+    setProvenance(null);
+    setVideoDuration(null);
 
     if (previewUrl) URL.revokeObjectURL(previewUrl);
     const url = URL.createObjectURL(f);
     setPreviewUrl(url);
     setFile(f);
+    setSimilar([]);
 
     pushActivity("upload", `Loaded ${f.name} (${bytesToHuman(f.size)})`);
+    lookupSimilar(f);
+  }
+
+  // Surfaces earlier analyses of the same or near-identical media while the
+  // user decides whether to analyze; a failed lookup is not worth reporting
+  function lookupSimilar(f: File) {
+    const hashes = computeMediaHashes(f);
+    hashesRef.current = hashes;
+    hashes
+      .then(findSimilarAnalyses)
+      .then((matches) => {
+        if (hashesRef.current !== hashes) return;
+        setSimilar(matches);
+        if (matches.length > 0) {
+          pushActivity("result", `Seen before: ${matches.length} earlier ${matches.length === 1 ? "analysis" : "analyses"}`);
+        }
+      })
+      .catch((e) => console.warn("Similar media lookup failed:", e));
+  }
+
+  function downloadReport(format: ReportFormat) {
+    if (!job || !analysis) return;
+    try {
+      const report = buildReport(job.analysis, job.results, {
+        sha256: analysis.hashHex,
+        requestId: job.detection?.requestId,
+      });
+      exportReport(report, format);
+      pushActivity("result", `Exported ${format.toUpperCase()} report`);
+    } catch (e) {
+      pushActivity("error", "Export failed: " + (e instanceof Error ? e.message : String(e)));
+    }
   }
 
-  async function analyze() {
+  function downloadReceipt() {
+    if (!job?.analysis.receipt) return;
+    exportReceipt(job.analysis.receipt);
+    pushActivity("result", `Exported receipt signed by key ${job.analysis.receipt.keyId}`);
+  }
+
+  // `force` re-runs the detectors even when the server has a cached result
+  async function analyze(force = false) {
     if (!file || !kind) return;
     setStatus("analyzing");
     setErrorMsg(null);
+    setAnalysis(null);
+    setJob(null);
+    setAnimatedScore(0);
+    setLiveModels([]);
+    setLiveFrames([]);
+    setLiveSegments([]);
+    setRegions([]);
+    setProvenance(null);
+    setVideoDuration(null);
     pushActivity("analyze", "Uploading file to detection server…");
 
     try {
-      const form = new FormData();
-      form.append('file', file, file.name);
-
-      const resp = await fetch(import.meta.env.VITE_RD_DETECT_URL || 'http://localhost:4000/detect', {
-        method: 'POST',
-        body: form,
+      const hashes = await (hashesRef.current ?? computeMediaHashes(file));
+      const { jobId, cached } = await submitDetection(file, { hashes, force });
+      pushActivity("analyze", cached ? `Cached result ${jobId.slice(0, 8)} found` : `Job ${jobId.slice(0, 8)} queued`);
+
+      // Ensemble score of the finished models drives the ring until the
+      // server's verdict lands
+      const finished: AnalysisResult[] = [];
+      const liveScore = () => verdictFromResults(finished).score ?? 0;
+      const job = await followJob(jobId, {
+        onModelStarted: (m) => {
+          setLiveModels((prev) =>
+            prev.some((x) => x.name === m.name) ? prev : [...prev, { ...m, running: true, aiScore: null }]
+          );
+          pushActivity("analyze", `Running ${m.name}…`);
+        },
+        onModelResult: (r) => {
+          const score = aiScoreFromResult(r);
+          finished.push(r);
+          const found = r.metadata.regions ?? [];
+          if (found.length > 0) setRegions((prev) => [...prev, ...found.map((g) => ({ ...g, model: r.model_name }))]);
+          setAnimatedScore(liveScore());
+          setLiveModels((prev) => {
+            const next = prev.filter((x) => x.name !== r.model_name);
+            const provider = String(r.metadata.provider ?? "");
+            const index = prev.findIndex((x) => x.name === r.model_name);
+            next.splice(index === -1 ? next.length : index, 0, { name: r.model_name, provider, running: false, aiScore: score });
+            return next;
+          });
+          pushActivity("result", `${r.model_name}: ${score === null ? "not scored" : `${Math.round(score * 100)}%`}`);
+        },
+        onFrameResult: (f) => {
+          setLiveFrames((prev) => [...prev, f]);
+        },
+        onSegmentResult: (seg) => {
+          setLiveSegments((prev) => [...prev, seg]);
+        },
+        onProvenance: (p) => {
+          setProvenance(p);
+          if (p.status !== "none") pushActivity("result", `Content Credentials: ${p.status}`);
+        },
       });
 
-      if (!resp.ok) {
-        const body = await resp.text();
-        throw new Error(`Server error: ${resp.status} ${body}`);
+      if (job.status === "failed" || !job.detection) {
+        throw new Error(job.errors.map((e) => e.message).join("; ") || "Detection failed");
       }
-
-      const rd = await resp.json();
-
-      // compute hash locally for display
-      const hashHex = await sha256Hex(file);
+      const rd = job.detection;
 
       // map server response to local Analysis shape
-      const s = typeof rd.score === 'number' ? rd.score : 0;
-      const label = labelFromScore(s);
+      const s = typeof rd.score === "number" ? rd.score : null;
+      const label = rd.verdict.label;
 
       const result: Analysis = {
         kind,
         aiScore: s,
         label,
-        confidenceText: confidenceCopy(s),
-        hashHex,
+        confidenceText: s === null ? "No model could score this file" : confidenceCopy(s),
+        calibration: rd.calibration?.method ?? null,
+        hashHex: hashes.sha256,
+        cachedAt: cached ? job.analysis.completed_at ?? null : null,
+        timeline: rd.timeline,
+        segments: rd.segments,
       };
+      if (rd.timeline) setVideoDuration(rd.duration ?? null);
 
       setAnalysis(result);
-
-      // animate to server score
-      setAnimatedScore(0);
+      setJob(job);
+      setProvenance(job.analysis.provenance ?? null);
+
+      // animate from the live ensemble score to the server score (or down to
+      // zero, under a "—", when there is none)
+      const from = liveScore();
+      const to = s ?? 0;
+      setAnimatedScore(from);
       const start = performance.now();
       const duration = 900;
 
       const tick = (t: number) => {
         const p = Math.min(1, (t - start) / duration);
         const eased = 1 - Math.pow(1 - p, 3);
-        setAnimatedScore(s * eased);
+        setAnimatedScore(from + (to - from) * eased);
         if (p < 1) requestAnimationFrame(tick);
         else {
           setStatus("done");
-          pushActivity("result", `Result: ${Math.round(s * 100)}% • ${label}`);
+          pushActivity("result", `Result: ${s === null ? "no score" : `${Math.round(s * 100)}%`} • ${label}`);
         }
       };
 
@@ -606,43 +844,33 @@ export default function App() {
     document.head.appendChild(style);
   }, []);
 
-  const accentGlowOpacity = analysis ? 0.15 + clamp01(animatedScore) * 0.25 : 0.18;
-
-  return (
-    <div className="min-h-screen text-white selection:bg-white/20 selection:text-white">
-      {/* Background (Tron/Ares Red) */}
-      <div className="fixed inset-0 -z-10 overflow-hidden">
-        <div className="absolute inset-0 bg-[#06070d]" />
-
-        {/* red gradient wash */}
-        <div className="absolute inset-0 bg-gradient-to-br from-[rgba(255,45,45,0.18)] via-transparent to-[rgba(255,45,45,0.06)]" />
+  const liveDone = liveModels.filter((m) => !m.running).length;
+  const timeline = analysis?.timeline ?? liveFrames;
+  const timelineDuration =
+    videoDuration ?? videoRef.current?.duration ?? (timeline.length > 0 ? timeline[timeline.length - 1].time * 1.1 : 0);
+
+  function seekVideo(time: number) {
+    const v = videoRef.current;
+    if (!v) return;
+    v.currentTime = time;
+    v.pause();
+    pushActivity("analyze", `Jumped to ${time.toFixed(1)}s`);
+  }
+  const showScore = analysis !== null || liveDone > 0;
 
-        {/* glow blobs */}
-        <div className="absolute -top-24 -left-24 h-[520px] w-[520px] rounded-full bg-[rgba(255,45,45,0.20)] blur-[140px]" />
-        <div className="absolute top-20 right-[-120px] h-[620px] w-[620px] rounded-full bg-[rgba(255,90,90,0.14)] blur-[170px]" />
-        <div className="absolute bottom-[-180px] left-1/3 h-[680px] w-[680px] rounded-full bg-[rgba(255,45,45,0.12)] blur-[200px]" />
+  const accentGlowOpacity = showScore ? 0.15 + clamp01(animatedScore) * 0.25 : 0.18;
 
-        {/* score-driven aura */}
+  return (
+    <>
+      {/* score-driven aura, over the shell's background */}
+      <div className="pointer-events-none fixed inset-0 -z-10 overflow-hidden">
         <div
           className="absolute left-1/2 top-[38%] h-[520px] w-[520px] -translate-x-1/2 rounded-full bg-[rgba(255,45,45,0.35)] blur-[160px] animate-glowPulse"
           style={{ opacity: accentGlowOpacity }}
         />
-
-        {/* particle field */}
-        <div className="absolute inset-0 opacity-90">
-          <Particles density={22} />
-        </div>
-
-        {/* subtle grid */}
-        <div className="absolute inset-0 opacity-25 [background-image:linear-gradient(to_right,rgba(255,255,255,0.06)_1px,transparent_1px),linear-gradient(to_bottom,rgba(255,255,255,0.06)_1px,transparent_1px)] [background-size:60px_60px]" />
-
-        {/* scan sweep */}
-        <div className="pointer-events-none absolute inset-0 opacity-55">
-          <div className="absolute -left-[50%] top-0 h-full w-[55%] bg-gradient-to-r from-transparent via-[rgba(255,45,45,0.14)] to-transparent animate-sweep" />
-        </div>
       </div>
 
-      <div className="mx-auto max-w-7xl px-6 sm:px-8 py-12 sm:py-16">
+      <div>
         {/* Header */}
         <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
           <div>
@@ -652,16 +880,12 @@ export default function App() {
                 Media Authenticity
               </span>
               <span className="text-white/40">•</span>
-              <span className="text-white/70">image + audio</span>
+              <span className="text-white/70">image • video • audio</span>
             </div>
 
-            <h1 className="mt-5 text-4xl sm:text-5xl font-jet font-semibold tracking-[0.25em] text-[rgba(255,45,45,0.95)] drop-shadow-[0_0_18px_rgba(255,45,45,0.75)]">
-            DEEPSLEUTH
-            </h1>
-
-
-            <p className="mt-3 max-w-3xl text-base sm:text-lg text-white/70">
-            Upload an <span className="text-white">image</span> or{" "}
+            <p className="mt-5 max-w-3xl text-base sm:text-lg text-white/70">
+            Upload an <span className="text-white">image</span>,{" "}
+            <span className="text-white">video</span> or{" "}
             <span className="text-white">audio</span> to evaluate authenticity.
             Get a clear AI likelihood score with real-time visual feedback.
             </p>
@@ -700,21 +924,45 @@ export default function App() {
                 </div>
               </div>
 
-              <button
-                onClick={() => inputRef.current?.click()}
-                className="rounded-2xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.10)] px-5 py-2.5 text-base text-white/85 backdrop-blur-2xl transition hover:bg-[rgba(255,45,45,0.16)]"
-              >
-                Browse
-              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => folderRef.current?.click()}
+                  className="rounded-2xl border border-white/10 bg-white/5 px-5 py-2.5 text-base text-white/75 backdrop-blur-2xl transition hover:bg-white/10"
+                >
+                  Folder
+                </button>
+                <button
+                  onClick={() => inputRef.current?.click()}
+                  className="rounded-2xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.10)] px-5 py-2.5 text-base text-white/85 backdrop-blur-2xl transition hover:bg-[rgba(255,45,45,0.16)]"
+                >
+                  Browse
+                </button>
+              </div>
 
               <input
                 ref={inputRef}
                 type="file"
-                accept="image/*,audio/*"
+                accept="image/*,video/*,audio/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  if (files.length > 0) handleFiles(files);
+                  e.target.value = "";
+                }}
+              />
+              <input
+                ref={(el) => {
+                  folderRef.current = el;
+                  el?.setAttribute("webkitdirectory", "");
+                }}
+                type="file"
+                multiple
                 className="hidden"
                 onChange={(e) => {
-                  const f = e.target.files?.[0];
-                  if (f) validateAndSet(f);
+                  const files = Array.from(e.target.files ?? []);
+                  if (files.length > 0) handleFiles(files, true);
+                  e.target.value = "";
                 }}
               />
             </div>
@@ -739,8 +987,12 @@ export default function App() {
                 e.preventDefault();
                 e.stopPropagation();
                 setDragOver(false);
-                const f = e.dataTransfer.files?.[0];
-                if (f) validateAndSet(f);
+                const hasFolder = Array.from(e.dataTransfer.items ?? []).some(
+                  (item) => item.webkitGetAsEntry?.()?.isDirectory
+                );
+                collectDroppedFiles(e.dataTransfer).then((files) => {
+                  if (files.length > 0) handleFiles(files, hasFolder);
+                });
               }}
               className={[
                 "relative mt-6 rounded-[28px] border border-dashed transition min-h-[520px] p-8 sm:p-10 flex items-stretch overflow-hidden",
@@ -760,11 +1012,14 @@ export default function App() {
                     <Icon name="image" />
                     <span className="text-base text-white/85">Images</span>
                     <span className="text-white/30">•</span>
+                    <Icon name="video" />
+                    <span className="text-base text-white/85">Video</span>
+                    <span className="text-white/30">•</span>
                     <Icon name="audio" />
                     <span className="text-base text-white/85">Audio</span>
                   </div>
 
-                  <div className="text-2xl font-semibold">Drop your file here</div>
+                  <div className="text-2xl font-semibold">Drop files or a folder here</div>
                   <div className="max-w-xl text-base text-white/60 leading-relaxed">
                     We’ll show a preview and compute an AI likelihood score.
                     <br />
@@ -798,21 +1053,23 @@ export default function App() {
 
                     <div className="mt-5 overflow-hidden rounded-2xl border border-white/10 bg-black/20">
                       {kind === "image" && previewUrl && (
-                        <img
+                        <ImageForensics key={previewUrl} file={file} src={previewUrl} regions={regions} />
+                      )}
+                      {kind === "video" && previewUrl && (
+                        <video
+                          ref={videoRef}
                           src={previewUrl}
-                          alt="preview"
-                          className="max-h-[380px] w-full object-contain"
+                          controls
+                          className="max-h-[380px] w-full bg-black"
                         />
                       )}
                       {kind === "audio" && previewUrl && (
-                        <div className="p-5">
-                          <audio controls className="w-full">
-                            <source src={previewUrl} />
-                          </audio>
-                          <div className="mt-3 text-sm text-white/50">
-                            Tip: if audio doesn’t play, try mp3/wav.
-                          </div>
-                        </div>
+                        <AudioForensics
+                          key={previewUrl}
+                          file={file}
+                          src={previewUrl}
+                          segments={analysis?.segments ?? liveSegments}
+                        />
                       )}
                     </div>
                   </div>
@@ -865,9 +1122,11 @@ export default function App() {
                       </div>
                     )}
 
+                    <SimilarAnalyses matches={similar} />
+
                     <div className="mt-6 flex flex-col gap-3 sm:flex-row">
                       <button
-                        onClick={analyze}
+                        onClick={() => analyze()}
                         disabled={!file || !kind || status === "analyzing"}
                         className="inline-flex flex-1 items-center justify-center gap-2 rounded-2xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.16)] px-6 py-3.5 text-base font-medium text-white transition hover:bg-[rgba(255,45,45,0.22)] disabled:cursor-not-allowed disabled:opacity-50"
                       >
@@ -909,11 +1168,11 @@ export default function App() {
 
             <div className="mt-8 grid place-items-center">
               <div className="relative">
-                <Ring value={analysis ? animatedScore : 0} size={170} stroke={12} />
+                <Ring value={showScore ? animatedScore : 0} size={170} stroke={12} />
                 <div className="absolute inset-0 grid place-items-center">
                   <div className="text-center">
                     <div className="text-4xl font-semibold tabular-nums">
-                      {analysis ? Math.round(animatedScore * 100) : 0}%
+                      {analysis?.aiScore === null ? "—" : `${showScore ? Math.round(animatedScore * 100) : 0}%`}
                     </div>
                     <div className="mt-1 text-sm text-white/55">
                       AI likelihood
@@ -924,14 +1183,49 @@ export default function App() {
 
               <div className="mt-5 text-center">
                 <div className="text-xl font-semibold">
-                  {analysis ? analysis.label : "Upload & analyze"}
+                  {analysis
+                    ? analysis.label
+                    : status === "analyzing"
+                    ? "Analyzing…"
+                    : "Upload & analyze"}
                 </div>
                 <div className="mt-2 text-base text-white/60">
                   {analysis
                     ? analysis.confidenceText
+                    : status === "analyzing" && liveModels.length > 0
+                    ? `${liveDone} of ${liveModels.length} models finished`
                     : "We’ll show a verdict once analysis completes."}
                 </div>
               </div>
+
+              {analysis && job && (
+                <div className="mt-5 flex items-center gap-2">
+                  <Icon name="download" className="h-4 w-4 text-white/50" />
+                  {(["pdf", "html", "json"] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => downloadReport(format)}
+                      className="rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-white/75 transition hover:bg-white/10"
+                    >
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                  {job.analysis.receipt && (
+                    <button
+                      onClick={downloadReceipt}
+                      className="rounded-xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.12)] px-3 py-1.5 text-sm text-white/85 transition hover:bg-[rgba(255,45,45,0.18)]"
+                    >
+                      Receipt
+                    </button>
+                  )}
+                  <NavLink
+                    to={analysisPath(job.analysis.id)}
+                    className="ml-auto text-sm text-white/60 transition hover:text-white"
+                  >
+                    Open page →
+                  </NavLink>
+                </div>
+              )}
             </div>
 
             <div className="mt-7 rounded-[28px] border border-white/10 bg-white/[0.03] p-5">
@@ -947,9 +1241,32 @@ export default function App() {
                 <div className="flex items-center justify-between">
                   <span className="text-white/55">Score</span>
                   <span className="text-white/85 tabular-nums">
-                    {analysis ? analysis.aiScore.toFixed(3) : "—"}
+                    {analysis && analysis.aiScore !== null ? analysis.aiScore.toFixed(3) : "—"}
                   </span>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-white/55">Calibration</span>
+                  <span className="text-white/85">
+                    {analysis ? analysis.calibration ?? "uncalibrated" : "—"}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-white/55">Source</span>
+                  {analysis?.cachedAt ? (
+                    <span className="inline-flex items-center gap-3 text-white/85">
+                      Cached • {new Date(analysis.cachedAt).toLocaleString()}
+                      <button
+                        onClick={() => analyze(true)}
+                        disabled={status === "analyzing"}
+                        className="rounded-xl border border-white/10 bg-white/5 px-2.5 py-1 text-xs text-white/70 transition hover:bg-white/10 disabled:opacity-50"
+                      >
+                        Re-run
+                      </button>
+                    </span>
+                  ) : (
+                    <span className="text-white/85">{analysis ? "Fresh run" : "—"}</span>
+                  )}
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-white/55">File hash</span>
                   <span className="text-white/85 font-mono text-xs">
@@ -959,12 +1276,54 @@ export default function App() {
                   </span>
                 </div>
 
+                {liveModels.length > 0 && (
+                  <div className="mt-2 grid gap-2 border-t border-white/10 pt-4">
+                    {liveModels.map((m) => (
+                      <div key={`${m.provider}:${m.name}`} className="flex items-center justify-between gap-4">
+                        <span className="truncate text-sm text-white/70">{m.name}</span>
+                        {m.running ? (
+                          <span className="inline-flex items-center gap-2 text-sm text-white/45">
+                            <span className="h-1.5 w-1.5 rounded-full bg-[rgba(255,45,45,0.9)] animate-glowPulse" />
+                            running
+                          </span>
+                        ) : m.aiScore === null ? (
+                          <span className="text-sm text-white/45">not scored</span>
+                        ) : (
+                          <span className="text-sm text-white/85 tabular-nums">
+                            {Math.round(m.aiScore * 100)}%
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="pt-2 text-sm text-white/45">
                  
                 </div>
               </div>
             </div>
 
+            {/* C2PA provenance (images) */}
+            {provenance && <ProvenancePanel provenance={provenance} />}
+
+            {/* Frame timeline (video) */}
+            {kind === "video" && timeline.length > 0 && timelineDuration > 0 && (
+              <div className="mt-6 rounded-[28px] border border-white/10 bg-white/[0.03] p-5">
+                <div className="flex items-center justify-between">
+                  <div className="text-base font-medium text-white/85">
+                    Frame timeline
+                  </div>
+                  <span className="text-sm text-white/50">
+                    {timeline.length} frames
+                  </span>
+                </div>
+                <div className="mt-4">
+                  <FrameTimeline points={timeline} duration={timelineDuration} onSeek={seekVideo} />
+                </div>
+              </div>
+            )}
+
             {/* Activity feed */}
             <div className="mt-6 rounded-[28px] border border-white/10 bg-white/[0.03] p-5">
               <div className="flex items-center justify-between">
@@ -1012,6 +1371,24 @@ export default function App() {
           </div>
         </div>
 
+        {/* Section: Batch queue */}
+        {batch.items.length > 0 && (
+          <div className="mt-10">
+            <BatchQueue
+              items={batch.items}
+              summary={batch.summary}
+              onRetry={batch.retry}
+              onRetryFailed={batch.retryFailed}
+              onClear={batch.clear}
+            />
+          </div>
+        )}
+
+        {/* Section: Receipt verification */}
+        <div className="mt-10">
+          <ReceiptVerifier />
+        </div>
+
         {/* Section: Collab demo
         <div className="mt-10">
           <CollaborativePreview />
@@ -1040,6 +1417,181 @@ export default function App() {
           />
         </div>
 
+      </div>
+    </>
+  );
+}
+
+const NAV_ITEMS = [
+  { path: "/", label: "Detect" },
+  { path: "/analysis", label: "Quick scan" },
+  { path: "/history", label: "History" },
+  { path: "/cases", label: "Cases" },
+  { path: "/stats", label: "Stats" },
+  { path: "/evaluation", label: "Evaluation" },
+  { path: "/about", label: "About" },
+];
+
+// Ordinary links that navigate in-app on a plain left click
+function NavLink({
+  to,
+  active = false,
+  className,
+  children,
+}: {
+  to: string;
+  active?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <a
+      href={to}
+      aria-current={active ? "page" : undefined}
+      onClick={(e) => {
+        if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+        e.preventDefault();
+        navigate(to);
+      }}
+      className={className}
+    >
+      {children}
+    </a>
+  );
+}
+
+function NotFound({ path }: { path: string }) {
+  return (
+    <div className="rounded-[28px] border border-white/10 bg-white/[0.03] p-10 text-center backdrop-blur-2xl">
+      <div className="text-lg font-medium text-white/85">Nothing at {path}</div>
+      <NavLink to="/" className="mt-3 inline-block text-base text-[rgba(255,90,90,0.95)] hover:underline">
+        Back to Detect
+      </NavLink>
+    </div>
+  );
+}
+
+function page(route: Route) {
+  switch (route.name) {
+    case "home":
+      return null;
+    case "new_analysis":
+      return <UploadSection onAnalysisStart={(id) => navigate(analysisPath(id))} />;
+    case "analysis":
+      return <AnalysisView key={route.id} analysisId={route.id} />;
+    case "history":
+      return <HistoryView onViewAnalysis={(id) => navigate(analysisPath(id))} />;
+    case "cases":
+      return <CasesView onOpenCase={(id) => navigate(casePath(id))} />;
+    case "case":
+      return <CaseView key={route.id} caseId={route.id} onViewAnalysis={(id) => navigate(analysisPath(id))} />;
+    case "stats":
+      return <StatsView />;
+    case "evaluation":
+      return <EvaluationView />;
+    case "about":
+      return <AboutView />;
+    case "login":
+      return <AuthView onSignedIn={() => navigate("/history")} />;
+    case "not_found":
+      return <NotFound path={route.path} />;
+  }
+}
+
+// App shell: shared background, the DEEPSLEUTH header with navigation, and
+// the page for the current URL (see lib/router.ts)
+export default function App() {
+  const route = useRoute();
+  const session = useSession();
+  const activePath =
+    route.name === "analysis" ? "/history"
+    : route.name === "case" ? "/cases"
+    : NAV_ITEMS.find((n) => matchRoute(n.path).name === route.name)?.path;
+
+  return (
+    <div className="min-h-screen text-white selection:bg-white/20 selection:text-white">
+      {/* Background (Tron/Ares Red) */}
+      <div className="fixed inset-0 -z-10 overflow-hidden">
+        <div className="absolute inset-0 bg-[#06070d]" />
+
+        {/* red gradient wash */}
+        <div className="absolute inset-0 bg-gradient-to-br from-[rgba(255,45,45,0.18)] via-transparent to-[rgba(255,45,45,0.06)]" />
+
+        {/* glow blobs */}
+        <div className="absolute -top-24 -left-24 h-[520px] w-[520px] rounded-full bg-[rgba(255,45,45,0.20)] blur-[140px]" />
+        <div className="absolute top-20 right-[-120px] h-[620px] w-[620px] rounded-full bg-[rgba(255,90,90,0.14)] blur-[170px]" />
+        <div className="absolute bottom-[-180px] left-1/3 h-[680px] w-[680px] rounded-full bg-[rgba(255,45,45,0.12)] blur-[200px]" />
+
+        {/* particle field */}
+        <div className="absolute inset-0 opacity-90">
+          <Particles density={22} />
+        </div>
+
+        {/* subtle grid */}
+        <div className="absolute inset-0 opacity-25 [background-image:linear-gradient(to_right,rgba(255,255,255,0.06)_1px,transparent_1px),linear-gradient(to_bottom,rgba(255,255,255,0.06)_1px,transparent_1px)] [background-size:60px_60px]" />
+
+        {/* scan sweep */}
+        <div className="pointer-events-none absolute inset-0 opacity-55">
+          <div className="absolute -left-[50%] top-0 h-full w-[55%] bg-gradient-to-r from-transparent via-[rgba(255,45,45,0.14)] to-transparent animate-sweep" />
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-6 sm:px-8 py-12 sm:py-16">
+        {/* Navigation */}
+        <div className="mb-10 flex flex-col gap-5 lg:flex-row lg:items-center lg:justify-between">
+          <NavLink to="/">
+            <h1 className="text-4xl sm:text-5xl font-jet font-semibold tracking-[0.25em] text-[rgba(255,45,45,0.95)] drop-shadow-[0_0_18px_rgba(255,45,45,0.75)]">
+            DEEPSLEUTH
+            </h1>
+          </NavLink>
+
+          <nav className="flex flex-wrap gap-2">
+            {NAV_ITEMS.map((item) => (
+              <NavLink
+                key={item.path}
+                to={item.path}
+                active={item.path === activePath}
+                className={cx(
+                  "rounded-2xl border px-4 py-2 text-base backdrop-blur-2xl transition",
+                  item.path === activePath
+                    ? "border-[rgba(255,45,45,0.30)] bg-[rgba(255,45,45,0.16)] text-white"
+                    : "border-white/10 bg-white/5 text-white/70 hover:bg-white/10"
+                )}
+              >
+                {item.label}
+              </NavLink>
+            ))}
+            {session ? (
+              <button
+                onClick={() => void signOut()}
+                title={`Signed in as ${session.user.email}`}
+                className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-base text-white/70 backdrop-blur-2xl transition hover:bg-white/10"
+              >
+                Sign out <span className="text-white/45">{session.user.email}</span>
+              </button>
+            ) : (
+              <NavLink
+                to="/login"
+                active={route.name === "login"}
+                className={cx(
+                  "rounded-2xl border px-4 py-2 text-base backdrop-blur-2xl transition",
+                  route.name === "login"
+                    ? "border-[rgba(255,45,45,0.30)] bg-[rgba(255,45,45,0.16)] text-white"
+                    : "border-white/10 bg-white/5 text-white/70 hover:bg-white/10"
+                )}
+              >
+                Sign in
+              </NavLink>
+            )}
+          </nav>
+        </div>
+
+        {/* Kept mounted so running jobs and the batch queue survive navigation */}
+        <div hidden={route.name !== "home"}>
+          <DetectPage />
+        </div>
+        {page(route)}
+
         <div className="mt-10 text-center text-sm text-white/40">
           Creating solutions to a safer world 
         </div>
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { FolderPlus, Loader2, X } from 'lucide-react';
+import { addToCase, listCases, listWorkspaces } from '../lib/api';
+import { canEditCases } from '../lib/cases';
+import { casePath, navigate } from '../lib/router';
+import { Case, Workspace } from '../types';
+
+interface AddToCaseBarProps {
+  analysisIds: string[];
+  onClear: () => void;
+}
+
+// Files the analyses selected in History into an open case of a workspace
+// where the user may edit cases. Stays mounted after filing to show the
+// outcome; renders nothing when there is neither a selection nor a message.
+export default function AddToCaseBar({ analysisIds, onClear }: AddToCaseBarProps) {
+  const [groups, setGroups] = useState<{ workspace: Workspace; cases: Case[] }[] | null>(null);
+  const [caseId, setCaseId] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [message, setMessage] = useState<{ text: string; caseId?: string; error?: boolean } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listWorkspaces()
+      .then((workspaces) =>
+        Promise.all(
+          workspaces
+            .filter((workspace) => canEditCases(workspace.role))
+            .map(async (workspace) => ({
+              workspace,
+              cases: (await listCases(workspace.id)).filter((item) => item.status !== 'closed'),
+            }))
+        )
+      )
+      .then((loaded) => {
+        if (cancelled) return;
+        const withCases = loaded.filter((group) => group.cases.length > 0);
+        setGroups(withCases);
+        setCaseId(withCases[0]?.cases[0].id ?? '');
+      })
+      .catch((err) => {
+        if (!cancelled) setMessage({ text: `Could not load cases: ${err instanceof Error ? err.message : String(err)}`, error: true });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleAdd = async () => {
+    if (!caseId) return;
+    setIsAdding(true);
+    try {
+      const added = await addToCase(caseId, analysisIds);
+      const title = groups?.flatMap((group) => group.cases).find((item) => item.id === caseId)?.title;
+      const skipped = analysisIds.length - added.length;
+      setMessage({
+        text: `Added ${added.length} to "${title}"${skipped > 0 ? `, ${skipped} already there` : ''}`,
+        caseId,
+      });
+      onClear();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+    setIsAdding(false);
+  };
+
+  if (analysisIds.length === 0 && !message) return null;
+  const filedCaseId = message?.caseId;
+
+  const fieldClass =
+    'bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="bg-slate-800/50 border border-blue-500/30 rounded-xl p-4 space-y-2">
+      {analysisIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-slate-200">{analysisIds.length} selected</span>
+          {groups === null ? (
+            <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+          ) : groups.length === 0 ? (
+            <span className="text-sm text-slate-400">
+              No open cases you can edit.{' '}
+              <button onClick={() => navigate('/cases')} className="text-blue-400 hover:underline">
+                Open one
+              </button>
+            </span>
+          ) : (
+            <>
+              <select value={caseId} onChange={(e) => setCaseId(e.target.value)} className={fieldClass}>
+                {groups.map((group) => (
+                  <optgroup key={group.workspace.id} label={group.workspace.name}>
+                    {group.cases.map((item) => (
+                      <option key={item.id} value={item.id}>{item.title}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <button
+                onClick={handleAdd}
+                disabled={isAdding || !caseId}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderPlus className="w-4 h-4" />}
+                <span>Add to case</span>
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClear}
+            className="inline-flex items-center space-x-1 px-3 py-2 rounded-lg text-sm text-slate-300 hover:text-white transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Clear selection</span>
+          </button>
+        </div>
+      )}
+      {message && (
+        <p className={`text-sm ${message.error ? 'text-red-400' : 'text-green-400'}`}>
+          {message.text}
+          {filedCaseId && (
+            <>
+              {' '}
+              <button onClick={() => navigate(casePath(filedCaseId))} className="text-blue-400 hover:underline">
+                Open case
+              </button>
+            </>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
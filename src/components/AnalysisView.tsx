@@ -1,8 +1,23 @@
 import { useEffect, useState } from 'react';
-import { Loader2, CheckCircle, XCircle, AlertTriangle, Shield, TrendingUp } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, AlertTriangle, HelpCircle, Shield, TrendingUp } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { analysisVerdict } from '../lib/score';
 import { Analysis, AnalysisResult } from '../types';
 
+const VERDICT_HEADINGS = {
+  ai_generated: 'AI-Generated Content Detected',
+  uncertain: 'Inconclusive Result',
+  authentic: 'Likely Authentic Content',
+};
+
+const VERDICT_COLORS = { ai_generated: 'red', uncertain: 'amber', authentic: 'green' } as const;
+
+const VERDICT_TEXT = {
+  red: 'text-red-400',
+  amber: 'text-amber-400',
+  green: 'text-green-400',
+};
+
 interface AnalysisViewProps {
   analysisId: string;
 }
@@ -11,6 +26,7 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
   const [analysis, setAnalysis] = useState<Analysis | null>(null);
   const [results, setResults] = useState<AnalysisResult[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
   useEffect(() => {
     loadAnalysis();
@@ -19,32 +35,43 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
   }, [analysisId]);
 
   const loadAnalysis = async () => {
-    const { data: analysisData } = await supabase
+    const { data: analysisData, error } = await supabase
       .from('analyses')
       .select('*')
       .eq('id', analysisId)
       .maybeSingle();
 
-    if (analysisData) {
-      setAnalysis(analysisData);
+    if (error) {
+      setLoadError(`Could not load analysis: ${error.message}`);
+      setIsLoading(false);
+      return;
+    }
 
-      const { data: resultsData } = await supabase
-        .from('analysis_results')
-        .select('*')
-        .eq('analysis_id', analysisId)
-        .order('created_at', { ascending: true });
+    if (!analysisData) {
+      setLoadError('Analysis not found');
+      setIsLoading(false);
+      return;
+    }
 
-      if (resultsData) {
-        setResults(resultsData);
-      }
+    setLoadError(null);
+    setAnalysis(analysisData);
 
-      setIsLoading(false);
+    const { data: resultsData } = await supabase
+      .from('analysis_results')
+      .select('*')
+      .eq('analysis_id', analysisId)
+      .order('created_at', { ascending: true });
+
+    if (resultsData) {
+      setResults(resultsData);
     }
+
+    setIsLoading(false);
   };
 
   const getStatusIcon = () => {
     if (!analysis) return <Loader2 className="w-6 h-6 animate-spin text-blue-400" />;
-    if (analysis.status === 'processing') return <Loader2 className="w-6 h-6 animate-spin text-blue-400" />;
+    if (analysis.status === 'pending' || analysis.status === 'processing') return <Loader2 className="w-6 h-6 animate-spin text-blue-400" />;
     if (analysis.status === 'completed') return <CheckCircle className="w-6 h-6 text-green-400" />;
     if (analysis.status === 'failed') return <XCircle className="w-6 h-6 text-red-400" />;
     return <Shield className="w-6 h-6 text-slate-400" />;
@@ -52,16 +79,15 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
 
   const getOverallVerdict = () => {
     if (results.length === 0) return null;
-    const aiCount = results.filter(r => r.is_ai_generated).length;
-    const avgConfidence = results.reduce((sum, r) => sum + r.confidence_score, 0) / results.length;
-    const isAiGenerated = aiCount > results.length / 2;
+    const verdict = analysisVerdict(analysis, results);
 
     return {
-      verdict: isAiGenerated ? 'AI-Generated Content Detected' : 'Likely Authentic Content',
-      confidence: avgConfidence,
-      aiCount,
-      totalCount: results.length,
-      color: isAiGenerated ? 'red' : 'green',
+      verdict: VERDICT_HEADINGS[verdict.outcome],
+      score: (verdict.score ?? 0) * 100,
+      strategy: verdict.strategy,
+      aiCount: verdict.aiVotes,
+      totalCount: verdict.modelCount,
+      color: VERDICT_COLORS[verdict.outcome],
     };
   };
 
@@ -75,6 +101,15 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
     );
   }
 
+  if (loadError) {
+    return (
+      <div className="flex items-center space-x-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+        <AlertTriangle className="w-5 h-5 text-red-400" />
+        <p className="text-red-400">{loadError}</p>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6">
@@ -83,7 +118,11 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
             <div className="flex items-center space-x-3 mb-2">
               {getStatusIcon()}
               <h2 className="text-2xl font-bold text-white">
-                {analysis?.status === 'processing' ? 'Analyzing...' : 'Analysis Complete'}
+                {analysis?.status === 'failed'
+                  ? 'Analysis Failed'
+                  : analysis?.status === 'completed'
+                    ? 'Analysis Complete'
+                    : 'Analyzing...'}
               </h2>
             </div>
             <p className="text-slate-400">File: {analysis?.file_name}</p>
@@ -98,17 +137,21 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
         <div className={`bg-gradient-to-r ${
           verdict.color === 'red'
             ? 'from-red-500/10 to-orange-500/10 border-red-500/50'
-            : 'from-green-500/10 to-emerald-500/10 border-green-500/50'
+            : verdict.color === 'amber'
+              ? 'from-amber-500/10 to-yellow-500/10 border-amber-500/50'
+              : 'from-green-500/10 to-emerald-500/10 border-green-500/50'
         } border rounded-2xl p-8`}>
           <div className="flex items-start justify-between">
             <div>
               <div className="flex items-center space-x-2 mb-2">
                 {verdict.color === 'red' ? (
                   <AlertTriangle className="w-6 h-6 text-red-400" />
+                ) : verdict.color === 'amber' ? (
+                  <HelpCircle className="w-6 h-6 text-amber-400" />
                 ) : (
                   <Shield className="w-6 h-6 text-green-400" />
                 )}
-                <h3 className={`text-2xl font-bold ${verdict.color === 'red' ? 'text-red-400' : 'text-green-400'}`}>
+                <h3 className={`text-2xl font-bold ${VERDICT_TEXT[verdict.color]}`}>
                   {verdict.verdict}
                 </h3>
               </div>
@@ -117,10 +160,10 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
               </p>
             </div>
             <div className="text-right">
-              <div className={`text-4xl font-bold ${verdict.color === 'red' ? 'text-red-400' : 'text-green-400'}`}>
-                {verdict.confidence.toFixed(1)}%
+              <div className={`text-4xl font-bold ${VERDICT_TEXT[verdict.color]}`}>
+                {verdict.score.toFixed(1)}%
               </div>
-              <p className="text-slate-400 text-sm">Avg. Confidence</p>
+              <p className="text-slate-400 text-sm">AI Likelihood ({verdict.strategy})</p>
             </div>
           </div>
         </div>
@@ -132,7 +175,7 @@ export default function AnalysisView({ analysisId }: AnalysisViewProps) {
           <span>Model Analysis Results</span>
         </h3>
 
-        {results.length === 0 && analysis?.status === 'processing' && (
+        {results.length === 0 && (analysis?.status === 'pending' || analysis?.status === 'processing') && (
           <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-8 text-center">
             <Loader2 className="w-8 h-8 animate-spin text-blue-400 mx-auto mb-3" />
             <p className="text-slate-300">Running detection models...</p>
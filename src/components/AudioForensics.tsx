@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { AudioSegment } from '../types';
+import { ANALYSIS_SAMPLE_RATE, decodeAudio, melSpectrogram, waveformPeaks } from '../lib/audioForensics';
+import { Heatmap, heatmapToImageData } from '../lib/imageForensics';
+import { labelFromScore } from '../lib/score';
+
+interface AudioForensicsProps {
+  file: File;
+  src: string;
+  segments?: AudioSegment[];
+}
+
+const WAVEFORM_BUCKETS = 600;
+
+function formatTime(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+function segmentShade(segment: AudioSegment) {
+  if (segment.score === null) return 'bg-transparent';
+  const label = labelFromScore(segment.score);
+  if (label === 'Likely AI') return 'bg-[rgba(255,45,45,0.35)] hover:bg-[rgba(255,45,45,0.45)]';
+  if (label === 'Unclear') return 'bg-[rgba(255,45,45,0.14)] hover:bg-[rgba(255,45,45,0.24)]';
+  return 'bg-transparent hover:bg-white/5';
+}
+
+// Audio player with a waveform and mel-spectrogram of the file. Segments the
+// server scored are shaded over the waveform by verdict; clicking one seeks
+// the player to its start. Decodes once, so give it a `key` per file.
+export default function AudioForensics({ file, src, segments = [] }: AudioForensicsProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const waveformRef = useRef<HTMLCanvasElement | null>(null);
+  const spectrogramRef = useRef<HTMLCanvasElement | null>(null);
+  const [decoded, setDecoded] = useState<{ peaks: { min: number; max: number }[]; spectrogram: Heatmap; duration: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeAudio(file)
+      .then(({ samples, duration }) => {
+        if (cancelled) return;
+        setDecoded({
+          peaks: waveformPeaks(samples, WAVEFORM_BUCKETS),
+          spectrogram: melSpectrogram(samples, ANALYSIS_SAMPLE_RATE),
+          duration,
+        });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = waveformRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !decoded) return;
+    const { peaks } = decoded;
+    canvas.width = peaks.length;
+    canvas.height = 100;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(255,255,255,0.55)';
+    peaks.forEach(({ min, max }, x) => {
+      const top = 50 - max * 50;
+      ctx.fillRect(x, top, 1, Math.max(1, (max - min) * 50));
+    });
+  }, [decoded]);
+
+  useEffect(() => {
+    const canvas = spectrogramRef.current;
+    if (!canvas || !decoded) return;
+    const { spectrogram } = decoded;
+    canvas.width = spectrogram.width;
+    canvas.height = spectrogram.height;
+    canvas.getContext('2d')?.putImageData(heatmapToImageData(spectrogram), 0, 0);
+  }, [decoded]);
+
+  // The spectrogram only covers the decoded opening of very long files, but
+  // segments and the playhead are placed against the full duration
+  const duration = decoded?.duration ?? audioRef.current?.duration ?? 0;
+  const flagged = segments.filter((s) => s.score !== null && labelFromScore(s.score) === 'Likely AI');
+
+  function seek(time: number) {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = time;
+    setCurrentTime(time);
+  }
+
+  return (
+    <div className="p-5">
+      <audio
+        ref={audioRef}
+        controls
+        className="w-full"
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      >
+        <source src={src} />
+      </audio>
+
+      {error ? (
+        <div className="mt-3 text-sm text-white/50">
+          Could not decode this file for the waveform: {error}. Tip: if audio doesn’t play, try mp3/wav.
+        </div>
+      ) : !decoded ? (
+        <div className="mt-4 flex h-24 items-center justify-center text-sm text-white/60">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Decoding audio…
+        </div>
+      ) : (
+        <>
+          <div className="relative mt-4 h-24 overflow-hidden rounded-xl border border-white/10 bg-black/30">
+            <canvas ref={waveformRef} className="pointer-events-none absolute inset-0 h-full w-full" />
+            {duration > 0 &&
+              segments.map((s) => (
+                <button
+                  key={s.index}
+                  onClick={() => seek(s.start)}
+                  title={`${formatTime(s.start)}–${formatTime(s.end)} • ${
+                    s.score === null ? 'no score' : `${Math.round(s.score * 100)}% AI`
+                  }`}
+                  className={`absolute inset-y-0 border-r border-white/5 transition ${segmentShade(s)}`}
+                  style={{ left: `${(s.start / duration) * 100}%`, width: `${((s.end - s.start) / duration) * 100}%` }}
+                />
+              ))}
+            {duration > 0 && (
+              <div
+                className="pointer-events-none absolute inset-y-0 w-px bg-white/80"
+                style={{ left: `${Math.min(1, currentTime / duration) * 100}%` }}
+              />
+            )}
+          </div>
+
+          <div className="relative mt-2 h-24 overflow-hidden rounded-xl border border-white/10 bg-black">
+            <canvas ref={spectrogramRef} className="absolute inset-0 h-full w-full" style={{ imageRendering: 'pixelated' }} />
+          </div>
+
+          <div className="mt-3 flex items-center justify-between text-xs text-white/50">
+            <span>Waveform • mel spectrogram</span>
+            <span className="tabular-nums">
+              {formatTime(currentTime)} / {formatTime(duration)}
+            </span>
+          </div>
+
+          {segments.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-white/55">
+                {flagged.length > 0
+                  ? `${flagged.length} of ${segments.length} segments flagged`
+                  : `${segments.length} segments scored, none flagged`}
+              </span>
+              {flagged.map((s) => (
+                <button
+                  key={s.index}
+                  onClick={() => seek(s.start)}
+                  className="rounded-xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.10)] px-3 py-1 text-white/85 transition hover:bg-[rgba(255,45,45,0.18)]"
+                >
+                  {formatTime(s.start)} • {Math.round((s.score ?? 0) * 100)}%
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { FormEvent, useState } from 'react';
+import { Loader2, LogIn, UserPlus } from 'lucide-react';
+import { register, signIn } from '../lib/api';
+
+type Mode = 'sign_in' | 'register';
+
+interface AuthViewProps {
+  onSignedIn: () => void;
+}
+
+export default function AuthView({ onSignedIn }: AuthViewProps) {
+  const [mode, setMode] = useState<Mode>('sign_in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await (mode === 'sign_in' ? signIn(email, password) : register(email, password));
+      onSignedIn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  const fieldClass =
+    'w-full bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="max-w-md mx-auto space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-white mb-2">{mode === 'sign_in' ? 'Sign In' : 'Create Account'}</h2>
+        <p className="text-slate-300">
+          Analyses you upload while signed in are only visible to you
+        </p>
+      </div>
+
+      <form onSubmit={submit} className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6 space-y-4">
+        <label className="block">
+          <span className="block text-sm text-slate-400 mb-1">Email</span>
+          <input
+            type="email"
+            required
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className={fieldClass}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm text-slate-400 mb-1">Password</span>
+          <input
+            type="password"
+            required
+            minLength={mode === 'register' ? 8 : undefined}
+            autoComplete={mode === 'sign_in' ? 'current-password' : 'new-password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={fieldClass}
+          />
+          {mode === 'register' && <span className="block text-xs text-slate-500 mt-1">At least 8 characters</span>}
+        </label>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full inline-flex items-center justify-center space-x-2 px-5 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+        >
+          {isSubmitting ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : mode === 'sign_in' ? (
+            <LogIn className="w-4 h-4" />
+          ) : (
+            <UserPlus className="w-4 h-4" />
+          )}
+          <span>{mode === 'sign_in' ? 'Sign In' : 'Create Account'}</span>
+        </button>
+      </form>
+
+      <p className="text-center text-sm text-slate-400">
+        {mode === 'sign_in' ? 'No account yet? ' : 'Already have an account? '}
+        <button
+          type="button"
+          onClick={() => switchMode(mode === 'sign_in' ? 'register' : 'sign_in')}
+          className="text-blue-400 hover:underline"
+        >
+          {mode === 'sign_in' ? 'Create one' : 'Sign in'}
+        </button>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { BatchItem } from '../lib/useBatchQueue';
+import { BatchSummary } from '../types';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  summary: BatchSummary | null; // the server's, null until a job has finished
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onClear: () => void;
+}
+
+type SortKey = 'name' | 'type' | 'status' | 'score';
+
+const STATUS_ORDER: Record<BatchItem['status'], number> = {
+  failed: 0,
+  processing: 1,
+  pending: 2,
+  uploading: 3,
+  queued: 4,
+  completed: 5,
+};
+
+function bytesToHuman(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function BatchQueue({ items, summary: server, onRetry, onRetryFailed, onClear }: BatchQueueProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('score');
+  const [ascending, setAscending] = useState(false);
+
+  const sorted = useMemo(() => {
+    const value = (it: BatchItem): string | number => {
+      switch (sortKey) {
+        case 'name':
+          return it.file.name.toLowerCase();
+        case 'type':
+          return it.file.type;
+        case 'status':
+          return STATUS_ORDER[it.status];
+        case 'score':
+          return it.score ?? -1;
+      }
+    };
+    return [...items].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      const c = va < vb ? -1 : va > vb ? 1 : 0;
+      return ascending ? c : -c;
+    });
+  }, [items, sortKey, ascending]);
+
+  // Progress counts the local queue, which includes files not uploaded yet;
+  // verdict counts and the average come from the server's batch summary
+  const summary = useMemo(() => ({
+    total: items.length,
+    done: items.filter((it) => it.status === 'completed').length,
+    failed: items.filter((it) => it.status === 'failed').length,
+    likelyAi: server?.likelyAi ?? 0,
+    unclear: server?.unclear ?? 0,
+    likelyReal: server?.likelyReal ?? 0,
+    average: server?.averageScore ?? null,
+  }), [items, server]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else {
+      setSortKey(key);
+      setAscending(key === 'name' || key === 'type');
+    }
+  };
+
+  const header = (key: SortKey, label: string, className = '') => (
+    <th className={`px-4 py-3 font-medium ${className}`}>
+      <button
+        onClick={() => toggleSort(key)}
+        className="inline-flex items-center gap-1 text-white/55 transition hover:text-white/85"
+      >
+        {label}
+        {sortKey === key && (ascending ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />)}
+      </button>
+    </th>
+  );
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="rounded-[32px] border border-white/10 bg-gradient-to-b from-white/[0.06] to-white/[0.02] p-7 sm:p-8 shadow-[0_30px_100px_rgba(255,45,45,0.12)] backdrop-blur-2xl">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="text-lg font-medium">Batch analysis</div>
+          <div className="text-base text-white/60">
+            {summary.done} of {summary.total} analyzed
+            {summary.failed > 0 && ` • ${summary.failed} failed`}
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          {summary.failed > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="inline-flex items-center gap-2 rounded-2xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.12)] px-4 py-2 text-sm text-white/85 transition hover:bg-[rgba(255,45,45,0.18)]"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Retry failed
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/75 transition hover:bg-white/10"
+          >
+            <Trash2 className="h-4 w-4" />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-3 sm:grid-cols-4">
+        {[
+          { label: 'Likely AI', value: summary.likelyAi, accent: true },
+          { label: 'Unclear', value: summary.unclear },
+          { label: 'Likely Real', value: summary.likelyReal },
+          {
+            label: 'Average AI score',
+            value: summary.average === null ? '—' : `${Math.round(summary.average * 100)}%`,
+          },
+        ].map((card) => (
+          <div
+            key={card.label}
+            className={`rounded-2xl border p-4 ${
+              card.accent ? 'border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.08)]' : 'border-white/10 bg-white/[0.03]'
+            }`}
+          >
+            <div className="text-2xl font-semibold tabular-nums">{card.value}</div>
+            <div className="mt-1 text-sm text-white/55">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 overflow-x-auto rounded-2xl border border-white/10">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-white/10 bg-white/[0.03]">
+            <tr>
+              {header('name', 'File')}
+              {header('type', 'Type')}
+              {header('status', 'Status')}
+              {header('score', 'AI score', 'text-right')}
+              <th className="px-4 py-3 font-medium text-white/55">Verdict</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((it) => {
+              const { label } = it;
+              const running = it.status === 'uploading' || it.status === 'pending' || it.status === 'processing';
+              return (
+                <tr key={it.id} className="border-b border-white/5 last:border-0">
+                  <td className="max-w-[260px] px-4 py-3">
+                    <div className="truncate text-white/85">{it.file.name}</div>
+                    <div className="text-xs text-white/45">{bytesToHuman(it.file.size)}</div>
+                  </td>
+                  <td className="px-4 py-3 text-white/60">{it.file.type.split('/')[0] || '—'}</td>
+                  <td className="min-w-[160px] px-4 py-3">
+                    <div className="flex items-center gap-2 text-white/70">
+                      {running && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                      <span>{it.status}</span>
+                      {it.cached && <span className="text-xs text-white/45">(cached)</span>}
+                    </div>
+                    {running && (
+                      <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-white/10">
+                        <div
+                          className="h-full bg-[rgba(255,45,45,0.85)] transition-all"
+                          style={{ width: `${Math.max(5, it.progress * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                    {it.error && <div className="mt-1 text-xs text-[rgba(255,120,120,0.9)]">{it.error}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-right tabular-nums text-white/85">
+                    {it.score === null ? '—' : `${Math.round(it.score * 100)}%`}
+                  </td>
+                  <td className="px-4 py-3">
+                    {label && (
+                      <span
+                        className={`rounded-full border px-2.5 py-0.5 text-xs ${
+                          label === 'Likely AI'
+                            ? 'border-[rgba(255,45,45,0.30)] bg-[rgba(255,45,45,0.12)] text-white/90'
+                            : 'border-white/10 bg-white/5 text-white/70'
+                        }`}
+                      >
+                        {label}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {it.status === 'failed' && (
+                      <button
+                        onClick={() => onRetry(it.id)}
+                        className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2.5 py-1 text-xs text-white/75 transition hover:bg-white/10"
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
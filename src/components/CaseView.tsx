@@ -0,0 +1,246 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, FileAudio, FileImage, FileVideo, FolderOpen, Loader2, Pencil, Trash2, X } from 'lucide-react';
+import { deleteCase, getCase, removeFromCase, updateCase } from '../lib/api';
+import { CASE_STATUS_OPTIONS, canEditCases, canManage } from '../lib/cases';
+import { navigate, workspacePath } from '../lib/router';
+import { analysisVerdict } from '../lib/score';
+import { useSession } from '../lib/session';
+import { CaseDetail, CaseStatus } from '../types';
+
+interface CaseViewProps {
+  caseId: string;
+  onViewAnalysis: (analysisId: string) => void;
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const FILE_ICONS = {
+  image: <FileImage className="w-5 h-5 text-blue-400" />,
+  video: <FileVideo className="w-5 h-5 text-green-400" />,
+  audio: <FileAudio className="w-5 h-5 text-purple-400" />,
+};
+
+const OUTCOME_BADGES = {
+  ai_generated: { label: 'AI Detected', className: 'bg-red-500/20 text-red-400' },
+  uncertain: { label: 'Uncertain', className: 'bg-amber-500/20 text-amber-400' },
+  authentic: { label: 'Authentic', className: 'bg-green-500/20 text-green-400' },
+};
+
+export default function CaseView({ caseId, onViewAnalysis }: CaseViewProps) {
+  const userId = useSession()?.user.id;
+  const [detail, setDetail] = useState<CaseDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getCase(caseId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setDetail(loaded);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not load the case: ${errorMessage(err)}`);
+      })
+      .then(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [caseId, userId]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const startEditing = () => {
+    if (!detail) return;
+    setTitle(detail.title);
+    setDescription(detail.description);
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    void run(async () => {
+      setDetail(await updateCase(caseId, { title, description }));
+      setIsEditing(false);
+    });
+  };
+
+  const handleStatus = (status: CaseStatus) => {
+    void run(async () => setDetail(await updateCase(caseId, { status })));
+  };
+
+  const handleRemove = (analysisId: string) => {
+    void run(async () => {
+      await removeFromCase(caseId, analysisId);
+      setDetail(await getCase(caseId));
+    });
+  };
+
+  const handleDelete = () => {
+    if (!detail || !window.confirm(`Delete the case "${detail.title}"? Its analyses are kept.`)) return;
+    void run(async () => {
+      await deleteCase(caseId);
+      navigate(workspacePath(detail.workspace_id));
+    });
+  };
+
+  const fieldClass =
+    'bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-12 h-12 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-12 text-center">
+        <AlertTriangle className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-white mb-2">Case not available</h3>
+        <p className="text-slate-400">{error ?? 'It may have been deleted, or you are not a member of its workspace'}</p>
+      </div>
+    );
+  }
+
+  const editable = canEditCases(detail.role);
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={() => navigate(workspacePath(detail.workspace_id))}
+        className="inline-flex items-center space-x-2 text-sm text-slate-400 hover:text-white transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>All cases</span>
+      </button>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-5 h-5 text-red-400" />
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+        {isEditing ? (
+          <form onSubmit={handleSave} className="space-y-3">
+            <input required value={title} onChange={(e) => setTitle(e.target.value)} className={`${fieldClass} w-full text-lg`} />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is being investigated"
+              rows={3}
+              className={`${fieldClass} w-full`}
+            />
+            <div className="flex space-x-2">
+              <button type="submit" className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm font-medium transition-colors">
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="px-4 py-2 rounded-lg text-sm text-slate-200 bg-slate-700/50 hover:bg-slate-600/50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h2 className="text-3xl font-bold text-white">{detail.title}</h2>
+              {detail.description && <p className="text-slate-300 mt-2 whitespace-pre-line">{detail.description}</p>}
+              <p className="text-slate-500 text-xs mt-3">
+                Opened {new Date(detail.created_at).toLocaleString()} · updated {new Date(detail.updated_at).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={detail.status}
+                disabled={!editable}
+                onChange={(e) => handleStatus(e.target.value as CaseStatus)}
+                className={fieldClass}
+              >
+                {CASE_STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {editable && (
+                <button onClick={startEditing} title="Edit case" className="p-2 text-slate-400 hover:text-white transition-colors">
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              {canManage(detail.role) && (
+                <button onClick={handleDelete} title="Delete case" className="p-2 text-slate-400 hover:text-red-400 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {detail.analyses.length === 0 ? (
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-12 text-center">
+          <FolderOpen className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No analyses in this case</h3>
+          <p className="text-slate-400">Select analyses in History and add them to this case</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {detail.analyses.map((analysis) => {
+            const verdict = analysis.verdict || analysis.results.length > 0 ? analysisVerdict(analysis, analysis.results) : null;
+            const badge = verdict ? OUTCOME_BADGES[verdict.outcome] : null;
+            return (
+              <div
+                key={analysis.id}
+                onClick={() => onViewAnalysis(analysis.id)}
+                className="flex items-center justify-between gap-4 bg-slate-800/50 border border-slate-700/50 hover:border-slate-600/50 rounded-xl p-4 cursor-pointer transition-all"
+              >
+                <div className="flex items-center space-x-4 min-w-0">
+                  {FILE_ICONS[analysis.file_type]}
+                  <div className="min-w-0">
+                    <h3 className="text-white font-semibold truncate">{analysis.file_name}</h3>
+                    <p className="text-slate-400 text-sm">{new Date(analysis.created_at).toLocaleString()}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  {badge && <span className={`px-2 py-1 rounded text-xs ${badge.className}`}>{badge.label}</span>}
+                  {editable && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemove(analysis.id);
+                      }}
+                      title="Remove from case"
+                      className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Briefcase, FolderOpen, Loader2, Plus, Trash2, UserPlus, Users } from 'lucide-react';
+import {
+  addWorkspaceMember,
+  createCase,
+  createWorkspace,
+  getWorkspace,
+  listCases,
+  listWorkspaces,
+  removeWorkspaceMember,
+  updateWorkspaceMember,
+} from '../lib/api';
+import { CASE_STATUS_OPTIONS, ROLE_OPTIONS, canEditCases, canManage, caseStatusOption } from '../lib/cases';
+import { navigate, useSearch, workspacePath } from '../lib/router';
+import { useSession } from '../lib/session';
+import { Case, CaseStatus, Workspace, WorkspaceDetail, WorkspaceRole } from '../types';
+
+interface CasesViewProps {
+  onOpenCase: (caseId: string) => void;
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Workspaces the signed-in user belongs to; the selected one (`?workspace=`)
+// shows its cases and members
+export default function CasesView({ onOpenCase }: CasesViewProps) {
+  const session = useSession();
+  const userId = session?.user.id;
+  const selectedId = new URLSearchParams(useSearch()).get('workspace');
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspace, setWorkspace] = useState<WorkspaceDetail | null>(null);
+  const [cases, setCases] = useState<Case[]>([]);
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [caseTitle, setCaseTitle] = useState('');
+  const [caseDescription, setCaseDescription] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<WorkspaceRole>('reviewer');
+
+  const loadWorkspaces = useCallback(async () => {
+    setWorkspaces(await listWorkspaces());
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    loadWorkspaces()
+      .then(() => {
+        if (!cancelled) setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not load workspaces: ${errorMessage(err)}`);
+      })
+      .then(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, loadWorkspaces]);
+
+  // Open the first workspace when none is selected
+  useEffect(() => {
+    if (!selectedId && workspaces.length > 0) navigate(workspacePath(workspaces[0].id), { replace: true });
+  }, [selectedId, workspaces]);
+
+  useEffect(() => {
+    if (!userId || !selectedId) {
+      setWorkspace(null);
+      setCases([]);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([getWorkspace(selectedId), listCases(selectedId, statusFilter || undefined)])
+      .then(([detail, list]) => {
+        if (cancelled) return;
+        setWorkspace(detail);
+        setCases(list);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not load the workspace: ${errorMessage(err)}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, selectedId, statusFilter]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleCreateWorkspace = (e: FormEvent) => {
+    e.preventDefault();
+    void run(async () => {
+      const created = await createWorkspace(workspaceName);
+      setWorkspaceName('');
+      await loadWorkspaces();
+      navigate(workspacePath(created.id));
+    });
+  };
+
+  const handleCreateCase = (e: FormEvent) => {
+    e.preventDefault();
+    if (!workspace) return;
+    void run(async () => {
+      const created = await createCase(workspace.id, { title: caseTitle, description: caseDescription });
+      setCaseTitle('');
+      setCaseDescription('');
+      onOpenCase(created.id);
+    });
+  };
+
+  const refreshWorkspace = async (id: string) => {
+    setWorkspace(await getWorkspace(id));
+  };
+
+  const handleAddMember = (e: FormEvent) => {
+    e.preventDefault();
+    if (!workspace) return;
+    void run(async () => {
+      await addWorkspaceMember(workspace.id, memberEmail, memberRole);
+      setMemberEmail('');
+      await refreshWorkspace(workspace.id);
+    });
+  };
+
+  const handleRoleChange = (memberId: string, role: WorkspaceRole) => {
+    if (!workspace) return;
+    void run(async () => {
+      await updateWorkspaceMember(workspace.id, memberId, role);
+      await refreshWorkspace(workspace.id);
+    });
+  };
+
+  const handleRemoveMember = (memberId: string) => {
+    if (!workspace) return;
+    const leaving = memberId === userId;
+    if (!window.confirm(leaving ? `Leave ${workspace.name}?` : 'Remove this member from the workspace?')) return;
+    void run(async () => {
+      await removeWorkspaceMember(workspace.id, memberId);
+      if (leaving) {
+        await loadWorkspaces();
+        navigate('/cases', { replace: true });
+      } else {
+        await refreshWorkspace(workspace.id);
+      }
+    });
+  };
+
+  const fieldClass =
+    'bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+  const buttonClass =
+    'inline-flex items-center justify-center space-x-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors';
+
+  if (!session) {
+    return (
+      <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-12 text-center">
+        <Users className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-white mb-2">Sign in to use workspaces</h3>
+        <p className="text-slate-400 mb-4">Workspaces let a team review analyses together in shared cases</p>
+        <button onClick={() => navigate('/login')} className={buttonClass}>
+          Sign in
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-white mb-2">Cases</h2>
+        <p className="text-slate-300">
+          Group analyses into investigations and review them with your team
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-5 h-5 text-red-400" />
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6 space-y-4 h-fit">
+          <h3 className="text-lg font-semibold text-white">Workspaces</h3>
+          {isLoading ? (
+            <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+          ) : workspaces.length === 0 ? (
+            <p className="text-slate-400 text-sm">You are not in any workspace yet</p>
+          ) : (
+            <div className="space-y-1">
+              {workspaces.map((item) => (
+                <button
+                  key={item.id}
+                  onClick={() => navigate(workspacePath(item.id))}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                    item.id === selectedId ? 'bg-blue-500/20 text-white' : 'text-slate-300 hover:bg-slate-700/50'
+                  }`}
+                >
+                  <span className="block truncate">{item.name}</span>
+                  <span className="block text-xs text-slate-500">
+                    {ROLE_OPTIONS.find((r) => r.value === item.role)?.label} · {item.caseCount} cases
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+          <form onSubmit={handleCreateWorkspace} className="space-y-2 pt-2 border-t border-slate-700/50">
+            <input
+              required
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              placeholder="New workspace name"
+              className={`${fieldClass} w-full`}
+            />
+            <button type="submit" className={`${buttonClass} w-full`}>
+              <Plus className="w-4 h-4" />
+              <span>Create workspace</span>
+            </button>
+          </form>
+        </div>
+
+        {workspace ? (
+          <div className="lg:col-span-3 space-y-6">
+            <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h3 className="text-xl font-semibold text-white flex items-center space-x-2">
+                  <Briefcase className="w-5 h-5 text-blue-400" />
+                  <span>{workspace.name}</span>
+                </h3>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as CaseStatus | '')}
+                  className={fieldClass}
+                >
+                  <option value="">All statuses</option>
+                  {CASE_STATUS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {cases.length === 0 ? (
+                <div className="text-center py-8">
+                  <FolderOpen className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+                  <p className="text-slate-400">{statusFilter ? 'No cases with this status' : 'No cases yet'}</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {cases.map((item) => {
+                    const status = caseStatusOption(item.status);
+                    return (
+                      <button
+                        key={item.id}
+                        onClick={() => onOpenCase(item.id)}
+                        className="w-full text-left bg-slate-900/40 border border-slate-700/50 hover:border-slate-600/50 rounded-lg p-4 transition-colors"
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="text-white font-medium truncate">{item.title}</span>
+                          <span className={`px-2 py-1 rounded text-xs ${status.badge}`}>{status.label}</span>
+                        </div>
+                        {item.description && <p className="text-slate-400 text-sm mt-1 truncate">{item.description}</p>}
+                        <p className="text-slate-500 text-xs mt-2">
+                          {item.analysisCount} analyses · updated {new Date(item.updated_at).toLocaleString()}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {canEditCases(workspace.role) && (
+                <form onSubmit={handleCreateCase} className="mt-4 pt-4 border-t border-slate-700/50 space-y-2">
+                  <input
+                    required
+                    value={caseTitle}
+                    onChange={(e) => setCaseTitle(e.target.value)}
+                    placeholder="Case title"
+                    className={`${fieldClass} w-full`}
+                  />
+                  <textarea
+                    value={caseDescription}
+                    onChange={(e) => setCaseDescription(e.target.value)}
+                    placeholder="What is being investigated"
+                    rows={2}
+                    className={`${fieldClass} w-full`}
+                  />
+                  <button type="submit" className={buttonClass}>
+                    <Plus className="w-4 h-4" />
+                    <span>Open case</span>
+                  </button>
+                </form>
+              )}
+            </div>
+
+            <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+                <Users className="w-5 h-5 text-blue-400" />
+                <span>Members</span>
+              </h3>
+              <div className="space-y-2">
+                {workspace.members.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between gap-3">
+                    <span className="text-slate-200 text-sm truncate">
+                      {member.email ?? member.user_id}
+                      {member.user_id === userId && <span className="text-slate-500"> (you)</span>}
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      {canManage(workspace.role) ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member.user_id, e.target.value as WorkspaceRole)}
+                          className={fieldClass}
+                        >
+                          {ROLE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-slate-400 text-sm">{ROLE_OPTIONS.find((r) => r.value === member.role)?.label}</span>
+                      )}
+                      {(canManage(workspace.role) || member.user_id === userId) && (
+                        <button
+                          onClick={() => handleRemoveMember(member.user_id)}
+                          title={member.user_id === userId ? 'Leave workspace' : 'Remove member'}
+                          className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {canManage(workspace.role) && (
+                <form onSubmit={handleAddMember} className="mt-4 pt-4 border-t border-slate-700/50 flex flex-wrap gap-2">
+                  <input
+                    type="email"
+                    required
+                    value={memberEmail}
+                    onChange={(e) => setMemberEmail(e.target.value)}
+                    placeholder="Email of an existing account"
+                    className={`${fieldClass} flex-1 min-w-[200px]`}
+                  />
+                  <select value={memberRole} onChange={(e) => setMemberRole(e.target.value as WorkspaceRole)} className={fieldClass}>
+                    {ROLE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value} title={option.description}>{option.label}</option>
+                    ))}
+                  </select>
+                  <button type="submit" className={buttonClass}>
+                    <UserPlus className="w-4 h-4" />
+                    <span>Add member</span>
+                  </button>
+                </form>
+              )}
+              <ul className="mt-4 space-y-1">
+                {ROLE_OPTIONS.map((option) => (
+                  <li key={option.value} className="text-slate-500 text-xs">
+                    <span className="text-slate-400">{option.label}:</span> {option.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
+          !isLoading && (
+            <div className="lg:col-span-3 bg-slate-800/50 border border-slate-700/50 rounded-2xl p-12 text-center">
+              <Briefcase className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-white mb-2">No workspace selected</h3>
+              <p className="text-slate-400">Create a workspace to start grouping analyses into cases</p>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
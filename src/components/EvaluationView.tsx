@@ -0,0 +1,286 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, FlaskConical, Loader2, Play, Target } from 'lucide-react';
+import { getEvaluation, startEvaluation } from '../lib/api';
+import { EvaluationState, ModelMetrics } from '../types';
+
+const COLORS = ['#60a5fa', '#34d399', '#c084fc', '#fbbf24', '#f472b6', '#22d3ee'];
+const ENSEMBLE_COLOR = '#f87171';
+
+const percent = (x: number | null) => (x === null ? '—' : `${(x * 100).toFixed(1)}%`);
+const decimal = (x: number | null) => (x === null ? '—' : x.toFixed(3));
+
+interface CurveChartProps {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  series: { name: string; color: string; points: { x: number; y: number }[] }[];
+  diagonal?: boolean;
+}
+
+function CurveChart({ title, xLabel, yLabel, series, diagonal }: CurveChartProps) {
+  const size = 240;
+  const pad = 32;
+  const scale = (v: number) => pad + v * (size - pad * 2);
+  const path = (points: { x: number; y: number }[]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${scale(p.x).toFixed(1)},${(size - scale(p.y)).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <h3 className="text-xl font-bold text-white mb-4">{title}</h3>
+      <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-sm mx-auto">
+        <rect x={pad} y={pad} width={size - pad * 2} height={size - pad * 2} fill="none" stroke="#334155" />
+        {[0.25, 0.5, 0.75].map((t) => (
+          <g key={t} stroke="#1e293b">
+            <line x1={scale(t)} y1={pad} x2={scale(t)} y2={size - pad} />
+            <line x1={pad} y1={size - scale(t)} x2={size - pad} y2={size - scale(t)} />
+          </g>
+        ))}
+        {diagonal && (
+          <line x1={scale(0)} y1={size - scale(0)} x2={scale(1)} y2={size - scale(1)} stroke="#475569" strokeDasharray="4 4" />
+        )}
+        {series.map((s) => (
+          <path key={s.name} d={path(s.points)} fill="none" stroke={s.color} strokeWidth={s.color === ENSEMBLE_COLOR ? 2.5 : 1.5} />
+        ))}
+        <text x={size / 2} y={size - 8} textAnchor="middle" className="fill-slate-400" fontSize="10">{xLabel}</text>
+        <text x={10} y={size / 2} textAnchor="middle" className="fill-slate-400" fontSize="10" transform={`rotate(-90 10 ${size / 2})`}>
+          {yLabel}
+        </text>
+      </svg>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-xs">
+        {series.map((s) => (
+          <span key={s.name} className="inline-flex items-center space-x-1 text-slate-300">
+            <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: s.color }} />
+            <span>{s.name}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ConfusionGrid({ confusion }: { confusion: ModelMetrics['confusion'] }) {
+  const cells = [
+    { label: 'TP', value: confusion.tp, className: 'bg-green-500/20 text-green-400' },
+    { label: 'FN', value: confusion.fn, className: 'bg-red-500/10 text-red-300' },
+    { label: 'FP', value: confusion.fp, className: 'bg-red-500/10 text-red-300' },
+    { label: 'TN', value: confusion.tn, className: 'bg-green-500/20 text-green-400' },
+  ];
+  return (
+    <div className="grid grid-cols-2 gap-1 w-28">
+      {cells.map((c) => (
+        <div key={c.label} className={`rounded px-2 py-1 text-xs text-center ${c.className}`}>
+          {c.label} {c.value}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function EvaluationView() {
+  const [state, setState] = useState<EvaluationState | null>(null);
+  const [dataset, setDataset] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadEvaluation = async () => {
+    try {
+      setState(await getEvaluation());
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(`Could not load evaluation: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadEvaluation();
+  }, []);
+
+  useEffect(() => {
+    if (state?.status !== 'running') return;
+    const interval = setInterval(loadEvaluation, 2000);
+    return () => clearInterval(interval);
+  }, [state?.status]);
+
+  const runEvaluation = async () => {
+    try {
+      const started = await startEvaluation(dataset.trim() || undefined);
+      setState((prev) => ({ ...started, report: prev?.report ?? null }));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(`Could not start evaluation: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-12 h-12 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  const report = state?.report ?? null;
+  const rows = report ? [...report.models, report.ensemble] : [];
+  const colorOf = (m: ModelMetrics, i: number) => (m === report?.ensemble ? ENSEMBLE_COLOR : COLORS[i % COLORS.length]);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-white mb-2">Detector Evaluation</h2>
+        <p className="text-slate-300">
+          How each model performs on a labeled reference set
+        </p>
+      </div>
+
+      {loadError && (
+        <div className="flex items-center space-x-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-5 h-5 text-red-400" />
+          <p className="text-red-400">{loadError}</p>
+        </div>
+      )}
+
+      <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <input
+            value={dataset}
+            onChange={(e) => setDataset(e.target.value)}
+            placeholder="Dataset CSV in the server's dataset directory (defaults to EVALUATION_DATASET)"
+            className="flex-1 bg-slate-900/60 border border-slate-700 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={runEvaluation}
+            disabled={state?.status === 'running'}
+            className="inline-flex items-center justify-center space-x-2 px-5 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+          >
+            {state?.status === 'running' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            <span>{state?.status === 'running' ? 'Evaluating...' : 'Run Evaluation'}</span>
+          </button>
+        </div>
+
+        {state?.status === 'running' && state.progress && (
+          <div className="mt-4">
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-slate-400">{state.dataset}</span>
+              <span className="text-blue-400">{state.progress.done} / {state.progress.total}</span>
+            </div>
+            <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${(state.progress.done / Math.max(1, state.progress.total)) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {state?.status === 'failed' && state.error && (
+          <p className="mt-4 text-sm text-red-400">Last run failed: {state.error}</p>
+        )}
+      </div>
+
+      {!report ? (
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-12 text-center">
+          <FlaskConical className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No evaluation yet</h3>
+          <p className="text-slate-400">
+            Run one here or with <code className="text-slate-300">npm run evaluate -- dataset.csv</code>
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Accuracy', value: percent(report.ensemble.accuracy), color: 'text-blue-400' },
+              { label: 'ROC-AUC', value: decimal(report.ensemble.rocAuc), color: 'text-cyan-400' },
+              { label: 'Equal Error Rate', value: percent(report.ensemble.eer), color: 'text-red-400' },
+              { label: 'F1 Score', value: decimal(report.ensemble.f1), color: 'text-green-400' },
+            ].map((card) => (
+              <div key={card.label} className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <Target className="w-8 h-8 text-slate-500" />
+                  <div className={`text-3xl font-bold ${card.color}`}>{card.value}</div>
+                </div>
+                <div className="text-white font-medium">{card.label}</div>
+                <div className="text-slate-400 text-sm mt-1">
+                  Ensemble{report.ensemble.strategy ? ` (${report.ensemble.strategy})` : ''}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-slate-400 text-sm">
+            {report.files} files from {report.dataset} • evaluated {new Date(report.evaluatedAt).toLocaleString()}
+            {' • '}
+            {report.calibration ? `${report.calibration.method} calibration` : 'uncalibrated scores'}
+            {report.failed.length > 0 && ` • ${report.failed.length} files failed`}
+          </p>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <CurveChart
+              title="ROC Curve"
+              xLabel="False positive rate"
+              yLabel="True positive rate"
+              diagonal
+              series={rows.map((m, i) => ({
+                name: m.name,
+                color: colorOf(m, i),
+                points: m.roc.map((p) => ({ x: p.fpr, y: p.tpr })),
+              }))}
+            />
+            <CurveChart
+              title="Precision / Recall"
+              xLabel="Recall"
+              yLabel="Precision"
+              series={rows.map((m, i) => ({
+                name: m.name,
+                color: colorOf(m, i),
+                points: m.pr.map((p) => ({ x: p.recall, y: p.precision })),
+              }))}
+            />
+          </div>
+
+          <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6 overflow-x-auto">
+            <h3 className="text-xl font-bold text-white mb-4">Per-Model Metrics</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="py-2 pr-4 font-medium">Model</th>
+                  <th className="py-2 pr-4 font-medium text-right">Accuracy</th>
+                  <th className="py-2 pr-4 font-medium text-right">Precision</th>
+                  <th className="py-2 pr-4 font-medium text-right">Recall</th>
+                  <th className="py-2 pr-4 font-medium text-right">ROC-AUC</th>
+                  <th className="py-2 pr-4 font-medium text-right">Avg. Precision</th>
+                  <th className="py-2 pr-4 font-medium text-right">EER</th>
+                  <th className="py-2 font-medium">Confusion @ {report.ensemble.threshold}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((m, i) => (
+                  <tr key={m.name} className="border-b border-slate-700/50 last:border-0">
+                    <td className="py-3 pr-4">
+                      <span className="inline-flex items-center space-x-2">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorOf(m, i) }} />
+                        <span className="text-white font-medium">{m.name}</span>
+                      </span>
+                      <div className="text-slate-500 text-xs mt-0.5">
+                        {m.samples} samples ({m.positives} AI / {m.negatives} real)
+                      </div>
+                    </td>
+                    <td className="py-3 pr-4 text-right text-slate-200">{percent(m.accuracy)}</td>
+                    <td className="py-3 pr-4 text-right text-slate-200">{percent(m.precision)}</td>
+                    <td className="py-3 pr-4 text-right text-slate-200">{percent(m.recall)}</td>
+                    <td className="py-3 pr-4 text-right text-slate-200">{decimal(m.rocAuc)}</td>
+                    <td className="py-3 pr-4 text-right text-slate-200">{decimal(m.averagePrecision)}</td>
+                    <td className="py-3 pr-4 text-right text-slate-200">{percent(m.eer)}</td>
+                    <td className="py-3">
+                      <ConfusionGrid confusion={m.confusion} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
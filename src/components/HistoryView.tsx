@@ -1,47 +1,182 @@
-import { useEffect, useState } from 'react';
-import { Clock, FileImage, FileVideo, FileAudio, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { Analysis, AnalysisResult } from '../types';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Clock, FileImage, FileVideo, FileAudio, AlertTriangle, CheckCircle, HelpCircle, Loader2, Download, Search, X } from 'lucide-react';
+import AddToCaseBar from './AddToCaseBar';
+import { searchHistory } from '../lib/api';
+import { navigate, useSearch } from '../lib/router';
+import { useSession } from '../lib/session';
+import { analysisVerdict } from '../lib/score';
+import { buildReport, exportReport, ReportFormat } from '../lib/report';
+import { AnalysisWithResults, HistoryFilters } from '../types';
 
 interface HistoryViewProps {
   onViewAnalysis: (analysisId: string) => void;
 }
 
-interface AnalysisWithResults extends Analysis {
-  results?: AnalysisResult[];
+// URL query param for each filter, e.g. /history?q=beach&type=image&verdict=ai_generated
+const FILTER_PARAMS: Record<keyof HistoryFilters, string> = {
+  q: 'q',
+  fileType: 'type',
+  status: 'status',
+  verdict: 'verdict',
+  minScore: 'min',
+  maxScore: 'max',
+  from: 'from',
+  to: 'to',
+};
+
+const FILE_TYPE_OPTIONS = [
+  { value: '', label: 'All types' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+];
+
+const STATUS_OPTIONS = [
+  { value: '', label: 'Any status' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'failed', label: 'Failed' },
+];
+
+const VERDICT_OPTIONS = [
+  { value: '', label: 'Any verdict' },
+  { value: 'ai_generated', label: 'AI detected' },
+  { value: 'uncertain', label: 'Uncertain' },
+  { value: 'authentic', label: 'Authentic' },
+];
+
+// Unknown values are dropped rather than sent to the server
+function filtersFromSearch(search: string): HistoryFilters {
+  const params = new URLSearchParams(search);
+  const get = (key: keyof HistoryFilters) => params.get(FILTER_PARAMS[key]) ?? '';
+  const oneOf = <T extends string>(value: string, options: { value: string }[]) =>
+    (options.some((o) => o.value === value) ? value : '') as T;
+  const percent = (value: string) => (value !== '' && Number(value) >= 0 && Number(value) <= 100 ? value : '');
+  const day = (value: string) => (/^\d{4}-\d{2}-\d{2}$/.test(value) ? value : '');
+
+  return {
+    q: get('q'),
+    fileType: oneOf(get('fileType'), FILE_TYPE_OPTIONS),
+    status: oneOf(get('status'), STATUS_OPTIONS),
+    verdict: oneOf(get('verdict'), VERDICT_OPTIONS),
+    minScore: percent(get('minScore')),
+    maxScore: percent(get('maxScore')),
+    from: day(get('from')),
+    to: day(get('to')),
+  };
+}
+
+function searchFromFilters(filters: HistoryFilters) {
+  const params = new URLSearchParams();
+  for (const [key, param] of Object.entries(FILTER_PARAMS) as [keyof HistoryFilters, string][]) {
+    if (filters[key]) params.set(param, filters[key]);
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
 }
 
 export default function HistoryView({ onViewAnalysis }: HistoryViewProps) {
+  const search = useSearch();
+  const session = useSession();
+  const userId = session?.user.id;
+  const filters = useMemo(() => filtersFromSearch(search), [search]);
+  const [query, setQuery] = useState(filters.q);
+  const [urlQuery, setUrlQuery] = useState(filters.q);
   const [analyses, setAnalyses] = useState<AnalysisWithResults[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Analyses ticked for filing into a case; `isFiling` keeps the case bar
+  // mounted once used so its last message survives clearing the selection
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isFiling, setIsFiling] = useState(false);
+
+  // Filters live in the URL; changing one replaces the history entry
+  const setFilters = (patch: Partial<HistoryFilters>) => {
+    navigate(`/history${searchFromFilters({ ...filters, ...patch })}`, { replace: true });
+  };
+
+  // Back/forward and "Clear filters" change the URL's search under the input
+  if (filters.q !== urlQuery) {
+    setUrlQuery(filters.q);
+    setQuery(filters.q);
+  }
+
+  // The name search waits for a pause in typing
+  useEffect(() => {
+    if (query === filters.q) return;
+    const timeout = setTimeout(() => {
+      navigate(`/history${searchFromFilters({ ...filters, q: query })}`, { replace: true });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [query, filters]);
+
+  // Bumped whenever the list starts over, so a "Load more" page for the
+  // previous filters or user is dropped instead of appended
+  const listVersion = useRef(0);
 
   useEffect(() => {
-    loadHistory();
-  }, []);
-
-  const loadHistory = async () => {
-    const { data: analysesData } = await supabase
-      .from('analyses')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(50);
-
-    if (analysesData) {
-      const analysesWithResults = await Promise.all(
-        analysesData.map(async (analysis) => {
-          const { data: results } = await supabase
-            .from('analysis_results')
-            .select('*')
-            .eq('analysis_id', analysis.id);
-
-          return { ...analysis, results: results || [] };
-        })
-      );
-
-      setAnalyses(analysesWithResults);
+    let cancelled = false;
+    listVersion.current++;
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    searchHistory(filters)
+      .then((page) => {
+        if (cancelled) return;
+        setAnalyses(page.items);
+        setNextCursor(page.nextCursor);
+        setLoadError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(`Could not load history: ${err instanceof Error ? err.message : String(err)}`);
+      })
+      .then(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, userId]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    const version = listVersion.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await searchHistory(filters, nextCursor);
+      if (version !== listVersion.current) return;
+      setAnalyses((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (version !== listVersion.current) return;
+      setLoadError(`Could not load more history: ${err instanceof Error ? err.message : String(err)}`);
     }
+    setIsLoadingMore(false);
+  };
+
+  const hasFilters = searchFromFilters(filters) !== '';
 
-    setIsLoading(false);
+  const toggleSelected = (id: string) => {
+    setIsFiling(true);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = (e: React.MouseEvent, analysis: AnalysisWithResults, format: ReportFormat) => {
+    e.stopPropagation();
+    try {
+      exportReport(buildReport(analysis, analysis.results), format);
+      setExportError(null);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : String(err));
+    }
   };
 
   const getFileIcon = (type: string) => {
@@ -89,46 +224,127 @@ export default function HistoryView({ onViewAnalysis }: HistoryViewProps) {
     }
   };
 
-  const getVerdict = (results: AnalysisResult[]) => {
-    if (results.length === 0) return null;
-    const aiCount = results.filter(r => r.is_ai_generated).length;
-    const isAiGenerated = aiCount > results.length / 2;
-    return {
-      isAiGenerated,
-      aiCount,
-      total: results.length,
-    };
+  const getVerdict = (analysis: AnalysisWithResults) => {
+    if (!analysis.verdict && analysis.results.length === 0) return null;
+    return analysisVerdict(analysis, analysis.results);
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center py-20">
-        <Loader2 className="w-12 h-12 animate-spin text-blue-400" />
-      </div>
-    );
-  }
+  const fieldClass =
+    'bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
 
   return (
     <div className="space-y-6">
       <div className="text-center">
         <h2 className="text-3xl font-bold text-white mb-2">Analysis History</h2>
         <p className="text-slate-300">
-          View all your previous content analyses
+          {session ? `Analyses uploaded as ${session.user.email}` : 'Analyses uploaded without signing in'}
         </p>
       </div>
 
-      {analyses.length === 0 ? (
+      <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by file name"
+            className={`${fieldClass} w-full pl-9`}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={filters.fileType} onChange={(e) => setFilters({ fileType: e.target.value as HistoryFilters['fileType'] })} className={fieldClass}>
+            {FILE_TYPE_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <select value={filters.status} onChange={(e) => setFilters({ status: e.target.value as HistoryFilters['status'] })} className={fieldClass}>
+            {STATUS_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <select value={filters.verdict} onChange={(e) => setFilters({ verdict: e.target.value as HistoryFilters['verdict'] })} className={fieldClass}>
+            {VERDICT_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-slate-400">
+            <span>AI score</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={filters.minScore}
+              onChange={(e) => setFilters({ minScore: e.target.value })}
+              placeholder="0"
+              className={`${fieldClass} w-20`}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={filters.maxScore}
+              onChange={(e) => setFilters({ maxScore: e.target.value })}
+              placeholder="100"
+              className={`${fieldClass} w-20`}
+            />
+            <span>%</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-slate-400">
+            <span>From</span>
+            <input type="date" value={filters.from} onChange={(e) => setFilters({ from: e.target.value })} className={fieldClass} />
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-slate-400">
+            <span>To</span>
+            <input type="date" value={filters.to} onChange={(e) => setFilters({ to: e.target.value })} className={fieldClass} />
+          </label>
+          {hasFilters && (
+            <button
+              onClick={() => navigate('/history', { replace: true })}
+              className="inline-flex items-center space-x-1 px-3 py-2 rounded-lg text-sm text-slate-300 bg-slate-700/50 hover:bg-slate-600/50 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              <span>Clear filters</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loadError && (
+        <div className="flex items-center space-x-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-5 h-5 text-red-400" />
+          <p className="text-red-400">{loadError}</p>
+        </div>
+      )}
+
+      {session && isFiling && <AddToCaseBar analysisIds={[...selected]} onClear={() => setSelected(new Set())} />}
+
+      {exportError && (
+        <div className="flex items-center space-x-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-5 h-5 text-red-400" />
+          <p className="text-red-400">{exportError}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-12 h-12 animate-spin text-blue-400" />
+        </div>
+      ) : loadError && analyses.length === 0 ? null : analyses.length === 0 ? (
         <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-12 text-center">
           <Clock className="w-16 h-16 text-slate-600 mx-auto mb-4" />
-          <h3 className="text-xl font-semibold text-white mb-2">No analyses yet</h3>
-          <p className="text-slate-400">
-            Upload a file to start detecting AI-generated content
-          </p>
+          {hasFilters ? (
+            <>
+              <h3 className="text-xl font-semibold text-white mb-2">No matching analyses</h3>
+              <p className="text-slate-400">Try removing some filters</p>
+            </>
+          ) : (
+            <>
+              <h3 className="text-xl font-semibold text-white mb-2">No analyses yet</h3>
+              <p className="text-slate-400">
+                Upload a file to start detecting AI-generated content
+              </p>
+            </>
+          )}
         </div>
       ) : (
         <div className="space-y-4">
           {analyses.map((analysis) => {
-            const verdict = getVerdict(analysis.results || []);
+            const verdict = getVerdict(analysis);
             return (
               <div
                 key={analysis.id}
@@ -137,6 +353,16 @@ export default function HistoryView({ onViewAnalysis }: HistoryViewProps) {
               >
                 <div className="flex items-start justify-between">
                   <div className="flex items-start space-x-4 flex-1">
+                    {session && (
+                      <input
+                        type="checkbox"
+                        checked={selected.has(analysis.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => toggleSelected(analysis.id)}
+                        aria-label={`Select ${analysis.file_name}`}
+                        className="mt-1.5 w-4 h-4 accent-blue-500 cursor-pointer"
+                      />
+                    )}
                     <div className="mt-1">
                       {getFileIcon(analysis.file_type)}
                     </div>
@@ -152,19 +378,26 @@ export default function HistoryView({ onViewAnalysis }: HistoryViewProps) {
                         {getStatusBadge(analysis.status)}
                         {verdict && (
                           <span className={`inline-flex items-center space-x-1 px-2 py-1 rounded text-xs ${
-                            verdict.isAiGenerated
+                            verdict.outcome === 'ai_generated'
                               ? 'bg-red-500/20 text-red-400'
-                              : 'bg-green-500/20 text-green-400'
+                              : verdict.outcome === 'uncertain'
+                                ? 'bg-amber-500/20 text-amber-400'
+                                : 'bg-green-500/20 text-green-400'
                           }`}>
-                            {verdict.isAiGenerated ? (
+                            {verdict.outcome === 'ai_generated' ? (
                               <>
                                 <AlertTriangle className="w-3 h-3" />
-                                <span>AI Detected ({verdict.aiCount}/{verdict.total})</span>
+                                <span>AI Detected ({verdict.aiVotes}/{verdict.modelCount})</span>
+                              </>
+                            ) : verdict.outcome === 'uncertain' ? (
+                              <>
+                                <HelpCircle className="w-3 h-3" />
+                                <span>Uncertain ({verdict.aiVotes}/{verdict.modelCount})</span>
                               </>
                             ) : (
                               <>
                                 <CheckCircle className="w-3 h-3" />
-                                <span>Authentic ({verdict.total - verdict.aiCount}/{verdict.total})</span>
+                                <span>Authentic ({verdict.authenticVotes}/{verdict.modelCount})</span>
                               </>
                             )}
                           </span>
@@ -177,16 +410,43 @@ export default function HistoryView({ onViewAnalysis }: HistoryViewProps) {
                     <p className="text-slate-500 text-xs">
                       {(analysis.file_size / 1024 / 1024).toFixed(2)} MB
                     </p>
-                    {analysis.results && analysis.results.length > 0 && (
+                    {analysis.results.length > 0 && (
                       <p className="text-slate-400 text-xs mt-1">
                         {analysis.results.length} models
                       </p>
                     )}
+                    {analysis.status === 'completed' && (
+                      <div className="flex items-center justify-end space-x-1 mt-3">
+                        <Download className="w-3 h-3 text-slate-500" />
+                        {(['pdf', 'html', 'json'] as const).map((format) => (
+                          <button
+                            key={format}
+                            onClick={(e) => handleExport(e, analysis, format)}
+                            className="px-2 py-0.5 rounded text-xs text-slate-300 bg-slate-700/50 hover:bg-slate-600/50 transition-colors"
+                          >
+                            {format.toUpperCase()}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
             );
           })}
+
+          {nextCursor && (
+            <div className="flex justify-center pt-2">
+              <button
+                onClick={loadMore}
+                disabled={isLoadingMore}
+                className="inline-flex items-center space-x-2 px-5 py-2 rounded-lg text-sm text-slate-200 bg-slate-700/50 hover:bg-slate-600/50 disabled:opacity-50 transition-colors"
+              >
+                {isLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>{isLoadingMore ? 'Loading…' : 'Load more'}</span>
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
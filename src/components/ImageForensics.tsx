@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import RegionOverlay from './RegionOverlay';
+import { ModelRegion } from '../types';
+import {
+  ForensicsMode,
+  Heatmap,
+  computeHeatmap,
+  heatmapToImageData,
+  loadImageData,
+} from '../lib/imageForensics';
+
+interface ImageForensicsProps {
+  file: File;
+  src: string;
+  regions?: ModelRegion[];
+}
+
+const MODES: { mode: ForensicsMode; label: string; hint: string }[] = [
+  {
+    mode: 'ela',
+    label: 'ELA',
+    hint: 'Bright areas changed most when re-saved as JPEG. Edges always light up; look for regions that stand out from similar content around them.',
+  },
+  {
+    mode: 'noise',
+    label: 'Noise',
+    hint: 'Fine noise left after smoothing. Camera noise is fairly even; patches that are much smoother or grainier than their surroundings deserve a closer look.',
+  },
+  {
+    mode: 'spectrum',
+    label: 'Spectrum',
+    hint: 'Frequency spectrum of the whole image, not aligned to it. Regular dots or grid lines away from the centre are typical of generator upsampling.',
+  },
+];
+
+// Image preview with toggleable forensic heatmaps and the regions models
+// flagged drawn over it. Maps are computed on first use and kept for the
+// component's lifetime, so give it a `key` per file.
+export default function ImageForensics({ file, src, regions = [] }: ImageForensicsProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [mode, setMode] = useState<ForensicsMode | null>(null);
+  const [opacity, setOpacity] = useState(0.6);
+  const [showRegions, setShowRegions] = useState(true);
+  const [maps, setMaps] = useState<Partial<Record<ForensicsMode, Heatmap>>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pixels = useRef<Promise<ImageData> | null>(null);
+
+  useEffect(() => {
+    if (!mode || maps[mode]) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    // ELA reads the full-size pixels once; the other views share a preview-size copy
+    const image = mode === 'ela' ? loadImageData(file, { fullSize: true }) : (pixels.current ??= loadImageData(file));
+    image
+      .then((loaded) => computeHeatmap(loaded, mode))
+      .then((map) => {
+        if (!cancelled) setMaps((prev) => ({ ...prev, [mode]: map }));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .then(() => {
+        if (!cancelled) setLoading(false);
+      });
+    // Switching views (or turning them off) abandons the one in progress
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [file, mode, maps]);
+
+  const map = mode ? maps[mode] : undefined;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !map || !mode) return;
+    canvas.width = map.width;
+    canvas.height = map.height;
+    canvas.getContext('2d')?.putImageData(heatmapToImageData(map, { transparentLows: mode !== 'spectrum' }), 0, 0);
+  }, [map, mode]);
+
+  return (
+    <div>
+      <div className="relative mx-auto w-fit">
+        <img src={src} alt="preview" className="block max-h-[380px] max-w-full object-contain" />
+        {map && (
+          <canvas
+            ref={canvasRef}
+            className="pointer-events-none absolute inset-0 h-full w-full"
+            style={{ opacity }}
+          />
+        )}
+        {showRegions && regions.length > 0 && <RegionOverlay regions={regions} />}
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/40 text-sm text-white/80">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Computing…
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 border-t border-white/10 p-3">
+        {MODES.map((m) => (
+          <button
+            key={m.mode}
+            onClick={() => setMode(mode === m.mode ? null : m.mode)}
+            className={`rounded-xl border px-3 py-1.5 text-xs transition ${
+              mode === m.mode
+                ? 'border-[rgba(255,45,45,0.30)] bg-[rgba(255,45,45,0.16)] text-white'
+                : 'border-white/10 bg-white/5 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+        {regions.length > 0 && (
+          <button
+            onClick={() => setShowRegions(!showRegions)}
+            className={`rounded-xl border px-3 py-1.5 text-xs transition ${
+              showRegions
+                ? 'border-[rgba(255,45,45,0.30)] bg-[rgba(255,45,45,0.16)] text-white'
+                : 'border-white/10 bg-white/5 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            Regions ({regions.length})
+          </button>
+        )}
+        <label className="ml-auto flex items-center gap-2 text-xs text-white/55">
+          Opacity
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={opacity}
+            onChange={(e) => setOpacity(Number(e.target.value))}
+            disabled={!mode}
+            className="w-24 accent-[rgb(255,45,45)]"
+          />
+        </label>
+      </div>
+
+      {mode && (
+        <div className="px-3 pb-3 text-xs text-white/50">
+          {error ? `Could not compute this view: ${error}` : MODES.find((m) => m.mode === mode)?.hint}
+        </div>
+      )}
+    </div>
+  );
+}
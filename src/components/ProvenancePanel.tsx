@@ -0,0 +1,112 @@
+import { Provenance } from '../types';
+
+interface ProvenancePanelProps {
+  provenance: Provenance;
+}
+
+const STATUS_COPY: Record<Provenance['status'], { label: string; detail: string }> = {
+  none: { label: 'No Content Credentials', detail: 'The file carries no C2PA manifest.' },
+  valid: { label: 'Verified', detail: 'Signed by a trusted issuer and unchanged since signing.' },
+  untrusted: { label: 'Unverified signer', detail: 'Intact, but signed by a certificate outside the trust list.' },
+  unbound: {
+    label: 'Not bound to this image',
+    detail: 'The manifest is signed but has no content hash, so it may have been copied from another file.',
+  },
+  invalid: { label: 'Tampered or invalid', detail: 'The manifest does not match its signature or the image.' },
+};
+
+// Strips the c2pa. prefix from action names, e.g. c2pa.color_adjustments
+const actionName = (action: string) => action.replace(/^c2pa\./, '').replace(/_/g, ' ');
+
+export default function ProvenancePanel({ provenance }: ProvenancePanelProps) {
+  const { manifest } = provenance;
+  const copy = STATUS_COPY[provenance.status];
+  const alert = provenance.status === 'invalid' || provenance.status === 'unbound' || manifest?.aiGenerated;
+
+  return (
+    <div className="mt-6 rounded-[28px] border border-white/10 bg-white/[0.03] p-5">
+      <div className="flex items-center justify-between">
+        <div className="text-base font-medium text-white/85">Provenance</div>
+        <span
+          className={`rounded-full border px-2.5 py-0.5 text-xs ${
+            alert
+              ? 'border-[rgba(255,45,45,0.30)] bg-[rgba(255,45,45,0.12)] text-white/90'
+              : 'border-white/10 bg-white/5 text-white/70'
+          }`}
+        >
+          {copy.label}
+        </span>
+      </div>
+      <div className="mt-2 text-sm text-white/55">{copy.detail}</div>
+
+      {manifest && (
+        <div className="mt-4 grid gap-2 text-sm">
+          {manifest.aiGenerated && (
+            <div className="rounded-2xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.08)] px-4 py-3 text-white/85">
+              Declared AI-generated: {manifest.aiAssertions.join('; ')}
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-white/55">Claim generator</span>
+            <span className="truncate text-white/85">{manifest.claimGenerator ?? '—'}</span>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-white/55">Signed by</span>
+            <span className="truncate text-white/85">
+              {manifest.signature.signer} ({manifest.signature.algorithm})
+            </span>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-white/55">Issuer</span>
+            <span className="truncate text-white/85">{manifest.signature.issuer}</span>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-white/55">Content hash</span>
+            <span className="text-white/85">{manifest.contentBinding}</span>
+          </div>
+
+          {manifest.actions.length > 0 && (
+            <div className="mt-2 border-t border-white/10 pt-3">
+              <div className="text-white/55">Edit history</div>
+              <div className="mt-2 grid gap-1.5">
+                {manifest.actions.map((a, i) => (
+                  <div key={i} className="flex items-center justify-between gap-4">
+                    <span className="text-white/80">{actionName(a.action)}</span>
+                    <span className="truncate text-xs text-white/45">
+                      {[a.softwareAgent, a.when && new Date(a.when).toLocaleString()].filter(Boolean).join(' • ') || '—'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {manifest.ingredients.length > 0 && (
+            <div className="mt-2 border-t border-white/10 pt-3">
+              <div className="text-white/55">Ingredients</div>
+              <div className="mt-2 grid gap-1.5">
+                {manifest.ingredients.map((ing, i) => (
+                  <div key={i} className="flex items-center justify-between gap-4">
+                    <span className="truncate text-white/80">{ing.title ?? 'untitled'}</span>
+                    <span className="text-xs text-white/45">{ing.relationship ?? '—'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {[...provenance.errors, ...provenance.warnings].length > 0 && (
+        <div className="mt-4 grid gap-1 text-xs">
+          {provenance.errors.map((e) => (
+            <div key={e} className="text-[rgba(255,120,120,0.9)]">{e}</div>
+          ))}
+          {provenance.warnings.map((w) => (
+            <div key={w} className="text-white/45">{w}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { CheckCircle, FileCheck, Loader2, ShieldAlert, X } from 'lucide-react';
+import { verifyReceipt } from '../lib/api';
+import { ReceiptVerification } from '../types';
+
+// Drop a receipt JSON, optionally with the file it was issued for, to check
+// the signature and file hash with POST /verify
+export default function ReceiptVerifier() {
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<ReceiptVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isReceipt = (f: File) => f.type === 'application/json' || f.name.toLowerCase().endsWith('.json');
+
+  const addFiles = (files: File[]) => {
+    setResult(null);
+    setError(null);
+    for (const f of files) {
+      if (isReceipt(f)) setReceipt(f);
+      else setFile(f);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const check = async () => {
+    if (!receipt) return;
+    setChecking(true);
+    setError(null);
+    try {
+      setResult(await verifyReceipt(receipt, file ?? undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const reset = () => {
+    setReceipt(null);
+    setFile(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const checks: { label: string; ok: boolean | null }[] = result
+    ? [
+      { label: 'Signature', ok: result.signatureValid },
+      { label: 'Signed by this server', ok: result.keyMatches },
+      { label: 'File matches receipt', ok: result.fileMatches },
+    ]
+    : [];
+
+  return (
+    <div className="rounded-[32px] border border-white/10 bg-gradient-to-b from-white/[0.06] to-white/[0.02] p-7 sm:p-8 shadow-[0_30px_100px_rgba(255,45,45,0.12)] backdrop-blur-2xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-lg font-medium">Verify a receipt</div>
+          <div className="text-base text-white/60">
+            Drop a receipt JSON, and the file it covers to check the hash too
+          </div>
+        </div>
+        {(receipt || file) && (
+          <button
+            onClick={reset}
+            className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/75 transition hover:bg-white/10"
+          >
+            <X className="h-4 w-4" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`mt-6 flex cursor-pointer flex-col items-center justify-center gap-2 rounded-2xl border border-dashed px-6 py-8 text-center transition ${
+          dragging ? 'border-[rgba(255,45,45,0.55)] bg-[rgba(255,45,45,0.08)]' : 'border-white/15 bg-black/20 hover:bg-white/[0.04]'
+        }`}
+      >
+        <FileCheck className="h-7 w-7 text-white/50" />
+        <div className="text-sm text-white/75">
+          Receipt: <span className="text-white/90">{receipt?.name ?? '—'}</span>
+        </div>
+        <div className="text-sm text-white/75">
+          File: <span className="text-white/90">{file?.name ?? 'not provided'}</span>
+        </div>
+        <input
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      <div className="mt-4 flex justify-end">
+        <button
+          onClick={check}
+          disabled={!receipt || checking}
+          className="inline-flex items-center gap-2 rounded-2xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.12)] px-4 py-2 text-sm text-white/85 transition hover:bg-[rgba(255,45,45,0.18)] disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {checking && <Loader2 className="h-4 w-4 animate-spin" />}
+          Verify
+        </button>
+      </div>
+
+      {error && <div className="mt-4 text-sm text-[rgba(255,120,120,0.9)]">{error}</div>}
+
+      {result && (
+        <div
+          className={`mt-4 rounded-2xl border p-4 ${
+            result.valid ? 'border-white/10 bg-white/[0.03]' : 'border-[rgba(255,45,45,0.30)] bg-[rgba(255,45,45,0.08)]'
+          }`}
+        >
+          <div className="flex items-center gap-2 text-base font-medium">
+            {result.valid ? (
+              <CheckCircle className="h-5 w-5 text-white/80" />
+            ) : (
+              <ShieldAlert className="h-5 w-5 text-[rgba(255,90,90,0.95)]" />
+            )}
+            {result.valid ? 'Receipt is authentic' : result.error ?? 'Receipt does not check out'}
+          </div>
+
+          <div className="mt-3 space-y-1 text-sm">
+            {checks.map((c) => (
+              <div key={c.label} className="flex justify-between">
+                <span className="text-white/60">{c.label}</span>
+                <span className={c.ok === false ? 'text-[rgba(255,120,120,0.9)]' : 'text-white/85'}>
+                  {c.ok === null ? 'not checked' : c.ok ? 'yes' : 'no'}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {result.record && (
+            <div className="mt-3 border-t border-white/10 pt-3 text-sm text-white/60">
+              {result.record.file.name} • {result.record.verdict?.label ?? 'No verdict'}
+              {result.record.verdict?.score !== null && result.record.verdict?.score !== undefined &&
+                ` (${Math.round(result.record.verdict.score * 100)}%)`}
+              {' • issued '}
+              {new Date(result.record.issuedAt).toLocaleString()}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { ModelRegion } from '../types';
+
+interface RegionOverlayProps {
+  regions: ModelRegion[];
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+
+// Outlines the image areas models flagged, on top of an image of any size
+// (region coordinates are fractions of the image). Hovering a region shows
+// what was found there, by which model and how confidently.
+export default function RegionOverlay({ regions }: RegionOverlayProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const active = hovered === null ? null : regions[hovered];
+
+  return (
+    <div className="absolute inset-0">
+      <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="h-full w-full">
+        {regions.map((r, i) => {
+          const stroke = r.score >= 0.7 ? 'rgba(255,45,45,0.95)' : 'rgba(255,190,60,0.95)';
+          const props = {
+            fill: hovered === i ? 'rgba(255,45,45,0.18)' : 'rgba(255,45,45,0.04)',
+            stroke,
+            strokeWidth: hovered === i ? 2.5 : 1.5,
+            vectorEffect: 'non-scaling-stroke' as const,
+            className: 'cursor-pointer transition-[fill]',
+            onMouseEnter: () => setHovered(i),
+            onMouseLeave: () => setHovered(null),
+          };
+          return r.polygon ? (
+            <polygon key={i} points={r.polygon.map(([x, y]) => `${x},${y}`).join(' ')} {...props} />
+          ) : (
+            <rect key={i} x={r.x} y={r.y} width={r.width} height={r.height} {...props} />
+          );
+        })}
+      </svg>
+
+      {active && (
+        // Above the region, or below it when it touches the top of the image
+        <div
+          className={`pointer-events-none absolute z-10 w-max max-w-[220px] rounded-xl border border-white/10 bg-black/85 px-3 py-2 text-xs text-white/85 shadow-lg backdrop-blur ${
+            active.y < 0.2 ? '' : '-translate-y-full'
+          }`}
+          style={{
+            left: pct(Math.min(active.x, 0.7)),
+            top: active.y < 0.2 ? `calc(${pct(active.y + active.height)} + 6px)` : `calc(${pct(active.y)} - 6px)`,
+          }}
+        >
+          <div className="font-medium text-white">{active.label}</div>
+          <div className="mt-0.5 text-white/60">{active.model}</div>
+          <div className="mt-0.5 tabular-nums">{Math.round(active.score * 100)}% likely manipulated</div>
+        </div>
+      )}
+    </div>
+  );
+}
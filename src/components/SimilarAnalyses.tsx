@@ -0,0 +1,48 @@
+import { SimilarAnalysis } from '../types';
+
+interface SimilarAnalysesProps {
+  matches: SimilarAnalysis[];
+}
+
+function matchCopy(m: SimilarAnalysis) {
+  if (m.match === 'exact') return 'Same file';
+  const similarity = `${Math.round((1 - m.distance) * 100)}% similar`;
+  return m.kind === 'audio' ? `${similarity} audio` : similarity;
+}
+
+// Earlier analyses of the selected file or near-identical media, shown
+// before a new analysis is started
+export default function SimilarAnalyses({ matches }: SimilarAnalysesProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="mt-5 rounded-2xl border border-[rgba(255,45,45,0.25)] bg-[rgba(255,45,45,0.08)] p-4">
+      <div className="text-base font-medium text-white/85">
+        Seen before ({matches.length})
+      </div>
+      <div className="mt-1 text-sm text-white/55">
+        {matches[0].match === 'exact'
+          ? 'This exact file has been analyzed already.'
+          : 'Near-identical media has been analyzed already.'}
+      </div>
+
+      <div className="mt-3 grid gap-2 text-sm">
+        {matches.map((m) => (
+          <div key={m.analysis.id} className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="truncate text-white/80">{m.analysis.file_name}</div>
+              <div className="text-xs text-white/45">
+                {matchCopy(m)} • {new Date(m.analysis.created_at).toLocaleString()}
+              </div>
+            </div>
+            <span className="shrink-0 text-white/85 tabular-nums">
+              {m.analysis.verdict
+                ? `${m.analysis.verdict.label}${m.analysis.verdict.score === null ? '' : ` • ${Math.round(m.analysis.verdict.score * 100)}%`}`
+                : '—'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
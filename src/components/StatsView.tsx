@@ -1,73 +1,124 @@
 import { useEffect, useState } from 'react';
 import { TrendingUp, FileCheck, AlertTriangle, Activity, Loader2 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { Analysis, AnalysisResult } from '../types';
+import { getStats } from '../lib/api';
+import { useSession } from '../lib/session';
+import { StatsBucket, StatsReport } from '../types';
+
+const TYPE_COLORS = { image: '#3b82f6', video: '#22c55e', audio: '#a855f7' } as const;
+
+const shortDate = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 180;
+const CHART_PAD = 28;
+
+// Shared frame for the time charts: horizontal grid lines at each `ticks`
+// value (0..1 of the height) and the first and last bucket dates underneath
+function ChartFrame({ series, ticks, children }: { series: StatsBucket[]; ticks: { at: number; label: string }[]; children: React.ReactNode }) {
+  const plotHeight = CHART_HEIGHT - CHART_PAD * 2;
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      {ticks.map((t) => (
+        <g key={t.label}>
+          <line x1={CHART_PAD} x2={CHART_WIDTH - 8} y1={CHART_PAD + plotHeight * (1 - t.at)} y2={CHART_PAD + plotHeight * (1 - t.at)} stroke="#1e293b" />
+          <text x={CHART_PAD - 6} y={CHART_PAD + plotHeight * (1 - t.at) + 3} textAnchor="end" className="fill-slate-500" fontSize="9">
+            {t.label}
+          </text>
+        </g>
+      ))}
+      {children}
+      {series.length > 0 && (
+        <>
+          <text x={CHART_PAD} y={CHART_HEIGHT - 8} className="fill-slate-400" fontSize="10">{shortDate(series[0].start)}</text>
+          <text x={CHART_WIDTH - 8} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-slate-400" fontSize="10">
+            {shortDate(series[series.length - 1].start)}
+          </text>
+        </>
+      )}
+    </svg>
+  );
+}
+
+function VolumeChart({ series }: { series: StatsBucket[] }) {
+  const max = Math.max(1, ...series.map((b) => b.total));
+  const plotWidth = CHART_WIDTH - CHART_PAD - 8;
+  const plotHeight = CHART_HEIGHT - CHART_PAD * 2;
+  const slot = plotWidth / Math.max(1, series.length);
+
+  return (
+    <ChartFrame series={series} ticks={[0, 0.5, 1].map((at) => ({ at, label: String(Math.round(max * at)) }))}>
+      {series.map((b, i) => {
+        let y = CHART_PAD + plotHeight;
+        return (
+          <g key={b.start}>
+            <title>{`${shortDate(b.start)}: ${b.image} images, ${b.video} videos, ${b.audio} audio`}</title>
+            {(['image', 'video', 'audio'] as const).map((type) => {
+              const h = (b[type] / max) * plotHeight;
+              y -= h;
+              return h > 0 ? (
+                <rect key={type} x={CHART_PAD + i * slot + slot * 0.15} y={y} width={slot * 0.7} height={h} fill={TYPE_COLORS[type]} />
+              ) : null;
+            })}
+          </g>
+        );
+      })}
+    </ChartFrame>
+  );
+}
+
+function AiRateChart({ series }: { series: StatsBucket[] }) {
+  const plotWidth = CHART_WIDTH - CHART_PAD - 8;
+  const plotHeight = CHART_HEIGHT - CHART_PAD * 2;
+  const slot = plotWidth / Math.max(1, series.length);
+  const points = series
+    .map((b, i) => ({ b, x: CHART_PAD + (i + 0.5) * slot }))
+    .filter((p) => p.b.aiRate !== null)
+    .map((p) => ({ ...p, y: CHART_PAD + plotHeight * (1 - (p.b.aiRate ?? 0)) }));
+
+  return (
+    <ChartFrame series={series} ticks={[0, 0.5, 1].map((at) => ({ at, label: `${at * 100}%` }))}>
+      <path
+        d={points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ')}
+        fill="none"
+        stroke="#f87171"
+        strokeWidth={2}
+      />
+      {points.map((p) => (
+        <circle key={p.b.start} cx={p.x} cy={p.y} r={3} fill="#f87171">
+          <title>{`${shortDate(p.b.start)}: ${p.b.aiDetected} of ${p.b.completed} AI`}</title>
+        </circle>
+      ))}
+    </ChartFrame>
+  );
+}
 
 export default function StatsView() {
-  const [stats, setStats] = useState({
-    totalAnalyses: 0,
-    aiDetected: 0,
-    authentic: 0,
-    averageConfidence: 0,
-    byType: { image: 0, video: 0, audio: 0 },
-    modelStats: [] as { name: string; aiDetected: number; total: number }[],
-  });
+  const [granularity, setGranularity] = useState<StatsReport['interval']>('day');
+  const [stats, setStats] = useState<StatsReport | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const session = useSession();
+  const userId = session?.user.id;
 
   useEffect(() => {
-    loadStats();
-  }, []);
-
-  const loadStats = async () => {
-    const { data: analyses } = await supabase
-      .from('analyses')
-      .select('*')
-      .eq('status', 'completed');
-
-    const { data: results } = await supabase
-      .from('analysis_results')
-      .select('*');
-
-    if (analyses && results) {
-      const aiDetectedCount = new Set(
-        results.filter(r => r.is_ai_generated).map(r => r.analysis_id)
-      ).size;
-
-      const avgConfidence = results.length > 0
-        ? results.reduce((sum, r) => sum + r.confidence_score, 0) / results.length
-        : 0;
-
-      const byType = {
-        image: analyses.filter(a => a.file_type === 'image').length,
-        video: analyses.filter(a => a.file_type === 'video').length,
-        audio: analyses.filter(a => a.file_type === 'audio').length,
-      };
-
-      const modelMap = new Map<string, { aiDetected: number; total: number }>();
-      results.forEach(r => {
-        const current = modelMap.get(r.model_name) || { aiDetected: 0, total: 0 };
-        current.total++;
-        if (r.is_ai_generated) current.aiDetected++;
-        modelMap.set(r.model_name, current);
-      });
-
-      const modelStats = Array.from(modelMap.entries()).map(([name, stats]) => ({
-        name,
-        ...stats,
-      }));
-
-      setStats({
-        totalAnalyses: analyses.length,
-        aiDetected: aiDetectedCount,
-        authentic: analyses.length - aiDetectedCount,
-        averageConfidence: avgConfidence,
-        byType,
-        modelStats,
+    let cancelled = false;
+    getStats(granularity)
+      .then((report) => {
+        if (cancelled) return;
+        setStats(report);
+        setLoadError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(`Could not load statistics: ${err instanceof Error ? err.message : String(err)}`);
+      })
+      .then(() => {
+        if (!cancelled) setIsLoading(false);
       });
-    }
-
-    setIsLoading(false);
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [granularity, userId]);
 
   if (isLoading) {
     return (
@@ -77,12 +128,24 @@ export default function StatsView() {
     );
   }
 
+  if (loadError || !stats) {
+    return (
+      <div className="flex items-center space-x-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+        <AlertTriangle className="w-5 h-5 text-red-400" />
+        <p className="text-red-400">{loadError}</p>
+      </div>
+    );
+  }
+
+  const { totals } = stats;
+  const histogramMax = Math.max(1, ...stats.confidenceHistogram.map((b) => b.count));
+
   return (
     <div className="space-y-6">
       <div className="text-center">
         <h2 className="text-3xl font-bold text-white mb-2">Statistics & Insights</h2>
         <p className="text-slate-300">
-          Overview of all detection analyses
+          {session ? `Overview of the analyses uploaded as ${session.user.email}` : 'Overview of the analyses uploaded without signing in'}
         </p>
       </div>
 
@@ -91,7 +154,7 @@ export default function StatsView() {
           <div className="flex items-center justify-between mb-2">
             <Activity className="w-8 h-8 text-blue-400" />
             <div className="text-3xl font-bold text-blue-400">
-              {stats.totalAnalyses}
+              {totals.analyses}
             </div>
           </div>
           <div className="text-white font-medium">Total Analyses</div>
@@ -104,12 +167,12 @@ export default function StatsView() {
           <div className="flex items-center justify-between mb-2">
             <AlertTriangle className="w-8 h-8 text-red-400" />
             <div className="text-3xl font-bold text-red-400">
-              {stats.aiDetected}
+              {totals.aiDetected}
             </div>
           </div>
           <div className="text-white font-medium">AI Detected</div>
           <div className="text-slate-400 text-sm mt-1">
-            {stats.totalAnalyses > 0 ? ((stats.aiDetected / stats.totalAnalyses) * 100).toFixed(1) : 0}% of total
+            {totals.completed > 0 ? ((totals.aiDetected / totals.completed) * 100).toFixed(1) : 0}% of completed
           </div>
         </div>
 
@@ -117,12 +180,12 @@ export default function StatsView() {
           <div className="flex items-center justify-between mb-2">
             <FileCheck className="w-8 h-8 text-green-400" />
             <div className="text-3xl font-bold text-green-400">
-              {stats.authentic}
+              {totals.authentic}
             </div>
           </div>
           <div className="text-white font-medium">Authentic</div>
           <div className="text-slate-400 text-sm mt-1">
-            {stats.totalAnalyses > 0 ? ((stats.authentic / stats.totalAnalyses) * 100).toFixed(1) : 0}% of total
+            {totals.completed > 0 ? ((totals.authentic / totals.completed) * 100).toFixed(1) : 0}% of completed
           </div>
         </div>
 
@@ -130,7 +193,7 @@ export default function StatsView() {
           <div className="flex items-center justify-between mb-2">
             <TrendingUp className="w-8 h-8 text-cyan-400" />
             <div className="text-3xl font-bold text-cyan-400">
-              {stats.averageConfidence.toFixed(1)}%
+              {totals.averageConfidence === null ? '—' : `${totals.averageConfidence.toFixed(1)}%`}
             </div>
           </div>
           <div className="text-white font-medium">Avg. Confidence</div>
@@ -140,6 +203,109 @@ export default function StatsView() {
         </div>
       </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-white">Analyses per {stats.interval}</h3>
+            <div className="flex space-x-1">
+              {(['day', 'week'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setGranularity(value)}
+                  className={`px-3 py-1 rounded-lg text-xs transition-colors ${
+                    granularity === value ? 'bg-blue-500 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'
+                  }`}
+                >
+                  {value === 'day' ? 'Daily' : 'Weekly'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <VolumeChart series={stats.series} />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs">
+            {(['image', 'video', 'audio'] as const).map((type) => (
+              <span key={type} className="inline-flex items-center space-x-1 text-slate-300">
+                <span className="w-3 h-3 rounded-sm inline-block" style={{ backgroundColor: TYPE_COLORS[type] }} />
+                <span className="capitalize">{type}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+          <h3 className="text-xl font-bold text-white mb-4">AI-Detected Rate</h3>
+          <AiRateChart series={stats.series} />
+          <p className="text-slate-400 text-xs mt-3">
+            Share of completed analyses per {stats.interval} with an AI verdict. Gaps are {stats.interval}s with none.
+          </p>
+        </div>
+
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+          <h3 className="text-xl font-bold text-white mb-4">Confidence Distribution</h3>
+          <div className="flex items-end h-40 gap-1">
+            {stats.confidenceHistogram.map((bin) => (
+              <div key={bin.from} className="flex-1 h-full flex flex-col justify-end" title={`${bin.from}–${bin.to}%: ${bin.count} results`}>
+                <div className="bg-cyan-500/80 rounded-t" style={{ height: `${(bin.count / histogramMax) * 100}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-slate-500 mt-2">
+            <span>0%</span>
+            <span>50%</span>
+            <span>100%</span>
+          </div>
+          <p className="text-slate-400 text-xs mt-3">Per-model confidence scores across all results.</p>
+        </div>
+
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+          <h3 className="text-xl font-bold text-white mb-4">Model Disagreement</h3>
+          {stats.agreement.models.length < 2 ? (
+            <p className="text-slate-400 text-sm text-center py-4">
+              Needs results from at least two models
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th />
+                    {stats.agreement.models.map((name, j) => (
+                      <th key={name} className="px-1 pb-2 font-medium text-slate-400" title={name}>
+                        {j + 1}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.agreement.models.map((name, i) => (
+                    <tr key={name}>
+                      <th className="pr-3 py-0.5 text-left font-normal text-slate-300 whitespace-nowrap">
+                        {i + 1}. {name}
+                      </th>
+                      {stats.agreement.cells[i].map((cell, j) => (
+                        <td
+                          key={j}
+                          title={cell ? `${cell.disagreements} of ${cell.compared} analyses disagree` : undefined}
+                          className="w-10 h-8 text-center text-white/90 border border-slate-900/60"
+                          style={{
+                            backgroundColor: cell?.rate == null ? 'rgba(51,65,85,0.4)' : `rgba(239,68,68,${0.1 + cell.rate * 0.8})`,
+                          }}
+                        >
+                          {cell?.rate == null ? '' : `${Math.round(cell.rate * 100)}%`}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-slate-400 text-xs mt-3">
+            How often two models gave opposite calls on the same analysis.
+          </p>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
           <h3 className="text-xl font-bold text-white mb-4">Content Types</h3>
@@ -147,13 +313,13 @@ export default function StatsView() {
             <div>
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-slate-300">Images</span>
-                <span className="text-blue-400">{stats.byType.image}</span>
+                <span className="text-blue-400">{totals.byType.image}</span>
               </div>
               <div className="h-3 bg-slate-700 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-blue-500"
                   style={{
-                    width: `${stats.totalAnalyses > 0 ? (stats.byType.image / stats.totalAnalyses) * 100 : 0}%`,
+                    width: `${totals.analyses > 0 ? (totals.byType.image / totals.analyses) * 100 : 0}%`,
                   }}
                 />
               </div>
@@ -162,13 +328,13 @@ export default function StatsView() {
             <div>
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-slate-300">Videos</span>
-                <span className="text-green-400">{stats.byType.video}</span>
+                <span className="text-green-400">{totals.byType.video}</span>
               </div>
               <div className="h-3 bg-slate-700 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-green-500"
                   style={{
-                    width: `${stats.totalAnalyses > 0 ? (stats.byType.video / stats.totalAnalyses) * 100 : 0}%`,
+                    width: `${totals.analyses > 0 ? (totals.byType.video / totals.analyses) * 100 : 0}%`,
                   }}
                 />
               </div>
@@ -177,13 +343,13 @@ export default function StatsView() {
             <div>
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-slate-300">Audio</span>
-                <span className="text-purple-400">{stats.byType.audio}</span>
+                <span className="text-purple-400">{totals.byType.audio}</span>
               </div>
               <div className="h-3 bg-slate-700 rounded-full overflow-hidden">
                 <div
                   className="h-full bg-purple-500"
                   style={{
-                    width: `${stats.totalAnalyses > 0 ? (stats.byType.audio / stats.totalAnalyses) * 100 : 0}%`,
+                    width: `${totals.analyses > 0 ? (totals.byType.audio / totals.analyses) * 100 : 0}%`,
                   }}
                 />
               </div>
@@ -194,7 +360,7 @@ export default function StatsView() {
         <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
           <h3 className="text-xl font-bold text-white mb-4">Model Performance</h3>
           <div className="space-y-4">
-            {stats.modelStats.map((model) => (
+            {stats.models.map((model) => (
               <div key={model.name}>
                 <div className="flex justify-between text-sm mb-2">
                   <span className="text-slate-300 truncate mr-2">{model.name}</span>
@@ -212,7 +378,7 @@ export default function StatsView() {
                 </div>
               </div>
             ))}
-            {stats.modelStats.length === 0 && (
+            {stats.models.length === 0 && (
               <p className="text-slate-400 text-sm text-center py-4">
                 No model data available yet
               </p>
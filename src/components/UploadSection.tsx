@@ -1,5 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { Upload, FileImage, FileVideo, FileAudio, Loader2, AlertCircle } from 'lucide-react';
+import { getEvaluation, submitDetection } from '../lib/api';
+import { EvaluationReport } from '../types';
 
 interface UploadSectionProps {
   onAnalysisStart: (analysisId: string) => void;
@@ -10,7 +12,13 @@ export default function UploadSection({ onAnalysisStart }: UploadSectionProps) {
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<any | null>(null);
+  const [evaluation, setEvaluation] = useState<EvaluationReport | null>(null);
+
+  useEffect(() => {
+    getEvaluation()
+      .then((state) => setEvaluation(state.report))
+      .catch(() => setEvaluation(null));
+  }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -69,35 +77,11 @@ export default function UploadSection({ onAnalysisStart }: UploadSectionProps) {
     setError(null);
 
     try {
-      // POST the file to the local detection server. The server should be
-      // running separately (see README / server/index.js). It will call
-      // RealityDefender with the API key from the .env on the server side.
-      const form = new FormData();
-      form.append('file', file, file.name);
-
-      const resp = await fetch(import.meta.env.VITE_RD_DETECT_URL || 'http://localhost:4000/detect', {
-        method: 'POST',
-        body: form,
-      });
-
-      if (!resp.ok) {
-        const body = await resp.text();
-        throw new Error(`Server error: ${resp.status} ${body}`);
-      }
-
-      const result = await resp.json();
-      setResult(result);
-
-      // The server returns an object like the shape you provided. Use the
-      // server's requestId as the local analysis id for tracking in the UI.
-      if (result && result.requestId) {
-        onAnalysisStart(result.requestId);
-      }
-
-      // Show results in console and optionally turn into UI state (not
-      // persisted anywhere since Supabase is removed).
-      console.log('Detection result:', result);
-
+      // The server answers straight away with a job id (the analysis id);
+      // AnalysisView polls it while detection runs in the background. A
+      // cached result is simply a job that has already completed.
+      const { jobId } = await submitDetection(file);
+      onAnalysisStart(jobId);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
     } finally {
@@ -204,38 +188,6 @@ export default function UploadSection({ onAnalysisStart }: UploadSectionProps) {
         </button>
       )}
 
-      {/* Detection result panel */}
-      {result && (
-        <div className="mt-6 rounded-xl border border-slate-700/50 bg-slate-900/40 p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <div className="text-sm text-slate-300">Request ID</div>
-              <div className="text-xs text-white/80 break-all">{result.requestId}</div>
-            </div>
-            <div className="text-right">
-              <div className="text-sm text-slate-300">Overall</div>
-              <div className="text-lg font-semibold text-white">{result.status || 'Unknown'}</div>
-              <div className="text-sm text-slate-400">Score: {(result.score ?? 0).toFixed(2)}</div>
-            </div>
-          </div>
-
-          <div className="mt-3">
-            <div className="text-sm text-slate-300 mb-2">Model breakdown</div>
-            <div className="space-y-2 max-h-64 overflow-auto">
-              {Array.isArray(result.models) && result.models.map((m: any) => (
-                <div key={m.name} className="flex items-center justify-between rounded-md p-2 bg-white/2">
-                  <div>
-                    <div className="text-sm text-white">{m.name}</div>
-                    <div className="text-xs text-slate-400">{m.status}</div>
-                  </div>
-                  <div className="text-sm font-mono text-white">{(m.score ?? 0).toFixed(3)}</div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      )}
-
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-8">
         <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
           <div className="text-blue-400 text-3xl font-bold mb-2">4+</div>
@@ -246,10 +198,17 @@ export default function UploadSection({ onAnalysisStart }: UploadSectionProps) {
         </div>
 
         <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
-          <div className="text-cyan-400 text-3xl font-bold mb-2">95%</div>
+          <div className="text-cyan-400 text-3xl font-bold mb-2">
+            {evaluation && evaluation.ensemble.accuracy !== null
+              ? `${(evaluation.ensemble.accuracy * 100).toFixed(1)}%`
+              : '—'}
+          </div>
           <div className="text-white font-medium">Accuracy</div>
           <div className="text-slate-400 text-sm mt-1">
-            High precision deepfake detection
+            {evaluation
+              ? `Measured on ${evaluation.files} labeled files` +
+                (evaluation.ensemble.rocAuc !== null ? ` • ROC-AUC ${evaluation.ensemble.rocAuc.toFixed(2)}` : '')
+              : 'Not yet measured on a labeled dataset'}
           </div>
         </div>
 
@@ -0,0 +1,350 @@
+// Client for the local detection server's job API (server/index.js). Every
+// request carries the signed-in session's bearer token (see session.ts).
+
+import {
+  AnalysisResult,
+  AudioSegment,
+  BatchReport,
+  Case,
+  CaseDetail,
+  CaseStatus,
+  DetectionJob,
+  EvaluationState,
+  FramePoint,
+  HistoryFilters,
+  HistoryPage,
+  MediaHashes,
+  Provenance,
+  ReceiptVerification,
+  Session,
+  SimilarAnalysis,
+  StatsReport,
+  Workspace,
+  WorkspaceDetail,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '../types';
+import { authHeaders, getSession, setSession } from './session';
+
+export const API_URL = (import.meta.env.VITE_API_URL as string | undefined) || 'http://localhost:4000';
+const DETECT_URL = (import.meta.env.VITE_RD_DETECT_URL as string | undefined) || `${API_URL}/detect`;
+
+async function expectOk(resp: Response) {
+  if (!resp.ok) {
+    const body = await resp.text();
+    throw new Error(`Server error: ${resp.status} ${body}`);
+  }
+}
+
+async function readJson<T>(resp: Response): Promise<T> {
+  await expectOk(resp);
+  return resp.json() as Promise<T>;
+}
+
+const jsonBody = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+// fetch with the session's bearer token. The server answers 401 to a token
+// whose session has ended, so the stale session is dropped here as well.
+async function request(url: string, init: RequestInit = {}) {
+  const session = getSession();
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(authHeaders())) headers.set(name, value);
+  const resp = await fetch(url, { ...init, headers });
+  if (resp.status === 401 && session && getSession() === session) setSession(null);
+  return resp;
+}
+
+async function authenticate(path: string, email: string, password: string): Promise<Session> {
+  const resp = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const body = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(body?.error || `${resp.status} ${resp.statusText}`);
+  setSession(body as Session);
+  return body as Session;
+}
+
+export function signIn(email: string, password: string) {
+  return authenticate('/auth/login', email, password);
+}
+
+// Creates the account and signs in to it
+export function register(email: string, password: string) {
+  return authenticate('/auth/register', email, password);
+}
+
+// Ends the session on the server; the local one is dropped even if that fails
+export async function signOut() {
+  try {
+    await request(`${API_URL}/auth/logout`, { method: 'POST' });
+  } finally {
+    setSession(null);
+  }
+}
+
+// Starts an empty batch that later uploads can join via `submitDetection`
+export async function createBatch(): Promise<string> {
+  const { id } = await readJson<{ id: string }>(await request(`${API_URL}/batches`, { method: 'POST' }));
+  return id;
+}
+
+export async function getBatch(batchId: string): Promise<BatchReport> {
+  return readJson<BatchReport>(await request(`${API_URL}/batches/${batchId}`));
+}
+
+// Uploads a file and resolves to the id of the background detection job.
+// Perceptual `hashes` are stored with the analysis for later lookups. A file
+// the server analyzed recently comes back `cached` with its earlier, already
+// completed job unless `force` is set.
+export async function submitDetection(
+  file: File,
+  { batchId, hashes, force }: { batchId?: string; hashes?: MediaHashes; force?: boolean } = {}
+): Promise<{ jobId: string; cached: boolean }> {
+  const form = new FormData();
+  form.append('file', file, file.name);
+  if (batchId) form.append('batchId', batchId);
+  if (hashes?.phash) form.append('phash', hashes.phash);
+  if (hashes?.dhash) form.append('dhash', hashes.dhash);
+  if (hashes?.audioFingerprint) form.append('audioFingerprint', hashes.audioFingerprint);
+  if (force) form.append('force', 'true');
+
+  const resp = await request(DETECT_URL, { method: 'POST', body: form });
+  const { jobId, cached } = await readJson<{ jobId: string; cached?: boolean }>(resp);
+  return { jobId, cached: cached ?? false };
+}
+
+// Earlier completed analyses of the same or near-identical media, closest first
+export async function findSimilarAnalyses(hashes: MediaHashes): Promise<SimilarAnalysis[]> {
+  const resp = await request(`${API_URL}/analyses/similar`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(hashes),
+  });
+  return readJson<SimilarAnalysis[]>(resp);
+}
+
+// Start of a local YYYY-MM-DD day as an ISO timestamp, `days` later
+function dayStart(day: string, days = 0) {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+}
+
+// Filtered history, newest first; pass the previous page's `nextCursor` for the next one
+export async function searchHistory(filters: HistoryFilters, cursor?: string | null, limit = 20): Promise<HistoryPage> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.fileType) params.set('file_type', filters.fileType);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.verdict) params.set('verdict', filters.verdict);
+  if (filters.minScore) params.set('min_score', filters.minScore);
+  if (filters.maxScore) params.set('max_score', filters.maxScore);
+  // The server's `to` is exclusive, so the last day ends at the next midnight
+  if (filters.from) params.set('from', dayStart(filters.from));
+  if (filters.to) params.set('to', dayStart(filters.to, 1));
+  if (cursor) params.set('cursor', cursor);
+  return readJson<HistoryPage>(await request(`${API_URL}/analyses/search?${params}`));
+}
+
+export async function getStats(interval: StatsReport['interval'] = 'day', periods?: number): Promise<StatsReport> {
+  const params = new URLSearchParams({ interval });
+  if (periods) params.set('periods', String(periods));
+  return readJson<StatsReport>(await request(`${API_URL}/stats?${params}`));
+}
+
+export async function getJob(jobId: string): Promise<DetectionJob> {
+  return readJson<DetectionJob>(await request(`${API_URL}/jobs/${jobId}`));
+}
+
+// Polls until the job completes or fails, reporting every snapshot on the way
+export async function waitForJob(
+  jobId: string,
+  { intervalMs = 1000, onUpdate }: { intervalMs?: number; onUpdate?: (job: DetectionJob) => void } = {}
+): Promise<DetectionJob> {
+  for (;;) {
+    const job = await getJob(jobId);
+    onUpdate?.(job);
+    if (job.status === 'completed' || job.status === 'failed') return job;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+export interface JobEventHandlers {
+  onModelStarted?: (model: { name: string; provider: string }) => void;
+  onModelResult?: (result: AnalysisResult) => void;
+  onFrameResult?: (frame: FramePoint) => void;
+  onSegmentResult?: (segment: AudioSegment) => void;
+  onProvenance?: (provenance: Provenance) => void;
+  onStatus?: (status: DetectionJob['status']) => void;
+}
+
+// Splits a Server-Sent Events body into `{ event, data }` messages
+async function* serverEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      let end;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const message = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of message.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        }
+        yield { event, data: data.join('\n') };
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+// Follows GET /jobs/:id/events until the job completes or fails. The stream
+// is read with fetch, since EventSource cannot send the session's bearer
+// token. Falls back to polling when the stream cannot be opened.
+export async function followJob(jobId: string, handlers: JobEventHandlers = {}): Promise<DetectionJob> {
+  let received = false;
+  try {
+    const resp = await request(`${API_URL}/jobs/${jobId}/events`, { headers: { Accept: 'text/event-stream' } });
+    if (!resp.ok || !resp.body) throw new Error(`Server error: ${resp.status}`);
+
+    for await (const { event, data } of serverEvents(resp.body)) {
+      received = true;
+      const payload = JSON.parse(data);
+      switch (event) {
+        case 'status':
+          handlers.onStatus?.((payload as { status: DetectionJob['status'] }).status);
+          break;
+        case 'model_started':
+          handlers.onModelStarted?.(payload as { name: string; provider: string });
+          break;
+        case 'model_result':
+          handlers.onModelResult?.(payload as AnalysisResult);
+          break;
+        case 'frame_result':
+          handlers.onFrameResult?.(payload as FramePoint);
+          break;
+        case 'segment_result':
+          handlers.onSegmentResult?.(payload as AudioSegment);
+          break;
+        case 'provenance':
+          handlers.onProvenance?.(payload as Provenance);
+          break;
+        case 'completed':
+        case 'failed':
+          return payload as DetectionJob;
+      }
+    }
+    throw new Error('Event stream ended early');
+  } catch {
+    if (received) throw new Error('Lost connection to the detection server');
+    return waitForJob(jobId, { onUpdate: (job) => handlers.onStatus?.(job.status) });
+  }
+}
+
+export async function getEvaluation(): Promise<EvaluationState> {
+  return readJson<EvaluationState>(await request(`${API_URL}/evaluation`));
+}
+
+// Starts a run on a dataset CSV in the server's dataset directory
+// (EVALUATION_DATASET when omitted); needs a session
+export async function startEvaluation(dataset?: string): Promise<EvaluationState> {
+  const resp = await request(`${API_URL}/evaluation`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dataset ? { dataset } : {}),
+  });
+  return readJson<EvaluationState>(resp);
+}
+
+// Checks a receipt's signature with the server and, if given, that `file` is
+// the file the receipt was issued for
+export async function verifyReceipt(receipt: File, file?: File): Promise<ReceiptVerification> {
+  const form = new FormData();
+  form.append('receipt', receipt, receipt.name);
+  if (file) form.append('file', file, file.name);
+
+  return readJson<ReceiptVerification>(await request(`${API_URL}/verify`, { method: 'POST', body: form }));
+}
+
+// Workspaces and cases (server/routes/workspaces.js); all need a session
+
+export async function listWorkspaces(): Promise<Workspace[]> {
+  return readJson<Workspace[]>(await request(`${API_URL}/workspaces`));
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  return readJson<Workspace>(await request(`${API_URL}/workspaces`, jsonBody('POST', { name })));
+}
+
+export async function getWorkspace(id: string): Promise<WorkspaceDetail> {
+  return readJson<WorkspaceDetail>(await request(`${API_URL}/workspaces/${id}`));
+}
+
+// Adds an existing account by email
+export async function addWorkspaceMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+  return readJson<WorkspaceMember>(
+    await request(`${API_URL}/workspaces/${workspaceId}/members`, jsonBody('POST', { email, role }))
+  );
+}
+
+export async function updateWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+  return readJson<WorkspaceMember>(
+    await request(`${API_URL}/workspaces/${workspaceId}/members/${userId}`, jsonBody('PATCH', { role }))
+  );
+}
+
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  await expectOk(await request(`${API_URL}/workspaces/${workspaceId}/members/${userId}`, { method: 'DELETE' }));
+}
+
+export async function listCases(workspaceId: string, status?: CaseStatus): Promise<Case[]> {
+  const params = status ? `?${new URLSearchParams({ status })}` : '';
+  return readJson<Case[]>(await request(`${API_URL}/workspaces/${workspaceId}/cases${params}`));
+}
+
+export async function createCase(
+  workspaceId: string,
+  fields: { title: string; description?: string; status?: CaseStatus }
+): Promise<Case> {
+  return readJson<Case>(await request(`${API_URL}/workspaces/${workspaceId}/cases`, jsonBody('POST', fields)));
+}
+
+export async function getCase(id: string): Promise<CaseDetail> {
+  return readJson<CaseDetail>(await request(`${API_URL}/cases/${id}`));
+}
+
+export async function updateCase(
+  id: string,
+  fields: Partial<Pick<CaseDetail, 'title' | 'description' | 'status'>>
+): Promise<CaseDetail> {
+  return readJson<CaseDetail>(await request(`${API_URL}/cases/${id}`, jsonBody('PATCH', fields)));
+}
+
+export async function deleteCase(id: string): Promise<void> {
+  await expectOk(await request(`${API_URL}/cases/${id}`, { method: 'DELETE' }));
+}
+
+// Files analyses into a case; resolves to the ids that were not in it yet
+export async function addToCase(caseId: string, analysisIds: string[]): Promise<string[]> {
+  const { added } = await readJson<{ added: string[] }>(
+    await request(`${API_URL}/cases/${caseId}/analyses`, jsonBody('POST', { analysisIds }))
+  );
+  return added;
+}
+
+export async function removeFromCase(caseId: string, analysisId: string): Promise<void> {
+  await expectOk(await request(`${API_URL}/cases/${caseId}/analyses/${analysisId}`, { method: 'DELETE' }));
+}
@@ -0,0 +1,93 @@
+// Audio views computed in the browser: a min/max waveform and a log-power
+// mel-spectrogram. Synthetic voices often show up in the spectrogram as
+// missing or overly clean high bands, smeared breaths and too-regular
+// harmonics.
+
+import { fft } from './fft';
+import { Heatmap } from './imageForensics';
+
+export const ANALYSIS_SAMPLE_RATE = 16000;
+// Only the opening of very long recordings is drawn
+const MAX_SECONDS = 600;
+
+// Decodes any format the browser can play, downmixed to mono at `sampleRate`
+export async function decodeAudio(
+  file: Blob,
+  { sampleRate = ANALYSIS_SAMPLE_RATE, maxSeconds = MAX_SECONDS }: { sampleRate?: number; maxSeconds?: number } = {}
+): Promise<{ samples: Float32Array; duration: number }> {
+  const decoded = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(await file.arrayBuffer());
+  const seconds = Math.min(decoded.duration, maxSeconds);
+
+  // Rendering through a mono context at the target rate downmixes and resamples
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(seconds * sampleRate)), sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return { samples: rendered.getChannelData(0), duration: decoded.duration };
+}
+
+// Lowest and highest sample in each of `buckets` equal slices
+export function waveformPeaks(samples: Float32Array, buckets: number) {
+  const size = samples.length / buckets;
+  return Array.from({ length: buckets }, (_, i) => {
+    let min = 0;
+    let max = 0;
+    for (let j = Math.floor(i * size); j < Math.floor((i + 1) * size); j++) {
+      if (samples[j] < min) min = samples[j];
+      if (samples[j] > max) max = samples[j];
+    }
+    return { min, max };
+  });
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters spaced evenly on the mel scale, as [start, peak, end] FFT bins
+function melFilters(bands: number, fftSize: number, sampleRate: number) {
+  const top = hzToMel(sampleRate / 2);
+  const bins = Array.from({ length: bands + 2 }, (_, i) => Math.floor(((fftSize + 1) * melToHz((top * i) / (bands + 1))) / sampleRate));
+  return Array.from({ length: bands }, (_, b) => [bins[b], bins[b + 1], bins[b + 2]] as const);
+}
+
+// Columns are time frames and rows mel bands, highest band first so it draws
+// the right way up. Values are decibels over the top `rangeDb`, scaled to 0..1.
+export function melSpectrogram(
+  samples: Float32Array,
+  sampleRate = ANALYSIS_SAMPLE_RATE,
+  { fftSize = 512, bands = 64, maxFrames = 600, rangeDb = 80 } = {}
+): Heatmap {
+  const hop = Math.max(fftSize / 4, Math.ceil((samples.length - fftSize) / maxFrames));
+  const frames = Math.max(1, Math.floor((samples.length - fftSize) / hop) + 1);
+  const window = Float64Array.from({ length: fftSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1)));
+  const filters = melFilters(bands, fftSize, sampleRate);
+
+  const db = new Float32Array(frames * bands);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  let peak = -Infinity;
+
+  for (let f = 0; f < frames; f++) {
+    re.fill(0);
+    im.fill(0);
+    for (let i = 0; i < fftSize && f * hop + i < samples.length; i++) re[i] = samples[f * hop + i] * window[i];
+    fft(re, im);
+
+    filters.forEach(([start, center, end], b) => {
+      let energy = 0;
+      for (let k = start; k < end; k++) {
+        const weight = k < center ? (k - start) / Math.max(1, center - start) : (end - k) / Math.max(1, end - center);
+        energy += weight * (re[k] * re[k] + im[k] * im[k]);
+      }
+      const value = 10 * Math.log10(energy + 1e-10);
+      db[(bands - 1 - b) * frames + f] = value;
+      if (value > peak) peak = value;
+    });
+  }
+
+  const values = new Float32Array(db.length);
+  for (let i = 0; i < db.length; i++) values[i] = Math.max(0, Math.min(1, (db[i] - (peak - rangeDb)) / rangeDb));
+  return { width: frames, height: bands, values };
+}
@@ -0,0 +1,24 @@
+// Copy shared by the workspace, case and history views for case statuses and
+// member roles (server/workspaces.js defines what each role may do).
+
+import { CaseStatus, WorkspaceRole } from '../types';
+
+export const CASE_STATUS_OPTIONS: { value: CaseStatus; label: string; badge: string }[] = [
+  { value: 'open', label: 'Open', badge: 'bg-blue-500/20 text-blue-400' },
+  { value: 'in_review', label: 'In review', badge: 'bg-amber-500/20 text-amber-400' },
+  { value: 'closed', label: 'Closed', badge: 'bg-slate-500/20 text-slate-400' },
+];
+
+export function caseStatusOption(status: CaseStatus) {
+  return CASE_STATUS_OPTIONS.find((option) => option.value === status) ?? CASE_STATUS_OPTIONS[0];
+}
+
+export const ROLE_OPTIONS: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manages members and can delete cases' },
+  { value: 'reviewer', label: 'Reviewer', description: 'Opens and edits cases and files analyses' },
+  { value: 'viewer', label: 'Viewer', description: 'Reads cases and their analyses' },
+];
+
+// Mirrors PERMISSIONS in server/workspaces.js
+export const canEditCases = (role: WorkspaceRole) => role === 'owner' || role === 'reviewer';
+export const canManage = (role: WorkspaceRole) => role === 'owner';
@@ -0,0 +1,38 @@
+// Helpers for turning drops and file inputs into lists of media files
+
+export function isSupportedMedia(file: File) {
+  return ['image/', 'video/', 'audio/'].some((type) => file.type.startsWith(type));
+}
+
+function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve) => (entry as FileSystemFileEntry).file((f) => resolve([f]), () => resolve([])));
+  }
+  if (!entry.isDirectory) return Promise.resolve([]);
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  return new Promise((resolve) => {
+    const files: File[] = [];
+    // readEntries returns results in chunks until it yields an empty list
+    const next = () =>
+      reader.readEntries(async (entries) => {
+        if (entries.length === 0) return resolve(files);
+        for (const child of entries) files.push(...(await readEntry(child)));
+        next();
+      }, () => resolve(files));
+    next();
+  });
+}
+
+// Flattens dropped files and folders (recursively) into a list of files
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files ?? []);
+
+  const files: File[] = [];
+  for (const entry of entries) files.push(...(await readEntry(entry)));
+  return files;
+}
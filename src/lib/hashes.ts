@@ -0,0 +1,64 @@
+// Content and perceptual hashes of a selected file. The media is decoded in
+// the browser (canvas for images, Web Audio for audio) and hashed with
+// shared/perceptualHash.js, which the server uses to compare them.
+
+import {
+  FINGERPRINT_SAMPLE_RATE,
+  audioFingerprint,
+  imageDHash,
+  imagePHash,
+} from '../../shared/perceptualHash.js';
+import { MediaHashes } from '../types';
+import { decodeAudio } from './audioForensics';
+
+// Images are scaled down before hashing; the hashes only look at 32x32 anyway
+const MAX_IMAGE_SIDE = 512;
+// Fingerprint the opening of long recordings only
+const MAX_AUDIO_SECONDS = 120;
+
+export async function sha256Hex(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function imageHashes(file: Blob): Promise<{ phash: string; dhash: string }> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float64Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { phash: imagePHash(gray, width, height), dhash: imageDHash(gray, width, height) };
+}
+
+async function audioHash(file: Blob): Promise<string> {
+  const { samples } = await decodeAudio(file, { sampleRate: FINGERPRINT_SAMPLE_RATE, maxSeconds: MAX_AUDIO_SECONDS });
+  return audioFingerprint(samples);
+}
+
+// Perceptual hashes are left out when the browser cannot decode the file;
+// videos only get the SHA-256
+export async function computeMediaHashes(file: File): Promise<MediaHashes> {
+  const hashes: MediaHashes = { sha256: await sha256Hex(file) };
+  try {
+    if (file.type.startsWith('image/')) Object.assign(hashes, await imageHashes(file));
+    else if (file.type.startsWith('audio/')) hashes.audioFingerprint = await audioHash(file);
+  } catch (err) {
+    console.warn(`Could not compute perceptual hash of ${file.name}:`, err);
+  }
+  return hashes;
+}
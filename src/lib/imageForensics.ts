@@ -0,0 +1,205 @@
+// Image forensics views computed in the browser from the decoded pixels:
+//
+// - Error level analysis (ELA): re-save as JPEG and map how much each pixel
+//   changes. Regions pasted in or generated separately often recompress
+//   differently from the rest of the image.
+// - Noise residual: what is left after a 3x3 median filter, i.e. the sensor
+//   noise and fine texture. Camera noise is fairly even; generated or
+//   retouched areas tend to be too smooth or differently grained.
+// - Frequency spectrum: log magnitude of the 2D FFT, centred. Upsampling in
+//   image generators leaves periodic peaks and grid lines here.
+//
+// Every map is normalised to 0..1 so it can be drawn with the same colour scale.
+// ELA needs the original pixels, since resampling destroys the JPEG block
+// grid it measures; the other views work on a preview-size copy.
+
+import { fft } from './fft';
+
+export type ForensicsMode = 'ela' | 'noise' | 'spectrum';
+
+export interface Heatmap {
+  width: number;
+  height: number;
+  values: Float32Array; // 0..1, row-major
+}
+
+// Maps are only ever shown at preview size, so large uploads are scaled down
+// first, and the full-size ELA map afterwards
+const MAX_SIDE = 1024;
+const SPECTRUM_SIZE = 256;
+
+function canvasOf(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  return { canvas, ctx };
+}
+
+// With `fullSize` the pixels are kept as they are, for ELA
+export async function loadImageData(file: Blob, { fullSize = false } = {}): Promise<ImageData> {
+  const bitmap = await createImageBitmap(file);
+  const scale = fullSize ? 1 : Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const { ctx } = canvasOf(width, height);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height);
+}
+
+function grayscale({ data, width, height }: ImageData) {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+// Scales so the `p`th percentile maps to 1, which keeps a few extreme pixels
+// from washing out the rest of the map
+function normalizeByPercentile(values: Float32Array, p = 0.99) {
+  const sorted = Float32Array.from(values).sort();
+  const top = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] || 1;
+  for (let i = 0; i < values.length; i++) values[i] = Math.min(1, values[i] / top);
+  return values;
+}
+
+// Box-averages a map down to at most MAX_SIDE on its longer side
+function downscaleHeatmap(map: Heatmap): Heatmap {
+  const factor = Math.ceil(Math.max(map.width, map.height) / MAX_SIDE);
+  if (factor <= 1) return map;
+  const width = Math.ceil(map.width / factor);
+  const height = Math.ceil(map.height / factor);
+  const sums = new Float32Array(width * height);
+  const counts = new Float32Array(width * height);
+  for (let y = 0; y < map.height; y++) {
+    const row = Math.floor(y / factor) * width;
+    for (let x = 0; x < map.width; x++) {
+      const i = row + Math.floor(x / factor);
+      sums[i] += map.values[y * map.width + x];
+      counts[i]++;
+    }
+  }
+  for (let i = 0; i < sums.length; i++) sums[i] /= counts[i];
+  return { width, height, values: normalizeByPercentile(sums) };
+}
+
+// Expects the original pixels (loadImageData with `fullSize`); the map is
+// scaled down once it is computed
+export async function errorLevelMap(image: ImageData, quality = 0.9): Promise<Heatmap> {
+  const { width, height } = image;
+  const { canvas, ctx } = canvasOf(width, height);
+  ctx.putImageData(image, 0, 0);
+
+  const jpeg = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('JPEG encoding failed'))), 'image/jpeg', quality)
+  );
+  const bitmap = await createImageBitmap(jpeg);
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const resaved = ctx.getImageData(0, 0, width, height).data;
+
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    const o = i * 4;
+    values[i] = Math.max(
+      Math.abs(image.data[o] - resaved[o]),
+      Math.abs(image.data[o + 1] - resaved[o + 1]),
+      Math.abs(image.data[o + 2] - resaved[o + 2])
+    );
+  }
+  return downscaleHeatmap({ width, height, values: normalizeByPercentile(values) });
+}
+
+export function noiseResidualMap(image: ImageData): Heatmap {
+  const { width, height } = image;
+  const gray = grayscale(image);
+  const values = new Float32Array(width * height);
+  const window = new Float32Array(9);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx));
+          window[n++] = gray[yy * width + xx];
+        }
+      }
+      window.sort();
+      values[y * width + x] = Math.abs(gray[y * width + x] - window[4]);
+    }
+  }
+  return { width, height, values: normalizeByPercentile(values) };
+}
+
+// The spectrum is square and does not line up with image pixels; it is
+// stretched over the preview as a separate view
+export function frequencySpectrum(image: ImageData, size = SPECTRUM_SIZE): Heatmap {
+  const { ctx, canvas } = canvasOf(image.width, image.height);
+  ctx.putImageData(image, 0, 0);
+  const { ctx: small } = canvasOf(size, size);
+  small.drawImage(canvas, 0, 0, size, size);
+  const gray = grayscale(small.getImageData(0, 0, size, size));
+
+  // A Hann window stops the image borders from showing up as a bright cross
+  const hann = Float64Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1)));
+  const re = Array.from({ length: size }, (_, y) => Float64Array.from({ length: size }, (_, x) => gray[y * size + x] * hann[x] * hann[y]));
+  const im = Array.from({ length: size }, () => new Float64Array(size));
+
+  for (let y = 0; y < size; y++) fft(re[y], im[y]);
+  const colRe = new Float64Array(size);
+  const colIm = new Float64Array(size);
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      colRe[y] = re[y][x];
+      colIm[y] = im[y][x];
+    }
+    fft(colRe, colIm);
+    for (let y = 0; y < size; y++) {
+      re[y][x] = colRe[y];
+      im[y][x] = colIm[y];
+    }
+  }
+
+  // Log magnitude with the zero frequency moved to the centre
+  const values = new Float32Array(size * size);
+  let min = Infinity;
+  let max = -Infinity;
+  const half = size / 2;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = Math.log1p(Math.hypot(re[y][x], im[y][x]));
+      values[((y + half) % size) * size + ((x + half) % size)] = v;
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+  for (let i = 0; i < values.length; i++) values[i] = max > min ? (values[i] - min) / (max - min) : 0;
+  return { width: size, height: size, values };
+}
+
+export async function computeHeatmap(image: ImageData, mode: ForensicsMode): Promise<Heatmap> {
+  if (mode === 'ela') return errorLevelMap(image);
+  if (mode === 'noise') return noiseResidualMap(image);
+  return frequencySpectrum(image);
+}
+
+// Black -> red -> yellow -> white, matching the app's red accent. With
+// `transparentLows` weak values fade out so the image shows through.
+export function heatmapToImageData({ width, height, values }: Heatmap, { transparentLows = false } = {}): ImageData {
+  const out = new ImageData(width, height);
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    const o = i * 4;
+    out.data[o] = Math.round(255 * Math.min(1, v * 2));
+    out.data[o + 1] = Math.round(255 * Math.min(1, Math.max(0, v * 2 - 0.8)));
+    out.data[o + 2] = Math.round(255 * Math.max(0, v * 3 - 2));
+    out.data[o + 3] = transparentLows ? Math.round(255 * Math.min(1, v * 1.5)) : 255;
+  }
+  return out;
+}
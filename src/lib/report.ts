@@ -0,0 +1,221 @@
+// Forensic report for a completed analysis, exported as JSON, as a
+// self-contained HTML page, or as PDF through the browser's print dialog.
+
+import { Analysis, AnalysisResult, Provenance, Receipt } from '../types';
+import { aiScoreFromResult, analysisVerdict, type Verdict } from './score';
+
+export type ReportFormat = 'json' | 'html' | 'pdf';
+
+export interface ReportModel {
+  name: string;
+  version: string;
+  provider: string | null;
+  aiScore: number | null;
+  rawScore: number | null;
+  confidenceScore: number;
+  detectionType: AnalysisResult['detection_type'];
+  isAiGenerated: boolean;
+  artifacts: string[];
+  authenticityMarkers: string[];
+  recordedAt: string;
+}
+
+export interface ForensicReport {
+  reportVersion: 1;
+  generatedAt: string;
+  analysis: {
+    id: string;
+    status: Analysis['status'];
+    createdAt: string;
+    completedAt: string | null;
+    requestId: string | null;
+  };
+  file: {
+    name: string;
+    type: Analysis['file_type'];
+    size: number;
+    sha256: string | null;
+  };
+  verdict: Verdict;
+  models: ReportModel[];
+  // C2PA manifest inspection, for images
+  provenance: Provenance | null;
+  // Signed by the detection server; check it with POST /verify
+  receipt: Receipt | null;
+}
+
+// `extra` fills in what older rows may not have stored, such as a hash the
+// browser computed itself
+export function buildReport(
+  analysis: Analysis,
+  results: AnalysisResult[],
+  extra: { sha256?: string; requestId?: string } = {}
+): ForensicReport {
+  return {
+    reportVersion: 1,
+    generatedAt: new Date().toISOString(),
+    analysis: {
+      id: analysis.id,
+      status: analysis.status,
+      createdAt: analysis.created_at,
+      completedAt: analysis.completed_at ?? null,
+      requestId: analysis.request_id ?? extra.requestId ?? null,
+    },
+    file: {
+      name: analysis.file_name,
+      type: analysis.file_type,
+      size: analysis.file_size,
+      sha256: analysis.file_sha256 ?? extra.sha256 ?? null,
+    },
+    verdict: analysisVerdict(analysis, results),
+    models: results.map((r) => ({
+      name: r.model_name,
+      version: r.model_version,
+      provider: typeof r.metadata.provider === 'string' ? r.metadata.provider : null,
+      aiScore: aiScoreFromResult(r),
+      rawScore: typeof r.metadata.rawScore === 'number' ? r.metadata.rawScore : null,
+      confidenceScore: r.confidence_score,
+      detectionType: r.detection_type,
+      isAiGenerated: r.is_ai_generated,
+      artifacts: r.metadata.detectedArtifacts ?? [],
+      authenticityMarkers: r.metadata.authenticityMarkers ?? [],
+      recordedAt: r.created_at,
+    })),
+    provenance: analysis.provenance ?? null,
+    receipt: analysis.receipt ?? null,
+  };
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '—').replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const percent = (x: number | null) => (x === null ? '—' : `${(x * 100).toFixed(1)}%`);
+
+const dateTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+function bytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(2)} MB`;
+}
+
+const VERDICT_COLORS: Record<Verdict['outcome'], string> = {
+  ai_generated: '#dc2626',
+  uncertain: '#d97706',
+  authentic: '#16a34a',
+};
+
+export function reportToHtml(report: ForensicReport): string {
+  const { analysis, file, verdict, models, provenance } = report;
+  const rows = (pairs: [string, unknown][]) =>
+    pairs.map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`).join('');
+  const list = (items: string[]) =>
+    items.length === 0 ? '—' : `<ul>${items.map((i) => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Forensic report – ${escapeHtml(file.name)}</title>
+<style>
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #0f172a; max-width: 860px; margin: 32px auto; padding: 0 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  .muted { color: #64748b; font-size: 12px; }
+  .verdict { border: 2px solid ${VERDICT_COLORS[verdict.outcome]}; border-radius: 10px; padding: 14px 18px; margin-top: 20px; }
+  .verdict strong { color: ${VERDICT_COLORS[verdict.outcome]}; font-size: 20px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #f1f5f9; }
+  th { width: 200px; color: #475569; font-weight: 600; }
+  table.models th { width: auto; background: #f8fafc; }
+  code, .mono { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; word-break: break-all; }
+  ul { margin: 0; padding-left: 18px; }
+  @media print { body { margin: 0; } .verdict { break-inside: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Forensic analysis report</h1>
+<div class="muted">Generated ${escapeHtml(dateTime(report.generatedAt))} • Report version ${report.reportVersion}</div>
+
+<div class="verdict">
+  <strong>${escapeHtml(verdict.label)}</strong>
+  <div>AI likelihood ${percent(verdict.score)} • ${verdict.aiVotes} of ${verdict.modelCount} models flagged AI • ${escapeHtml(verdict.strategy)} strategy (AI ≥ ${verdict.thresholds.ai}, real ≤ ${verdict.thresholds.authentic})</div>
+</div>
+
+<h2>File</h2>
+<table>${rows([
+    ['Name', file.name],
+    ['Type', file.type],
+    ['Size', `${bytes(file.size)} (${file.size} bytes)`],
+  ])}<tr><th>SHA-256</th><td class="mono">${escapeHtml(file.sha256)}</td></tr></table>
+
+<h2>Analysis</h2>
+<table>${rows([
+    ['Analysis ID', analysis.id],
+    ['Detector request ID', analysis.requestId],
+    ['Status', analysis.status],
+    ['Requested', dateTime(analysis.createdAt)],
+    ['Completed', dateTime(analysis.completedAt)],
+    ['Receipt', report.receipt ? `Ed25519, key ${report.receipt.keyId}` : 'Not signed'],
+  ])}${report.receipt ? `<tr><th>Receipt signature</th><td class="mono">${escapeHtml(report.receipt.signature)}</td></tr>` : ''}</table>
+
+${provenance ? `<h2>Provenance (C2PA)</h2>
+<table>${rows([
+    ['Status', provenance.status],
+    ['Claim generator', provenance.manifest?.claimGenerator],
+    ['Signed by', provenance.manifest && `${provenance.manifest.signature.signer} (issuer ${provenance.manifest.signature.issuer})`],
+    ['Content hash', provenance.manifest?.contentBinding],
+    ['AI-generation assertions', provenance.manifest?.aiAssertions.join('; ') || 'None'],
+    ['Actions', provenance.manifest?.actions.map((a) => a.action).join(', ') || 'None'],
+    ['Problems', [...provenance.errors, ...provenance.warnings].join('; ') || 'None'],
+  ])}</table>
+` : ''}
+<h2>Model results</h2>
+<table class="models">
+<tr><th>Model</th><th>Version</th><th>AI score</th><th>Confidence</th><th>Detection</th><th>Artifacts</th><th>Authenticity markers</th></tr>
+${models.map((m) => `<tr>
+  <td>${escapeHtml(m.name)}${m.provider ? `<div class="muted">${escapeHtml(m.provider)}</div>` : ''}</td>
+  <td>${escapeHtml(m.version)}</td>
+  <td>${percent(m.aiScore)}${m.rawScore !== null ? `<div class="muted">raw ${percent(m.rawScore)}</div>` : ''}</td>
+  <td>${m.confidenceScore.toFixed(1)}%</td>
+  <td>${escapeHtml(m.detectionType.replace('_', ' '))}</td>
+  <td>${list(m.artifacts)}</td>
+  <td>${list(m.authenticityMarkers)}</td>
+</tr>`).join('\n')}
+</table>
+</body>
+</html>
+`;
+}
+
+function download(contents: string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function exportReport(report: ForensicReport, format: ReportFormat) {
+  const base = `report-${report.file.name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')}-${report.analysis.id.slice(0, 8)}`;
+
+  if (format === 'json') {
+    download(JSON.stringify(report, null, 2), 'application/json', `${base}.json`);
+  } else if (format === 'html') {
+    download(reportToHtml(report), 'text/html', `${base}.html`);
+  } else {
+    // "Save as PDF" from the print dialog keeps the report's print styles
+    const win = window.open('', '_blank');
+    if (!win) throw new Error('Allow pop-ups to export a PDF');
+    win.document.write(reportToHtml(report));
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+}
+
+// The bare receipt, for parties who only need to check the verdict
+export function exportReceipt(receipt: Receipt) {
+  download(JSON.stringify(receipt, null, 2), 'application/json', `receipt-${receipt.record.analysisId.slice(0, 8)}.json`);
+}
@@ -0,0 +1,96 @@
+// Minimal client-side router on the History API. Paths map to a `Route`;
+// `navigate` pushes a new entry and every `useRoute` re-renders. The dev
+// server and `vite preview` already fall back to index.html for unknown
+// paths, so deep links such as /analysis/<id> load the app.
+
+import { useSyncExternalStore } from 'react';
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'new_analysis' }
+  | { name: 'analysis'; id: string }
+  | { name: 'history' }
+  | { name: 'cases' }
+  | { name: 'case'; id: string }
+  | { name: 'stats' }
+  | { name: 'evaluation' }
+  | { name: 'about' }
+  | { name: 'login' }
+  | { name: 'not_found'; path: string };
+
+// Fired on same-document navigations; popstate covers back/forward
+const NAVIGATE_EVENT = 'app:navigate';
+
+export function matchRoute(pathname: string): Route {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const analysis = path.match(/^\/analysis\/([^/]+)$/);
+  if (analysis) return { name: 'analysis', id: decodeURIComponent(analysis[1]) };
+  const caseMatch = path.match(/^\/cases\/([^/]+)$/);
+  if (caseMatch) return { name: 'case', id: decodeURIComponent(caseMatch[1]) };
+
+  switch (path) {
+    case '/':
+      return { name: 'home' };
+    case '/analysis':
+      return { name: 'new_analysis' };
+    case '/history':
+      return { name: 'history' };
+    case '/cases':
+      return { name: 'cases' };
+    case '/stats':
+      return { name: 'stats' };
+    case '/evaluation':
+      return { name: 'evaluation' };
+    case '/about':
+      return { name: 'about' };
+    case '/login':
+      return { name: 'login' };
+    default:
+      return { name: 'not_found', path };
+  }
+}
+
+export function analysisPath(id: string) {
+  return `/analysis/${encodeURIComponent(id)}`;
+}
+
+export function casePath(id: string) {
+  return `/cases/${encodeURIComponent(id)}`;
+}
+
+// The cases page with a workspace selected
+export function workspacePath(id: string) {
+  return `/cases?${new URLSearchParams({ workspace: id })}`;
+}
+
+export function navigate(path: string, { replace = false } = {}) {
+  if (path === window.location.pathname + window.location.search) return;
+  const samePage = new URL(path, window.location.href).pathname === window.location.pathname;
+  if (replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+  // Query-only changes, such as history filters, keep the scroll position
+  if (!samePage) window.scrollTo(0, 0);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+export function usePathname() {
+  return useSyncExternalStore(subscribe, () => window.location.pathname);
+}
+
+// The query string, e.g. `?q=beach`, or '' when there is none
+export function useSearch() {
+  return useSyncExternalStore(subscribe, () => window.location.search);
+}
+
+export function useRoute(): Route {
+  return matchRoute(usePathname());
+}
@@ -0,0 +1,64 @@
+// Copy and thresholds for presenting a 0..1 AI likelihood score. The verdict
+// itself comes from the ensemble module shared with the server and the edge
+// function; VITE_VERDICT_* variables configure it like VERDICT_* on the server.
+
+import {
+  computeVerdict,
+  DEFAULT_VERDICT_CONFIG,
+  labelFromOutcome,
+  outcomeFromScore,
+  verdictConfigFromEnv,
+  type VerdictConfig,
+  type VerdictLabel,
+} from '../../shared/verdict.js';
+import { Analysis, AnalysisResult } from '../types';
+
+export type { Verdict, VerdictLabel, VerdictOutcome } from '../../shared/verdict.js';
+
+function loadVerdictConfig(): VerdictConfig {
+  try {
+    return verdictConfigFromEnv((key) => import.meta.env[`VITE_${key}`]);
+  } catch (err) {
+    console.error('Invalid verdict settings, using defaults:', err);
+    return DEFAULT_VERDICT_CONFIG;
+  }
+}
+
+export const verdictConfig = loadVerdictConfig();
+
+export function labelFromScore(s: number): VerdictLabel {
+  return labelFromOutcome(outcomeFromScore(s, verdictConfig.thresholds));
+}
+
+export function confidenceCopy(s: number) {
+  const { ai, authentic } = verdictConfig.thresholds;
+  if (s >= (1 + ai) / 2) return 'High confidence';
+  if (s >= ai) return 'Moderate confidence';
+  if (s >= 0.5) return 'Mixed signals';
+  if (s > authentic) return 'Leaning real';
+  return 'High confidence';
+}
+
+// 0..1 AI likelihood of a stored model result, or null when the model could
+// not score the file. Rows written by the detection server keep the raw score
+// in metadata (null when unscored); older rows only have a confidence. Same
+// rule as resultScore in server/stats.js.
+export function aiScoreFromResult(r: AnalysisResult): number | null {
+  if (typeof r.metadata.score === 'number') return r.metadata.score;
+  if (r.metadata.score === null || r.detection_type === 'uncertain') return null;
+  const c = r.confidence_score / 100;
+  return r.is_ai_generated ? c : 1 - c;
+}
+
+export function verdictFromResults(results: AnalysisResult[]) {
+  return computeVerdict(
+    results.map((r) => ({ name: r.model_name, score: aiScoreFromResult(r) })),
+    verdictConfig
+  );
+}
+
+// The verdict the server stored with the analysis, so badges agree with the
+// server-side verdict filter; recomputed from the results for older rows
+export function analysisVerdict(analysis: Pick<Analysis, 'verdict'> | null | undefined, results: AnalysisResult[]) {
+  return analysis?.verdict ?? verdictFromResults(results);
+}
@@ -0,0 +1,55 @@
+// The signed-in session for the local detection server (server/auth.js).
+// The bearer token is kept in localStorage so a reload stays signed in, and
+// `useSession` re-renders on sign-in, sign-out and changes in other tabs.
+// Supabase mode still reads with the anon key, so it only sees unowned rows.
+
+import { useSyncExternalStore } from 'react';
+import { Session } from '../types';
+
+const STORAGE_KEY = 'deepsleuth.session';
+const CHANGE_EVENT = 'app:session';
+
+function load(): Session | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Session | null;
+    return session && Date.parse(session.expiresAt) > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+let current = load();
+
+export function getSession() {
+  return current;
+}
+
+export function setSession(session: Session | null) {
+  current = session;
+  if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  else localStorage.removeItem(STORAGE_KEY);
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+// `Authorization` header for the current session, or none when signed out
+export function authHeaders(): Record<string, string> {
+  return current ? { Authorization: `Bearer ${current.token}` } : {};
+}
+
+function subscribe(onChange: () => void) {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    current = load();
+    onChange();
+  };
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function useSession() {
+  return useSyncExternalStore(subscribe, getSession);
+}
@@ -1,25 +1,125 @@
-// Minimal no-op stub for `supabase` used by some UI components.
-// This avoids importing the real Supabase client and lets the app run
-// locally without connecting to a database. Each method returns a
-// promise with a `{ data, error }` shape.
-
-function chainable() {
-  const obj: any = {
-    eq: () => obj,
-    order: () => obj,
-    limit: () => obj,
-    single: async () => ({ data: null, error: null }),
-  };
-
-  obj.select = async () => ({ data: [], error: null });
-  obj.insert = async () => ({ data: null, error: null });
-  obj.update = async () => ({ data: null, error: null });
-  obj.from = () => obj;
-  return obj;
+// Small Supabase-compatible query client used by the UI components.
+//
+// Chains such as `from('analyses').select('*').eq('id', id).maybeSingle()`
+// are turned into PostgREST-style GET requests. By default they go to the
+// local detection server (server/index.js), which understands the same query
+// syntax; when VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are set they go to
+// Supabase's REST API instead. Results keep the `{ data, error }` shape.
+// Requests to the local server carry the signed-in session (session.ts), so
+// they only see that user's analyses.
+
+import { Analysis, AnalysisResult } from '../types';
+import { API_URL } from './api';
+import { authHeaders } from './session';
+
+export interface Tables {
+  analyses: Analysis;
+  analysis_results: AnalysisResult;
+}
+
+export class QueryError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'QueryError';
+    this.status = status;
+  }
+}
+
+export interface QueryResponse<T> {
+  data: T | null;
+  error: QueryError | null;
+}
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
+
+function endpoint(table: string): { url: string; headers: Record<string, string> } {
+  if (SUPABASE_URL && SUPABASE_ANON_KEY) {
+    return {
+      url: `${SUPABASE_URL.replace(/\/$/, '')}/rest/v1/${table}`,
+      headers: { apikey: SUPABASE_ANON_KEY, Authorization: `Bearer ${SUPABASE_ANON_KEY}` },
+    };
+  }
+  return { url: `${API_URL.replace(/\/$/, '')}/${table}`, headers: authHeaders() };
+}
+
+type Primitive = string | number | boolean;
+
+class QueryBuilder<Row> implements PromiseLike<QueryResponse<Row[]>> {
+  private params = new URLSearchParams();
+  private orders: string[] = [];
+
+  constructor(private table: keyof Tables) {}
+
+  select(columns = '*') {
+    this.params.set('select', columns);
+    return this;
+  }
+
+  eq<K extends keyof Row & string>(column: K, value: Row[K] & Primitive) {
+    this.params.append(column, `eq.${value}`);
+    return this;
+  }
+
+  order<K extends keyof Row & string>(column: K, { ascending = true }: { ascending?: boolean } = {}) {
+    this.orders.push(`${column}.${ascending ? 'asc' : 'desc'}`);
+    return this;
+  }
+
+  limit(count: number) {
+    this.params.set('limit', String(count));
+    return this;
+  }
+
+  private async execute(): Promise<QueryResponse<Row[]>> {
+    const { url, headers } = endpoint(this.table);
+    const params = new URLSearchParams(this.params);
+    if (this.orders.length > 0) params.set('order', this.orders.join(','));
+
+    try {
+      const resp = await fetch(`${url}?${params}`, { headers });
+      if (!resp.ok) {
+        const body = await resp.json().catch(() => null);
+        const message = body?.error || body?.message || `${resp.status} ${resp.statusText}`;
+        return { data: null, error: new QueryError(message, resp.status) };
+      }
+      return { data: (await resp.json()) as Row[], error: null };
+    } catch (err) {
+      return { data: null, error: new QueryError(err instanceof Error ? err.message : String(err), 0) };
+    }
+  }
+
+  // Resolves to the one matching row, or `null` when nothing matches
+  async maybeSingle(): Promise<QueryResponse<Row>> {
+    this.params.set('limit', '2');
+    const { data, error } = await this.execute();
+    if (error) return { data: null, error };
+    if (data && data.length > 1) {
+      return { data: null, error: new QueryError('Query returned more than one row', 406) };
+    }
+    return { data: data?.[0] ?? null, error: null };
+  }
+
+  // Like maybeSingle, but a missing row is an error
+  async single(): Promise<QueryResponse<Row>> {
+    const { data, error } = await this.maybeSingle();
+    if (error) return { data: null, error };
+    if (!data) return { data: null, error: new QueryError('Query returned no rows', 406) };
+    return { data, error: null };
+  }
+
+  then<TResult1 = QueryResponse<Row[]>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResponse<Row[]>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
 }
 
 export const supabase = {
-  from: () => chainable(),
-  // keep API shape for places that may expect createClient-style methods
-  rpc: async () => ({ data: null, error: null }),
+  from<T extends keyof Tables>(table: T) {
+    return new QueryBuilder<Tables[T]>(table);
+  },
 };
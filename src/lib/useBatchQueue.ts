@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createBatch, followJob, getBatch, submitDetection } from './api';
+import { computeMediaHashes } from './hashes';
+import type { VerdictLabel } from './score';
+import { BatchSummary, DetectionJob } from '../types';
+
+export type BatchItemStatus = 'queued' | 'uploading' | DetectionJob['status'];
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: number; // 0..1, share of models finished
+  attempts: number;
+  jobId: string | null;
+  score: number | null;
+  label: VerdictLabel | null; // the server's verdict label, null when unscored
+  cached: boolean; // result reused from the server's cache
+  error: string | null;
+}
+
+// Client-side queue for bulk analysis. Runs at most `concurrency` uploads at
+// once and groups them under one server batch (POST /batches), whose verdict
+// counts and average score (GET /batches/:id) are re-read as jobs finish.
+export function useBatchQueue({ concurrency = 3 }: { concurrency?: number } = {}) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const inFlight = useRef(new Set<string>());
+  const batchId = useRef<Promise<string> | null>(null);
+
+  const update = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((it) => (it.id === id ? { ...it, ...patch } : it)));
+  }, []);
+
+  // Ignores the answer when the queue was cleared, and so moved to a new
+  // batch, while the request ran
+  const refreshSummary = useCallback(async () => {
+    const current = batchId.current;
+    if (!current) return;
+    try {
+      const report = await getBatch(await current);
+      if (batchId.current === current) setSummary(report.summary);
+    } catch {
+      // Keep the last summary; the next finished job tries again
+    }
+  }, []);
+
+  const run = useCallback(async (item: BatchItem) => {
+    update(item.id, { status: 'uploading', progress: 0, error: null, attempts: item.attempts + 1 });
+    try {
+      if (!batchId.current) {
+        batchId.current = createBatch().catch((err) => {
+          batchId.current = null;
+          throw err;
+        });
+      }
+      const hashes = await computeMediaHashes(item.file);
+      const { jobId, cached } = await submitDetection(item.file, { batchId: await batchId.current, hashes });
+      update(item.id, { status: 'pending', jobId, cached });
+
+      let started = 0;
+      let finished = 0;
+      const job = await followJob(jobId, {
+        onStatus: (status) => update(item.id, { status }),
+        onModelStarted: () => {
+          started++;
+          update(item.id, { progress: finished / started });
+        },
+        onModelResult: () => {
+          finished++;
+          update(item.id, { progress: finished / Math.max(started, finished) });
+        },
+      });
+
+      if (job.status === 'failed' || !job.detection) {
+        throw new Error(job.errors.map((e) => e.message).join('; ') || 'Detection failed');
+      }
+      const { verdict } = job.detection;
+      update(item.id, {
+        status: 'completed',
+        progress: 1,
+        score: job.detection.score,
+        label: verdict.score === null ? null : verdict.label,
+      });
+    } catch (err) {
+      update(item.id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+    } finally {
+      inFlight.current.delete(item.id);
+      void refreshSummary();
+      // Wake the scheduler even when the last update was a no-op
+      setItems((prev) => [...prev]);
+    }
+  }, [update, refreshSummary]);
+
+  useEffect(() => {
+    const slots = concurrency - inFlight.current.size;
+    if (slots <= 0) return;
+    items
+      .filter((it) => it.status === 'queued' && !inFlight.current.has(it.id))
+      .slice(0, slots)
+      .forEach((it) => {
+        inFlight.current.add(it.id);
+        run(it);
+      });
+  }, [items, concurrency, run]);
+
+  const add = useCallback((files: File[]) => {
+    setItems((prev) => [
+      ...prev,
+      ...files.map((file, i) => ({
+        id: `${Date.now()}_${prev.length + i}`,
+        file,
+        status: 'queued' as const,
+        progress: 0,
+        attempts: 0,
+        jobId: null,
+        score: null,
+        label: null,
+        cached: false,
+        error: null,
+      })),
+    ]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    update(id, { status: 'queued', progress: 0, error: null, score: null, label: null, jobId: null });
+  }, [update]);
+
+  const retryFailed = useCallback(() => {
+    setItems((prev) =>
+      prev.map((it) =>
+        it.status === 'failed'
+          ? { ...it, status: 'queued', progress: 0, error: null, score: null, label: null, jobId: null }
+          : it
+      )
+    );
+  }, []);
+
+  // Drops everything that is not running and starts a fresh batch next time
+  const clear = useCallback(() => {
+    setItems((prev) => prev.filter((it) => inFlight.current.has(it.id)));
+    batchId.current = null;
+    setSummary(null);
+  }, []);
+
+  return { items, summary, add, retry, retryFailed, clear };
+}
@@ -1,6 +1,11 @@
+import type { Verdict, VerdictLabel, VerdictOutcome } from '../../shared/verdict.js';
+import type { Region } from '../../shared/detectionModels.js';
+
+export type { Region } from '../../shared/detectionModels.js';
+
 export interface Analysis {
   id: string;
-  user_id?: string;
+  user_id?: string | null;
   file_name: string;
   file_type: 'image' | 'video' | 'audio';
   file_url: string;
@@ -8,6 +13,14 @@ export interface Analysis {
   status: 'pending' | 'processing' | 'completed' | 'failed';
   created_at: string;
   completed_at?: string;
+  file_sha256?: string | null;
+  request_id?: string | null;
+  verdict?: Verdict | null;
+  receipt?: Receipt | null;
+  provenance?: Provenance | null;
+  image_phash?: string | null;
+  image_dhash?: string | null;
+  audio_fingerprint?: string | null;
 }
 
 export interface AnalysisResult {
@@ -24,6 +37,7 @@ export interface AnalysisResult {
     analysisTimestamp?: string;
     detectedArtifacts?: string[];
     authenticityMarkers?: string[];
+    regions?: Region[];
     [key: string]: unknown;
   };
   created_at: string;
@@ -36,3 +50,337 @@ export interface AnalysisSummary {
   averageConfidence: number;
   overallVerdict: string;
 }
+
+// Response shapes of the local detection server (server/index.js)
+
+export interface DetectionModelScore {
+  name: string;
+  status: string;
+  score: number | null;
+  version?: string;
+  provider?: string;
+  regions?: Region[];
+}
+
+export interface Detection {
+  requestId: string;
+  status: string;
+  score: number | null;
+  verdict: Verdict;
+  // Set when model scores were calibrated (npm run calibrate)
+  calibration: { method: string; fittedAt: string } | null;
+  models: DetectionModelScore[];
+  duration?: number;
+  timeline?: FramePoint[];
+  segments?: AudioSegment[];
+  // Audio only: why segment scoring was skipped (e.g. ffmpeg is missing)
+  segmentsError?: string;
+}
+
+// AI score for one consecutive slice of an audio file; times are in seconds
+export interface AudioSegment {
+  index: number;
+  start: number;
+  end: number;
+  score: number | null;
+  models: DetectionModelScore[];
+}
+
+// A region together with the model that reported it
+export interface ModelRegion extends Region {
+  model: string;
+}
+
+// AI score for one sampled video frame; `time` is in seconds
+export interface FramePoint {
+  index: number;
+  time: number;
+  score: number | null;
+  models: DetectionModelScore[];
+}
+
+export interface DetectionJob {
+  id: string;
+  status: Analysis['status'];
+  analysis: Analysis;
+  results: AnalysisResult[];
+  errors: { provider?: string; message: string }[];
+  detection: Detection | null;
+  // True when the server answered from its result cache instead of re-running
+  cached?: boolean;
+}
+
+// Server-side view of a batch from GET /batches/:id (server/batches.js);
+// labels come from the server's verdict settings
+export interface BatchSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  inProgress: number;
+  likelyAi: number;
+  unclear: number;
+  likelyReal: number;
+  averageScore: number | null;
+}
+
+export interface BatchReport {
+  id: string;
+  created_at: string;
+  items: {
+    jobId: string;
+    fileName: string | null;
+    fileType: Analysis['file_type'] | null;
+    status: Analysis['status'];
+    score: number | null;
+    label: VerdictLabel | null;
+    errors: DetectionJob['errors'];
+  }[];
+  summary: BatchSummary;
+}
+
+// Detector evaluation report from GET /evaluation (server/evaluation.js)
+
+export interface ConfusionMatrix {
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+}
+
+export interface ModelMetrics {
+  name: string;
+  samples: number;
+  positives: number;
+  negatives: number;
+  threshold: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  rocAuc: number | null;
+  averagePrecision: number | null;
+  eer: number | null;
+  eerThreshold: number | null;
+  confusion: ConfusionMatrix;
+  roc: { threshold: number | null; fpr: number; tpr: number }[];
+  pr: { threshold: number; recall: number; precision: number }[];
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  evaluatedAt: string;
+  files: number;
+  failed: { path: string; error: string }[];
+  calibration: { method: string; fittedAt: string } | null;
+  ensemble: ModelMetrics & { strategy: string | null };
+  models: ModelMetrics[];
+}
+
+export interface EvaluationState {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  dataset: string | null;
+  progress: { done: number; total: number } | null;
+  error: string | null;
+  report: EvaluationReport | null;
+}
+
+// Signed analysis receipt (server/receipts.js)
+
+export interface ReceiptRecord {
+  analysisId: string;
+  issuedAt: string;
+  file: { name: string; type: Analysis['file_type']; size: number; sha256: string };
+  verdict: Pick<Verdict, 'strategy' | 'score' | 'outcome' | 'label' | 'thresholds'> | null;
+  models: { name: string; version: string; provider: string | null; score: number | null; rawScore: number | null }[];
+}
+
+export interface Receipt {
+  version: number;
+  algorithm: 'Ed25519';
+  keyId: string;
+  record: ReceiptRecord;
+  signature: string;
+}
+
+// From POST /verify; `fileMatches` is null when no file was checked
+export interface ReceiptVerification {
+  valid: boolean;
+  signatureValid: boolean;
+  keyMatches: boolean;
+  fileMatches: boolean | null;
+  record?: ReceiptRecord;
+  error?: string;
+}
+
+// C2PA / Content Credentials inspection of an image (server/provenance)
+
+export interface ProvenanceAction {
+  action: string;
+  when: string | null;
+  softwareAgent: string | null;
+  digitalSourceType: string | null;
+  description: string | null;
+}
+
+export interface ProvenanceManifest {
+  label: string;
+  claimGenerator: string | null;
+  title: string | null;
+  format: string | null;
+  instanceId: string | null;
+  signature: {
+    algorithm: string;
+    valid: boolean;
+    trusted: boolean;
+    signer: string;
+    issuer: string;
+    chain: { subject: string; issuer: string; validFrom: string; validTo: string }[];
+  };
+  contentBinding: 'valid' | 'mismatch' | 'missing';
+  actions: ProvenanceAction[];
+  ingredients: { title: string | null; format: string | null; relationship: string | null }[];
+  aiGenerated: boolean;
+  aiAssertions: string[];
+  assertions: string[];
+}
+
+export interface Provenance {
+  status: 'none' | 'valid' | 'untrusted' | 'unbound' | 'invalid';
+  format: 'jpeg' | 'png' | 'webp' | null;
+  manifestCount: number;
+  manifest: ProvenanceManifest | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// Content and perceptual hashes of a file, computed in the browser
+export interface MediaHashes {
+  sha256: string;
+  phash?: string;
+  dhash?: string;
+  audioFingerprint?: string;
+}
+
+// History page filters, kept in its URL. Scores are AI likelihood in percent
+// and dates are local YYYY-MM-DD days, both inclusive; empty means no filter.
+export interface HistoryFilters {
+  q: string;
+  fileType: Analysis['file_type'] | '';
+  status: Analysis['status'] | '';
+  verdict: VerdictOutcome | '';
+  minScore: string;
+  maxScore: string;
+  from: string;
+  to: string;
+}
+
+export interface AnalysisWithResults extends Analysis {
+  results: AnalysisResult[];
+}
+
+// One page of GET /analyses/search; `nextCursor` is null on the last page
+export interface HistoryPage {
+  items: AnalysisWithResults[];
+  nextCursor: string | null;
+}
+
+// GET /stats (server/stats.js). Buckets start on a UTC day or a Monday;
+// `aiRate` is the share of analyses with a verdict that were judged AI.
+export interface StatsBucket {
+  start: string;
+  total: number;
+  image: number;
+  video: number;
+  audio: number;
+  completed: number;
+  aiDetected: number;
+  aiRate: number | null;
+}
+
+export interface StatsReport {
+  totals: {
+    analyses: number;
+    completed: number;
+    aiDetected: number;
+    uncertain: number;
+    authentic: number;
+    averageConfidence: number | null;
+    byType: Record<Analysis['file_type'], number>;
+  };
+  interval: 'day' | 'week';
+  series: StatsBucket[];
+  confidenceHistogram: { from: number; to: number; count: number }[];
+  models: { name: string; total: number; aiDetected: number }[];
+  // cells[i][j] compares models[i] with models[j]; null on the diagonal
+  agreement: {
+    models: string[];
+    cells: ({ compared: number; disagreements: number; rate: number | null } | null)[][];
+  };
+}
+
+// An earlier analysis of the same file (`exact`) or near-identical media;
+// `distance` is the fraction of hash bits that differ
+export interface SimilarAnalysis {
+  match: 'exact' | 'near';
+  kind: 'sha256' | 'image' | 'audio';
+  distance: number;
+  analysis: Analysis;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  created_at: string;
+}
+
+// Returned by POST /auth/login and /auth/register
+export interface Session {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+export type WorkspaceRole = 'owner' | 'reviewer' | 'viewer';
+
+// GET /workspaces (server/routes/workspaces.js), with the caller's role
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  role: WorkspaceRole;
+  caseCount: number;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface WorkspaceDetail extends Omit<Workspace, 'caseCount'> {
+  members: WorkspaceMember[];
+}
+
+export type CaseStatus = 'open' | 'in_review' | 'closed';
+
+export interface Case {
+  id: string;
+  workspace_id: string;
+  title: string;
+  description: string;
+  status: CaseStatus;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  analysisCount: number;
+}
+
+// GET /cases/:id: the case with its analyses, newest first
+export interface CaseDetail extends Omit<Case, 'analysisCount'> {
+  role: WorkspaceRole;
+  analyses: AnalysisWithResults[];
+}
@@ -1,4 +1,13 @@
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+// @deno-types="../../../shared/detectionModels.d.ts"
+import {
+  AI_MODELS,
+  seededRandom,
+  simulateModelAnalysis,
+  type ModelResult,
+} from "../../../shared/detectionModels.js";
+// @deno-types="../../../shared/verdict.d.ts"
+import { computeVerdict, verdictConfigFromEnv } from "../../../shared/verdict.js";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,85 +19,23 @@ interface AnalysisRequest {
   analysisId: string;
   fileUrl: string;
   fileType: string;
+  fileSha256?: string;
 }
 
-interface ModelResult {
-  modelName: string;
-  modelVersion: string;
-  isAiGenerated: boolean;
-  confidenceScore: number;
-  detectionType: string;
-  processingTime: number;
-  metadata: Record<string, unknown>;
+async function sha256Hex(buf: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", buf);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
 }
 
-const AI_MODELS = [
-  {
-    name: "DeepFake Detector Pro",
-    version: "v2.1",
-    specialty: "deepfake",
-  },
-  {
-    name: "SynthImage Analyzer",
-    version: "v1.8",
-    specialty: "ai_generated",
-  },
-  {
-    name: "MediaAuth Validator",
-    version: "v3.0",
-    specialty: "authentic",
-  },
-  {
-    name: "Neural Pattern Recognition",
-    version: "v2.5",
-    specialty: "ai_generated",
-  },
-];
-
-function simulateModelAnalysis(
-  modelInfo: typeof AI_MODELS[0],
-  fileType: string
-): ModelResult {
-  const randomConfidence = Math.random() * 40 + 60;
-  const isAiGenerated = Math.random() > 0.5;
-
-  const detectionType = isAiGenerated
-    ? modelInfo.specialty === "deepfake"
-      ? "deepfake"
-      : "ai_generated"
-    : "authentic";
-
-  const processingTime = Math.random() * 2000 + 500;
-
-  const metadata: Record<string, unknown> = {
-    fileType,
-    algorithmUsed: modelInfo.specialty,
-    analysisTimestamp: new Date().toISOString(),
-  };
-
-  if (isAiGenerated) {
-    metadata.detectedArtifacts = [
-      "Inconsistent lighting patterns",
-      "Unnatural facial symmetry",
-      "Digital artifacts in high-frequency areas",
-    ].slice(0, Math.floor(Math.random() * 3) + 1);
-  } else {
-    metadata.authenticityMarkers = [
-      "Natural noise patterns",
-      "Consistent EXIF data",
-      "Organic compression artifacts",
-    ].slice(0, Math.floor(Math.random() * 3) + 1);
-  }
+// Prefer the hash the client already computed; otherwise hash the stored file.
+async function resolveFileHash(fileUrl: string, fileSha256?: string): Promise<string> {
+  if (fileSha256 && /^[0-9a-f]{64}$/i.test(fileSha256)) return fileSha256.toLowerCase();
 
-  return {
-    modelName: modelInfo.name,
-    modelVersion: modelInfo.version,
-    isAiGenerated,
-    confidenceScore: Math.round(randomConfidence * 100) / 100,
-    detectionType,
-    processingTime: Math.round(processingTime),
-    metadata,
-  };
+  const resp = await fetch(fileUrl);
+  if (!resp.ok) throw new Error(`Could not fetch file: ${resp.status}`);
+  return sha256Hex(await resp.arrayBuffer());
 }
 
 Deno.serve(async (req: Request) => {
@@ -103,8 +50,9 @@ Deno.serve(async (req: Request) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const verdictConfig = verdictConfigFromEnv((key) => Deno.env.get(key));
 
-    const { analysisId, fileUrl, fileType }: AnalysisRequest = await req.json();
+    const { analysisId, fileUrl, fileType, fileSha256 }: AnalysisRequest = await req.json();
 
     if (!analysisId || !fileUrl || !fileType) {
       return new Response(
@@ -116,6 +64,8 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const fileHash = await resolveFileHash(fileUrl, fileSha256);
+
     await supabase
       .from("analyses")
       .update({ status: "processing" })
@@ -124,7 +74,7 @@ Deno.serve(async (req: Request) => {
     const results: ModelResult[] = [];
 
     for (const model of AI_MODELS) {
-      const result = simulateModelAnalysis(model, fileType);
+      const result = simulateModelAnalysis(model, fileType, seededRandom(fileHash, model.name));
       results.push(result);
 
       await supabase.from("analysis_results").insert({
@@ -134,24 +84,33 @@ Deno.serve(async (req: Request) => {
         is_ai_generated: result.isAiGenerated,
         confidence_score: result.confidenceScore,
         detection_type: result.detectionType,
-        metadata: result.metadata,
+        metadata: result.regions ? { ...result.metadata, regions: result.regions } : result.metadata,
       });
 
       await new Promise((resolve) => setTimeout(resolve, result.processingTime));
     }
 
+    const aiGeneratedCount = results.filter((r) => r.isAiGenerated).length;
+    const averageConfidence =
+      results.reduce((sum, r) => sum + r.confidenceScore, 0) / results.length;
+    const verdict = computeVerdict(
+      results.map((r) => ({
+        name: r.modelName,
+        score: r.isAiGenerated ? r.confidenceScore / 100 : 1 - r.confidenceScore / 100,
+      })),
+      verdictConfig
+    );
+
     await supabase
       .from("analyses")
       .update({
         status: "completed",
-        completed_at: new Date().toISOString()
+        completed_at: new Date().toISOString(),
+        file_sha256: fileHash,
+        verdict,
       })
       .eq("id", analysisId);
 
-    const aiGeneratedCount = results.filter((r) => r.isAiGenerated).length;
-    const averageConfidence =
-      results.reduce((sum, r) => sum + r.confidenceScore, 0) / results.length;
-
     return new Response(
       JSON.stringify({
         success: true,
@@ -161,11 +120,9 @@ Deno.serve(async (req: Request) => {
           aiGeneratedCount,
           authenticCount: results.length - aiGeneratedCount,
           averageConfidence: Math.round(averageConfidence * 100) / 100,
-          overallVerdict:
-            aiGeneratedCount > results.length / 2
-              ? "Likely AI Generated"
-              : "Likely Authentic",
+          overallVerdict: verdict.label,
         },
+        verdict,
         results,
       }),
       {
@@ -0,0 +1,18 @@
+/*
+  # Report fields on analyses
+
+  1. Changes
+    - `analyses`
+      - `file_sha256` (text) - Hex SHA-256 of the analyzed file
+      - `request_id` (text) - Detector request ID of the merged result
+      - `verdict` (jsonb) - Ensemble verdict (strategy, score, outcome, label, votes)
+
+  2. Indexes
+    - `file_sha256`, to find earlier analyses of the same file
+*/
+
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS file_sha256 text CHECK (file_sha256 ~ '^[0-9a-f]{64}$');
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS request_id text;
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS verdict jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_analyses_file_sha256 ON analyses(file_sha256);
@@ -0,0 +1,10 @@
+/*
+  # Signed receipts on analyses
+
+  1. Changes
+    - `analyses`
+      - `receipt` (jsonb) - Ed25519-signed record of the file hash, model
+        scores and verdict, issued by the detection server on completion
+*/
+
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS receipt jsonb;
@@ -0,0 +1,11 @@
+/*
+  # C2PA provenance on analyses
+
+  1. Changes
+    - `analyses`
+      - `provenance` (jsonb) - C2PA / Content Credentials inspection of image
+        uploads: manifest status, signer, claim generator, actions and
+        AI-generation assertions
+*/
+
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS provenance jsonb;
@@ -0,0 +1,19 @@
+/*
+  # Perceptual hashes on analyses
+
+  1. Changes
+    - `analyses`
+      - `image_phash` (text) - 64-bit DCT perceptual hash of an image, as hex
+      - `image_dhash` (text) - 64-bit difference hash of an image, as hex
+      - `audio_fingerprint` (text) - Chroma fingerprint of an audio file,
+        24 bits per frame, as hex
+
+  2. Indexes
+    - `image_phash`, to find exact perceptual matches without a scan
+*/
+
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS image_phash text CHECK (image_phash ~ '^[0-9a-f]{16}$');
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS image_dhash text CHECK (image_dhash ~ '^[0-9a-f]{16}$');
+ALTER TABLE analyses ADD COLUMN IF NOT EXISTS audio_fingerprint text CHECK (audio_fingerprint ~ '^([0-9a-f]{6})+$');
+
+CREATE INDEX IF NOT EXISTS idx_analyses_image_phash ON analyses(image_phash);
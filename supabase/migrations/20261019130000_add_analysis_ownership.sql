@@ -0,0 +1,78 @@
+/*
+  # Per-user analysis ownership
+
+  1. Changes
+    - `analyses`
+      - `user_id` now references `auth.users`; analyses uploaded without a
+        session keep a null owner
+
+  2. Indexes
+    - `user_id`, for the per-user history and stats queries
+
+  3. Security
+    - Replace the public demo policies on `analyses` and `analysis_results`
+    - Signed-in users see and create only their own analyses and results
+    - Anonymous users see and create only unowned analyses and results
+*/
+
+ALTER TABLE analyses
+  ADD CONSTRAINT analyses_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_analyses_user_id ON analyses(user_id);
+
+DROP POLICY IF EXISTS "Anyone can view analyses" ON analyses;
+DROP POLICY IF EXISTS "Anyone can create analyses" ON analyses;
+DROP POLICY IF EXISTS "Anyone can view analysis results" ON analysis_results;
+DROP POLICY IF EXISTS "Anyone can create analysis results" ON analysis_results;
+
+CREATE POLICY "Users can view own analyses"
+  ON analyses FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own analyses"
+  ON analyses FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Anonymous users can view unowned analyses"
+  ON analyses FOR SELECT
+  TO anon
+  USING (user_id IS NULL);
+
+CREATE POLICY "Anonymous users can create unowned analyses"
+  ON analyses FOR INSERT
+  TO anon
+  WITH CHECK (user_id IS NULL);
+
+CREATE POLICY "Users can view results of own analyses"
+  ON analysis_results FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM analyses
+    WHERE analyses.id = analysis_results.analysis_id AND analyses.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create results of own analyses"
+  ON analysis_results FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM analyses
+    WHERE analyses.id = analysis_results.analysis_id AND analyses.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Anonymous users can view results of unowned analyses"
+  ON analysis_results FOR SELECT
+  TO anon
+  USING (EXISTS (
+    SELECT 1 FROM analyses
+    WHERE analyses.id = analysis_results.analysis_id AND analyses.user_id IS NULL
+  ));
+
+CREATE POLICY "Anonymous users can create results of unowned analyses"
+  ON analysis_results FOR INSERT
+  TO anon
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM analyses
+    WHERE analyses.id = analysis_results.analysis_id AND analyses.user_id IS NULL
+  ));
@@ -0,0 +1,224 @@
+/*
+  # Team workspaces and cases
+
+  1. New Tables
+    - `workspaces`
+      - `id` (uuid, primary key) - Unique identifier
+      - `name` (text) - Workspace name
+      - `created_by` (uuid) - User who created the workspace
+      - `created_at` (timestamptz) - When the workspace was created
+
+    - `workspace_members`
+      - `id` (uuid, primary key) - Unique identifier
+      - `workspace_id` (uuid, foreign key) - Reference to workspaces table
+      - `user_id` (uuid, foreign key) - The member
+      - `role` (text) - Role: owner, reviewer, viewer
+      - `created_at` (timestamptz) - When the member was added
+
+    - `cases`
+      - `id` (uuid, primary key) - Unique identifier
+      - `workspace_id` (uuid, foreign key) - Reference to workspaces table
+      - `title` (text) - Case title
+      - `description` (text) - What is being investigated
+      - `status` (text) - Status: open, in_review, closed
+      - `created_by` (uuid) - User who opened the case
+      - `created_at` (timestamptz) - When the case was opened
+      - `updated_at` (timestamptz) - Last change to the case or its analyses
+
+    - `case_analyses`
+      - `id` (uuid, primary key) - Unique identifier
+      - `case_id` (uuid, foreign key) - Reference to cases table
+      - `analysis_id` (uuid, foreign key) - Reference to analyses table
+      - `added_by` (uuid) - User who filed the analysis
+      - `created_at` (timestamptz) - When it was filed
+
+  2. Indexes
+    - `workspace_members(user_id)`, to list a user's workspaces
+    - `cases(workspace_id, updated_at)`, to list a workspace's cases
+    - `case_analyses(analysis_id)`, to find the cases sharing an analysis
+
+  3. Security
+    - Enable RLS on all new tables
+    - Members see their workspaces, members, cases and case analyses
+    - Owners manage the workspace and its members and delete cases
+    - Owners and reviewers create and edit cases and file analyses: their own,
+      or ones already filed in a workspace where they are owner or reviewer
+    - Members can also view the analyses and results filed in their cases
+*/
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_by uuid NOT NULL REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('owner', 'reviewer', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS cases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  description text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_review', 'closed')),
+  created_by uuid NOT NULL REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS case_analyses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  analysis_id uuid NOT NULL REFERENCES analyses(id) ON DELETE CASCADE,
+  added_by uuid NOT NULL REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (case_id, analysis_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_cases_workspace_updated_at ON cases(workspace_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_case_analyses_analysis_id ON case_analyses(analysis_id);
+
+-- The caller's role in a workspace, or null. SECURITY DEFINER so policies on
+-- workspace_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION workspace_role(workspace uuid)
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM workspace_members WHERE workspace_id = workspace AND user_id = auth.uid()
+$$;
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspaces"
+  ON workspaces FOR SELECT
+  TO authenticated
+  USING (workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Users can create workspaces"
+  ON workspaces FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update workspaces"
+  ON workspaces FOR UPDATE
+  TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete workspaces"
+  ON workspaces FOR DELETE
+  TO authenticated
+  USING (workspace_role(id) = 'owner');
+
+CREATE POLICY "Members can view members"
+  ON workspace_members FOR SELECT
+  TO authenticated
+  USING (workspace_role(workspace_id) IS NOT NULL);
+
+-- Owners add members; a workspace's creator adds themselves as its first owner
+CREATE POLICY "Owners can add members"
+  ON workspace_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    workspace_role(workspace_id) = 'owner'
+    OR (user_id = auth.uid() AND role = 'owner' AND EXISTS (
+      SELECT 1 FROM workspaces
+      WHERE workspaces.id = workspace_members.workspace_id AND workspaces.created_by = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Owners can change roles"
+  ON workspace_members FOR UPDATE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON workspace_members FOR DELETE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' OR user_id = auth.uid());
+
+CREATE POLICY "Members can view cases"
+  ON cases FOR SELECT
+  TO authenticated
+  USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Reviewers can create cases"
+  ON cases FOR INSERT
+  TO authenticated
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'reviewer') AND created_by = auth.uid());
+
+CREATE POLICY "Reviewers can update cases"
+  ON cases FOR UPDATE
+  TO authenticated
+  USING (workspace_role(workspace_id) IN ('owner', 'reviewer'));
+
+CREATE POLICY "Owners can delete cases"
+  ON cases FOR DELETE
+  TO authenticated
+  USING (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Members can view case analyses"
+  ON case_analyses FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM cases
+    WHERE cases.id = case_analyses.case_id AND workspace_role(cases.workspace_id) IS NOT NULL
+  ));
+
+-- Seeing an analysis is not enough to file it: a viewer of one workspace
+-- must not carry its analyses into another
+CREATE POLICY "Reviewers can file analyses"
+  ON case_analyses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    added_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM cases
+      WHERE cases.id = case_analyses.case_id AND workspace_role(cases.workspace_id) IN ('owner', 'reviewer')
+    )
+    AND (
+      EXISTS (SELECT 1 FROM analyses WHERE analyses.id = case_analyses.analysis_id AND analyses.user_id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM case_analyses AS filed
+        JOIN cases ON cases.id = filed.case_id
+        WHERE filed.analysis_id = case_analyses.analysis_id
+          AND workspace_role(cases.workspace_id) IN ('owner', 'reviewer')
+      )
+    )
+  );
+
+CREATE POLICY "Reviewers can remove filed analyses"
+  ON case_analyses FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM cases
+    WHERE cases.id = case_analyses.case_id AND workspace_role(cases.workspace_id) IN ('owner', 'reviewer')
+  ));
+
+CREATE POLICY "Members can view analyses filed in their cases"
+  ON analyses FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM case_analyses
+    JOIN cases ON cases.id = case_analyses.case_id
+    WHERE case_analyses.analysis_id = analyses.id AND workspace_role(cases.workspace_id) IS NOT NULL
+  ));
+
+CREATE POLICY "Members can view results of analyses filed in their cases"
+  ON analysis_results FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM case_analyses
+    JOIN cases ON cases.id = case_analyses.case_id
+    WHERE case_analyses.analysis_id = analysis_results.analysis_id AND workspace_role(cases.workspace_id) IS NOT NULL
+  ));